@@ -0,0 +1,22 @@
+import Analytics, { AnalyticsFilters } from '@/components/Analytics';
+import { isDateFilter } from '@/lib/filters';
+import { router, useLocalSearchParams } from 'expo-router';
+
+// Filters travel as params so the screen opens on whatever the list was showing
+export default function AnalyticsScreen() {
+  const params = useLocalSearchParams<{ filter?: string; from?: string; to?: string; client?: string }>();
+  const filters: AnalyticsFilters = {
+    dateFilter: isDateFilter(params.filter) ? params.filter : 'all',
+    customFrom: params.from ?? '',
+    customTo: params.to ?? '',
+    clientId: params.client || null,
+  };
+
+  return (
+    <Analytics
+      filters={filters}
+      onChange={(patch) => router.setParams({ filter: patch.dateFilter ?? filters.dateFilter })}
+      onBack={() => (router.canGoBack() ? router.back() : router.replace('/'))}
+    />
+  );
+}
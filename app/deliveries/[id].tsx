@@ -0,0 +1,8 @@
+import { JobScreen } from '@/components/JobDetails';
+import { router, useLocalSearchParams } from 'expo-router';
+
+// A job's details, on their own so the back button leaves them
+export default function DeliveryRoute() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <JobScreen id={id} onBack={() => (router.canGoBack() ? router.back() : router.replace('/'))} />;
+}
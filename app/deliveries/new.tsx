@@ -0,0 +1,16 @@
+import { NewDeliveryScreen } from '@/components/DeliveryForm';
+import { LinkParams } from '@/lib/links';
+import { router, useLocalSearchParams } from 'expo-router';
+
+// The job form, pre-filled from the link's query. Saving swaps it for the new
+// job's details, so going back skips the finished form.
+export default function NewDeliveryRoute() {
+  const link = useLocalSearchParams() as LinkParams;
+  return (
+    <NewDeliveryScreen
+      link={link}
+      onClose={() => (router.canGoBack() ? router.back() : router.replace('/'))}
+      onSaved={(id) => router.replace({ pathname: '/deliveries/[id]', params: { id } })}
+    />
+  );
+}
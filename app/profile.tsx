@@ -0,0 +1,6 @@
+import Profile from '@/components/Profile';
+import { router } from 'expo-router';
+
+export default function ProfileRoute() {
+  return <Profile onBack={() => (router.canGoBack() ? router.back() : router.replace('/'))} />;
+}
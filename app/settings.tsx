@@ -0,0 +1,6 @@
+import SettingsScreen from '@/components/Settings';
+import { router } from 'expo-router';
+
+export default function SettingsRoute() {
+  return <SettingsScreen onBack={() => (router.canGoBack() ? router.back() : router.replace('/'))} />;
+}
@@ -0,0 +1,212 @@
+import { styles } from '@/components/styles';
+import { useSettings } from '@/hooks/useSettings';
+import { Bucket, earningsByPeriod, jobsPerDay, Period, rankRoutes, RouteStat, statusSplit, timeStats } from '@/lib/analytics';
+import { Client, loadClients } from '@/lib/clients';
+import { Delivery, loadCache, loadSyncCursor } from '@/lib/deliveries';
+import { DATE_FILTERS, DateFilter, filterByDate, filterLabel, filterRange } from '@/lib/filters';
+import { currency, distanceUnit, rate, toDisplayRate } from '@/lib/format';
+import { isOpen } from '@/lib/lifecycle';
+import { supabase } from '@/lib/supabase';
+import { loadRange } from '@/lib/sync';
+import { hoursLabel } from '@/lib/times';
+import { computeTotals } from '@/lib/totals';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Pressable, SafeAreaView, ScrollView, StatusBar, Text, TouchableOpacity, View } from 'react-native';
+
+export type AnalyticsFilters = { dateFilter: DateFilter; customFrom: string; customTo: string; clientId: string | null };
+
+// -----------------------
+// Analytics
+// -----------------------
+// Reads the local cache, so it works offline and matches what the list shows;
+// when signed in a date range is fetched whole first, as the list does.
+// Filters arrive from the list and changes go back through `onChange`.
+export default function Analytics({ filters, onChange, onBack }: {
+  filters: AnalyticsFilters;
+  onChange: (patch: Partial<AnalyticsFilters>) => void;
+  onBack: () => void;
+}) {
+  const [all, setAll] = useState<Delivery[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [period, setPeriod] = useState<Period>('week');
+  const [userId, setUserId] = useState<string | null>(null);
+  const [partial, setPartial] = useState(false);
+  const settings = useSettings();
+
+  useEffect(() => {
+    loadCache().then(setAll);
+    loadClients().then(setClients);
+    supabase.auth.getSession().then(({ data }) => setUserId(data.session?.user.id ?? null));
+  }, []);
+
+  const range = filterRange(filters.dateFilter, filters.customFrom, filters.customTo);
+  const rangeStart = range?.startISO;
+  const rangeEnd = range?.endISO;
+  useEffect(() => {
+    if (!userId) return;
+    let live = true;
+    if (!rangeStart || !rangeEnd) {
+      // All time covers only the history loaded so far
+      loadSyncCursor(userId).then((c) => { if (live) setPartial(!c.exhausted); });
+    } else {
+      setPartial(false);
+      loadRange(userId, rangeStart, rangeEnd).then((r) => { if (live) setAll(r.live); }).catch(() => {});
+    }
+    return () => { live = false; };
+  }, [userId, rangeStart, rangeEnd]);
+
+  const list = useMemo(() => {
+    const dated = filterByDate(all, filters.dateFilter, filters.customFrom, filters.customTo);
+    return filters.clientId ? dated.filter((d) => d.clientId === filters.clientId) : dated;
+  }, [all, filters]);
+
+  const totals = useMemo(() => computeTotals(list.filter((d) => !isOpen(d.status))), [list]);
+  const buckets = useMemo(() => earningsByPeriod(list, period, settings.weekStartsOn), [list, period, settings.weekStartsOn]);
+  const perDay = useMemo(() => jobsPerDay(list, settings.weekStartsOn), [list, settings.weekStartsOn]);
+  const split = useMemo(() => statusSplit(list), [list]);
+  const time = useMemo(() => timeStats(list), [list]);
+  const routes = useMemo(() => rankRoutes(list), [list]);
+  const client = clients.find((c) => c.id === filters.clientId);
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <StatusBar backgroundColor="#0f172a" barStyle="light-content" />
+      <View style={styles.modalHeader}>
+        <TouchableOpacity onPress={onBack} style={styles.avatar}>
+          <Ionicons name="chevron-back" size={20} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.modalTitle}>Analytics</Text>
+        <View style={{ width: 36 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={[styles.form, { paddingBottom: 32 }]}>
+        <View style={styles.chips}>
+          {DATE_FILTERS.filter((k) => k !== 'custom' || filters.dateFilter === 'custom').map((k) => (
+            <Pressable key={k} onPress={() => onChange({ dateFilter: k })} style={[styles.chip, filters.dateFilter === k && styles.chipActive]}>
+              <Text style={[styles.chipText, filters.dateFilter === k && styles.chipTextActive]}>{k.toUpperCase()}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <Text style={styles.cardSub}>
+          {filterLabel(filters.dateFilter, filters.customFrom, filters.customTo)}{client ? ` · ${client.name}` : ''} · {list.length} jobs
+          {partial ? ' · older jobs not loaded yet (Load all on the list)' : ''}
+        </Text>
+
+        <View style={styles.statGrid}>
+          <Tile label="Income" value={currency(totals.net)} />
+          <Tile label="Profit after costs" value={currency(totals.profit)} />
+          <Tile label={`Average per ${distanceUnit()}`} value={currency(toDisplayRate(totals.avgPerKm))} />
+          <Tile label="Jobs per working day" value={perDay.average.toFixed(1)} />
+          <Tile label="Waiting time" value={hoursLabel(time.waiting)} />
+          <Tile label={`Per hour (${time.timedJobs} timed jobs)`} value={time.timedJobs ? currency(time.perHour) : '—'} />
+        </View>
+
+        <View style={[styles.rateLine, { alignItems: 'center', marginTop: 8 }]}>
+          <Text style={[styles.formLabel, { flex: 1 }]}>Earnings over time</Text>
+          {(['week', 'month'] as const).map((p) => (
+            <Pressable key={p} onPress={() => setPeriod(p)} style={[styles.chip, period === p && styles.chipActive]}>
+              <Text style={[styles.chipText, period === p && styles.chipTextActive]}>{p === 'week' ? 'WEEKLY' : 'MONTHLY'}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <EarningsChart buckets={buckets} />
+
+        <Text style={styles.formLabel}>Jobs by day of week</Text>
+        <View style={styles.chartBars}>
+          {perDay.byDay.map((d) => (
+            <Bar key={d.label} label={d.label} value={d.jobs} max={Math.max(1, ...perDay.byDay.map((x) => x.jobs))} caption={d.jobs ? String(d.jobs) : ''} />
+          ))}
+        </View>
+
+        <Text style={styles.formLabel}>Job outcomes</Text>
+        <View style={styles.splitBar}>
+          {split.filter((s) => s.jobs).map((s) => (
+            <View key={s.status} style={{ flex: s.jobs, backgroundColor: s.color }} />
+          ))}
+        </View>
+        <View style={[styles.chips, { gap: 12 }]}>
+          {split.filter((s) => s.jobs).map((s) => (
+            <View key={s.status} style={[styles.rateLine, { alignItems: 'center', gap: 4 }]}>
+              <View style={[styles.legendDot, { backgroundColor: s.color }]} />
+              <Text style={styles.chipText}>{s.label} {s.jobs}{list.length ? ` (${Math.round((s.jobs / list.length) * 100)}%)` : ''}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.formLabel}>Most profitable routes</Text>
+        <RouteList routes={routes.best} />
+        {routes.worst.length ? (
+          <>
+            <Text style={styles.formLabel}>Least profitable routes</Text>
+            <RouteList routes={routes.worst} />
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.statTile}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={styles.statValue}>{value}</Text>
+    </View>
+  );
+}
+
+// Plain views rather than a chart library; bars scale against the tallest one
+function Bar({ label, value, stack = 0, max, caption }: { label: string; value: number; stack?: number; max: number; caption?: string }) {
+  const pct = (n: number) => `${Math.max(0, (n / max) * 100)}%` as const;
+  return (
+    <View style={styles.chartCol}>
+      <View style={{ flex: 1, width: '100%', justifyContent: 'flex-end', alignItems: 'center' }}>
+        {caption ? <Text style={styles.chartLabel} numberOfLines={1}>{caption}</Text> : null}
+        <View style={{ width: '100%', height: pct(value + stack) }}>
+          {stack ? <View style={[styles.chartBarStack, { flex: stack }]} /> : null}
+          <View style={[styles.chartBar, { flex: value }, stack ? { borderTopLeftRadius: 0, borderTopRightRadius: 0 } : null]} />
+        </View>
+      </View>
+      <Text style={styles.chartLabel} numberOfLines={1}>{label}</Text>
+    </View>
+  );
+}
+
+function EarningsChart({ buckets }: { buckets: Bucket[] }) {
+  if (!buckets.length) return <Text style={styles.cardSub}>No earnings in this range.</Text>;
+  const max = Math.max(1, ...buckets.map((b) => b.earnings + b.expenses));
+  return (
+    <>
+      <View style={styles.chartBars}>
+        {buckets.map((b) => <Bar key={b.key} label={b.label} value={b.earnings} stack={b.expenses} max={max} />)}
+      </View>
+      <View style={[styles.chips, { gap: 12 }]}>
+        <View style={[styles.rateLine, { alignItems: 'center', gap: 4 }]}>
+          <View style={[styles.legendDot, { backgroundColor: '#22c55e' }]} /><Text style={styles.chipText}>Fees</Text>
+        </View>
+        <View style={[styles.rateLine, { alignItems: 'center', gap: 4 }]}>
+          <View style={[styles.legendDot, { backgroundColor: '#0ea5e9' }]} /><Text style={styles.chipText}>Reimbursed expenses</Text>
+        </View>
+        <Text style={styles.chipText}>Peak {currency(max)}</Text>
+      </View>
+    </>
+  );
+}
+
+function RouteList({ routes }: { routes: RouteStat[] }) {
+  if (!routes.length) return <Text style={styles.cardSub}>No jobs with both ends recorded.</Text>;
+  return (
+    <View style={styles.rateBox}>
+      {routes.map((r) => (
+        <View key={r.key} style={styles.rateLine}>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: 'white' }} numberOfLines={1}>{r.pickup} → {r.dropoff}</Text>
+            <Text style={styles.chipText}>{r.jobs} job{r.jobs === 1 ? '' : 's'} · {rate(r.perKm)}</Text>
+          </View>
+          <Text style={{ color: r.perJob < 0 ? '#fecaca' : '#cbd5e1' }}>{currency(r.perJob)}/job</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,206 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import UnitInput from '@/components/UnitInput';
+import { Client, ClientDraft, deleteClient, emptyClient, upsertClient } from '@/lib/clients';
+import { currency, currencySymbol, distanceUnit, rate } from '@/lib/format';
+import { emptyRateCard, RateCard } from '@/lib/rates';
+import React, { useState } from 'react';
+import { Alert, FlatList, Modal, SafeAreaView, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Clients
+// -----------------------
+export default function ClientsModal({ visible, onClose, userId, clients, onChange }: {
+  visible: boolean;
+  onClose: () => void;
+  userId: string | null;
+  clients: Client[];
+  onChange: (list: Client[]) => void;
+}) {
+  const [draft, setDraft] = useState<ClientDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function save() {
+    if (!userId || !draft) return;
+    if (!draft.name.trim()) return Alert.alert('Missing name', 'Please enter the client name.');
+    try {
+      setBusy(true);
+      onChange(await upsertClient(userId, draft));
+      setDraft(null);
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message ?? 'Unable to save the client');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function confirmRemove(c: Client) {
+    Alert.alert(`Delete ${c.name}?`, 'Jobs already logged for this client keep their rates but lose the link.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete', style: 'destructive', onPress: async () => {
+          if (!userId) return;
+          try { onChange(await deleteClient(userId, c.id)); setDraft(null); }
+          catch (e: any) { Alert.alert('Delete failed', e?.message ?? 'Unable to delete the client'); }
+        },
+      },
+    ]);
+  }
+
+  const set = (k: keyof ClientDraft, v: any) => draft && setDraft({ ...draft, [k]: v });
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{draft ? (draft.id ? 'Edit Client' : 'New Client') : 'Clients'}</Text>
+          <TouchableOpacity onPress={draft ? () => setDraft(null) : onClose}>
+            <Text style={styles.btnGhostText}>{draft ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {!userId ? (
+          <Text style={{ color: '#94a3b8', padding: 16 }}>Sign in to manage clients.</Text>
+        ) : draft ? (
+          <FlatList
+            data={[{ key: 'form' }]}
+            keyExtractor={(i) => i.key}
+            renderItem={() => (
+              <View style={styles.form}>
+                <FormRow label="Name">
+                  <TextInput value={draft.name} onChangeText={(v) => set('name', v)} style={styles.input} placeholder="BCA Logistics" />
+                </FormRow>
+                <FormRow label="Contact">
+                  <TextInput value={draft.contactName} onChangeText={(v) => set('contactName', v)} style={styles.input} placeholder="Booking desk" />
+                </FormRow>
+                <FormRow label="Email">
+                  <TextInput value={draft.email} onChangeText={(v) => set('email', v)} style={styles.input} autoCapitalize="none" keyboardType="email-address" />
+                </FormRow>
+                <FormRow label="Phone">
+                  <TextInput value={draft.phone} onChangeText={(v) => set('phone', v)} style={styles.input} keyboardType="phone-pad" />
+                </FormRow>
+                <FormRow label="Billing address">
+                  <TextInput value={draft.address} onChangeText={(v) => set('address', v)} style={[styles.input, { height: 64, textAlignVertical: 'top' }]} multiline />
+                </FormRow>
+                <FormRow label={`Default Rate (${currencySymbol()}/${distanceUnit()})`}>
+                  <UnitInput kind="rate" value={draft.ratePerKm} onChange={(v) => set('ratePerKm', v ?? 0)} placeholder="0.75" />
+                </FormRow>
+                <FormRow label={`Default Fixed Fee (${currencySymbol()})`}>
+                  <TextInput keyboardType="decimal-pad" value={String(draft.fixedFee ?? '')} onChangeText={(v) => set('fixedFee', Number(v) || 0)} style={styles.input} placeholder="10" />
+                </FormRow>
+                <FormRow label="Payment terms (days)">
+                  <TextInput keyboardType="number-pad" value={String(draft.paymentTermsDays ?? '')} onChangeText={(v) => set('paymentTermsDays', Number(v) || 0)} style={styles.input} placeholder="30" />
+                </FormRow>
+                <FormRow label={`Waiting rate (${currencySymbol()}/hour)`}>
+                  <TextInput keyboardType="decimal-pad" value={String(draft.waitingRatePerHour ?? '')} onChangeText={(v) => set('waitingRatePerHour', Number(v) || 0)} style={styles.input} placeholder="0 = not charged" />
+                </FormRow>
+                <FormRow label="Free waiting (minutes)">
+                  <TextInput keyboardType="number-pad" value={String(draft.waitingFreeMinutes ?? '')} onChangeText={(v) => set('waitingFreeMinutes', Number(v) || 0)} style={styles.input} placeholder="30" />
+                </FormRow>
+                <FormRow label={`Abort fee (${currencySymbol()} + % of the job) — once you've set off`}>
+                  <View style={styles.rateLine}>
+                    <TextInput keyboardType="decimal-pad" value={String(draft.abortFee ?? '')} onChangeText={(v) => set('abortFee', Number(v) || 0)} style={[styles.input, { flex: 1 }]} placeholder="25" />
+                    <TextInput keyboardType="decimal-pad" value={String(draft.abortPct ?? '')} onChangeText={(v) => set('abortPct', Number(v) || 0)} style={[styles.input, { flex: 1 }]} placeholder="50" />
+                  </View>
+                </FormRow>
+                <View style={[styles.rateLine, { alignItems: 'center', marginTop: 8 }]}>
+                  <Text style={[styles.formLabel, { flex: 1 }]}>Require signature to complete jobs</Text>
+                  <Switch value={!!draft.requireProof} onValueChange={(on) => { set('requireProof', on); }} />
+                </View>
+                <View style={[styles.rateLine, { alignItems: 'center', marginTop: 8 }]}>
+                  <Text style={[styles.formLabel, { flex: 1 }]}>Rate card</Text>
+                  <Switch value={!!draft.rateCard} onValueChange={(on) => { set('rateCard', on ? emptyRateCard() : null); }} />
+                </View>
+                {draft.rateCard ? <RateCardEditor card={draft.rateCard} onChange={(c) => set('rateCard', c)} /> : null}
+                <View style={[styles.cardActions, { marginTop: 16 }]}>
+                  <TouchableOpacity disabled={busy} onPress={save} style={styles.btnPrimary}>
+                    <Text style={styles.btnPrimaryText}>{busy ? 'Saving…' : draft.id ? 'Save Changes' : 'Add Client'}</Text>
+                  </TouchableOpacity>
+                  {draft.id ? (
+                    <TouchableOpacity onPress={() => confirmRemove(draft as Client)} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+                  ) : null}
+                </View>
+              </View>
+            )}
+          />
+        ) : (
+          <FlatList
+            data={clients}
+            keyExtractor={(c) => c.id}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+            ListHeaderComponent={
+              <TouchableOpacity onPress={() => setDraft(emptyClient())} style={[styles.btnPrimary, { alignItems: 'center', marginBottom: 12 }]}>
+                <Text style={styles.btnPrimaryText}>＋ New Client</Text>
+              </TouchableOpacity>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyWrap}>
+                <Text style={styles.emptyTitle}>No clients yet</Text>
+                <Text style={styles.emptySub}>Add the agencies and dealerships you work for.</Text>
+              </View>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity onPress={() => setDraft({ ...item })} style={styles.card}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                <Text style={styles.cardSub}>{item.rateCard ? 'Rate card' : `${rate(item.ratePerKm)} + ${currency(item.fixedFee)}`} · {item.paymentTermsDays} day terms{item.waitingRatePerHour ? ` · waiting ${currency(item.waitingRatePerHour)}/h` : ''}</Text>
+                {item.contactName || item.email ? <Text style={styles.cardSub}>{[item.contactName, item.email, item.phone].filter(Boolean).join(' · ')}</Text> : null}
+              </TouchableOpacity>
+            )}
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// Distance bands, fixed route fees and the surcharges a job can attract.
+// Bands are sorted by distance when the client is saved.
+function RateCardEditor({ card, onChange }: { card: RateCard; onChange: (c: RateCard) => void }) {
+  const set = (k: keyof RateCard, v: any) => onChange({ ...card, [k]: v });
+  const setBand = (i: number, patch: Partial<RateCard['bands'][number]>) => set('bands', card.bands.map((b, j) => (j === i ? { ...b, ...patch } : b)));
+  const setRoute = (i: number, patch: Partial<RateCard['routes'][number]>) => set('routes', card.routes.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  return (
+    <View style={styles.rateBox}>
+      <Text style={styles.formLabel}>Distance bands</Text>
+      {card.bands.map((b, i) => (
+        <View key={i} style={styles.rateLine}>
+          <UnitInput kind="distance" allowEmpty value={b.upToKm} onChange={(v) => setBand(i, { upToKm: v })} style={[styles.input, { flex: 1 }]} placeholder={`Up to ${distanceUnit()} (blank = any)`} />
+          <TextInput keyboardType="decimal-pad" value={String(b.flat ?? '')} onChangeText={(v) => setBand(i, { flat: Number(v) || 0 })} style={[styles.input, { flex: 1 }]} placeholder={`Flat ${currencySymbol()}`} />
+          <UnitInput kind="rate" value={b.ratePerKm} onChange={(v) => setBand(i, { ratePerKm: v ?? 0 })} style={[styles.input, { flex: 1 }]} placeholder={`${currencySymbol()}/${distanceUnit()}`} />
+          <TouchableOpacity onPress={() => set('bands', card.bands.filter((_, j) => j !== i))} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>✕</Text></TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => set('bands', [...card.bands, { upToKm: null, flat: 0, ratePerKm: 0 }])} style={styles.btnGhost}><Text style={styles.btnGhostText}>＋ Add band</Text></TouchableOpacity>
+      {!card.bands.length ? <Text style={styles.cardSub}>No bands: jobs are priced at their own rate and fixed fee.</Text> : null}
+
+      <Text style={[styles.formLabel, { marginTop: 8 }]}>Fixed route fees</Text>
+      {card.routes.map((r, i) => (
+        <View key={i} style={styles.rateLine}>
+          <TextInput value={r.pickup} onChangeText={(v) => setRoute(i, { pickup: v })} style={[styles.input, { flex: 2 }]} placeholder="Pickup" />
+          <TextInput value={r.dropoff} onChangeText={(v) => setRoute(i, { dropoff: v })} style={[styles.input, { flex: 2 }]} placeholder="Drop-off" />
+          <TextInput keyboardType="decimal-pad" value={String(r.fee ?? '')} onChangeText={(v) => setRoute(i, { fee: Number(v) || 0 })} style={[styles.input, { flex: 1 }]} placeholder={currencySymbol()} />
+          <TouchableOpacity onPress={() => set('routes', card.routes.filter((_, j) => j !== i))} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>✕</Text></TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => set('routes', [...card.routes, { pickup: '', dropoff: '', fee: 0 }])} style={styles.btnGhost}><Text style={styles.btnGhostText}>＋ Add route</Text></TouchableOpacity>
+
+      <FormRow label={`Minimum charge (${currencySymbol()})`}>
+        <TextInput keyboardType="decimal-pad" value={String(card.minimumCharge ?? '')} onChangeText={(v) => set('minimumCharge', Number(v) || 0)} style={styles.input} placeholder="0" />
+      </FormRow>
+      <FormRow label="Weekend uplift (%)">
+        <TextInput keyboardType="decimal-pad" value={String(card.weekendUpliftPct ?? '')} onChangeText={(v) => set('weekendUpliftPct', Number(v) || 0)} style={styles.input} placeholder="0" />
+      </FormRow>
+      <FormRow label="Bank holiday uplift (%)">
+        <TextInput keyboardType="decimal-pad" value={String(card.bankHolidayUpliftPct ?? '')} onChangeText={(v) => set('bankHolidayUpliftPct', Number(v) || 0)} style={styles.input} placeholder="0" />
+      </FormRow>
+      <FormRow label={`Night premium (${currencySymbol()})`}>
+        <TextInput keyboardType="decimal-pad" value={String(card.nightPremium ?? '')} onChangeText={(v) => set('nightPremium', Number(v) || 0)} style={styles.input} placeholder="0" />
+      </FormRow>
+      <View style={styles.customRange}>
+        <TextInput value={card.nightFrom} onChangeText={(v) => set('nightFrom', v)} style={[styles.input, { flex: 1 }]} placeholder="Night from (22:00)" />
+        <TextInput value={card.nightTo} onChangeText={(v) => set('nightTo', v)} style={[styles.input, { flex: 1 }]} placeholder="Night to (06:00)" />
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,237 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import UnitInput from '@/components/UnitInput';
+import { Delivery } from '@/lib/deliveries';
+import { currency, currencySymbol, dateLabel, distance, distanceUnit, iso } from '@/lib/format';
+import { dayTotals, deleteShift, emptyLeg, Leg, LEG_MODES, loadShifts, newShift, saveShift, Shift, Stop, stopKey, syncShifts } from '@/lib/shifts';
+import { hoursLabel } from '@/lib/times';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, Pressable, SafeAreaView, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const shiftDate = (dateISO: string, days: number) => {
+  const d = new Date(`${dateISO}T12:00:00`);
+  d.setDate(d.getDate() + days);
+  return iso(d);
+};
+
+// -----------------------
+// Day view
+// -----------------------
+// One day's run in travel order. Jobs come from the main list; legs only
+// exist here. Works offline: edits go to the cache and sync later.
+export default function DayRun({ dateISO, onChangeDate, deliveries, userId, onOpenJob }: {
+  dateISO: string;
+  onChangeDate: (dateISO: string) => void;
+  deliveries: Delivery[];
+  userId: string | null;
+  onOpenJob: (d: Delivery) => void;
+}) {
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [leg, setLeg] = useState<{ leg: Leg; at: number } | null>(null);
+
+  useEffect(() => {
+    loadShifts().then(setShifts);
+    if (userId) syncShifts(userId).then(setShifts);
+  }, [userId]);
+
+  // Two devices can each start a run for the same day; show the newest
+  const shift = shifts.filter((s) => s.dateISO === dateISO).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  const dayJobs = deliveries.filter((d) => d.dateISO === dateISO);
+  const jobOf = (id: string) => deliveries.find((d) => d.id === id);
+  // Stops whose job isn't in the list (trashed, or in history not loaded yet)
+  // are only hidden; edits below apply to the whole run and keep them.
+  const all = shift?.stops ?? [];
+  const stops = all.filter((s) => s.kind === 'leg' || jobOf(s.deliveryId));
+  const missing = dayJobs.filter((d) => !all.some((s) => s.kind === 'job' && s.deliveryId === d.id));
+  const totals = shift ? dayTotals({ ...shift, stops }, deliveries) : null;
+  const indexOf = (s: Stop) => all.findIndex((x) => stopKey(x) === stopKey(s));
+
+  async function save(next: Stop[]) {
+    if (!shift) return;
+    setShifts(await saveShift(userId, { ...shift, stops: next }));
+  }
+
+  // Swaps with the neighbouring shown stop, wherever hidden ones sit between them
+  function move(i: number, by: number) {
+    const j = i + by;
+    if (j < 0 || j >= stops.length) return;
+    const a = indexOf(stops[i]), b = indexOf(stops[j]);
+    const next = [...all];
+    [next[a], next[b]] = [next[b], next[a]];
+    save(next);
+  }
+
+  function saveLeg(l: Leg) {
+    if (!leg) return;
+    const i = all.findIndex((s) => s.kind === 'leg' && s.leg.id === l.id);
+    // `at` counts shown stops; a new leg goes straight after the shown stop before it
+    const at = leg.at > 0 ? indexOf(stops[leg.at - 1]) + 1 : 0;
+    save(i >= 0 ? all.map((s, k) => (k === i ? { kind: 'leg', leg: l } : s)) : [...all.slice(0, at), { kind: 'leg', leg: l }, ...all.slice(at)]);
+    setLeg(null);
+  }
+
+  function confirmRemoveRun() {
+    if (!shift) return;
+    Alert.alert('Remove this day run?', 'Its legs are deleted; the jobs stay in your list.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove', style: 'destructive', onPress: async () => {
+          try { setShifts(await deleteShift(userId, shift.id)); } catch (e: any) { Alert.alert('Remove failed', e?.message ?? 'Please try again when online'); }
+        },
+      },
+    ]);
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ gap: 10, paddingBottom: 120 }}>
+      <View style={[styles.rateLine, { alignItems: 'center', justifyContent: 'space-between' }]}>
+        <TouchableOpacity onPress={() => onChangeDate(shiftDate(dateISO, -1))} style={styles.btnGhost}><Ionicons name="chevron-back" size={16} color="white" /></TouchableOpacity>
+        <Pressable onPress={() => onChangeDate(iso(new Date()))}><Text style={styles.cardTitle}>{dateLabel(dateISO)}</Text></Pressable>
+        <TouchableOpacity onPress={() => onChangeDate(shiftDate(dateISO, 1))} style={styles.btnGhost}><Ionicons name="chevron-forward" size={16} color="white" /></TouchableOpacity>
+      </View>
+
+      {!shift ? (
+        <View style={styles.emptyWrap}>
+          <Text style={styles.emptyTitle}>No run for this day</Text>
+          <Text style={styles.emptySub}>{dayJobs.length ? `${dayJobs.length} job${dayJobs.length === 1 ? '' : 's'} logged. Start a run to add the travel between them.` : 'Log a job for this day, or start a run and add legs.'}</Text>
+          <TouchableOpacity onPress={async () => setShifts(await saveShift(userId, newShift(dateISO, dayJobs)))} style={[styles.btnPrimary, { marginTop: 12 }]}>
+            <Text style={styles.btnPrimaryText}>Start Day Run</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          {totals ? (
+            <View style={styles.statGrid}>
+              <Tile label="Paid / unpaid distance" value={`${distance(totals.paidKm)} / ${distance(totals.unpaidKm)}`} />
+              <Tile label="Paid / unpaid time" value={`${hoursLabel(totals.paidMinutes)} / ${hoursLabel(totals.unpaidMinutes)}`} />
+              <Tile label="Fares" value={currency(totals.legCosts)} />
+              <Tile label="Effective hourly rate" value={totals.perHour ? currency(totals.perHour) : '—'} />
+            </View>
+          ) : null}
+          {totals ? <Text style={styles.cardSub}>Income {currency(totals.income)} · after fares and own costs {currency(totals.net)}</Text> : null}
+
+          {stops.map((s, i) => (
+            <View key={stopKey(s)} style={[styles.card, { marginBottom: 0 }, s.kind === 'leg' && { borderStyle: 'dashed' }]}>
+              {s.kind === 'job' ? (
+                <JobStop job={jobOf(s.deliveryId)!} onPress={() => onOpenJob(jobOf(s.deliveryId)!)} />
+              ) : (
+                <LegStop leg={s.leg} onPress={() => setLeg({ leg: { ...s.leg }, at: i })} />
+              )}
+              <View style={[styles.cardActions, { marginTop: 8 }]}>
+                <TouchableOpacity onPress={() => move(i, -1)} style={styles.btnGhost}><Ionicons name="arrow-up" size={14} color="white" /></TouchableOpacity>
+                <TouchableOpacity onPress={() => move(i, 1)} style={styles.btnGhost}><Ionicons name="arrow-down" size={14} color="white" /></TouchableOpacity>
+                <TouchableOpacity onPress={() => setLeg({ leg: emptyLeg(), at: i + 1 })} style={styles.btnGhost}><Text style={styles.btnGhostText}>＋ Leg after</Text></TouchableOpacity>
+                <TouchableOpacity onPress={() => save(all.filter((x) => stopKey(x) !== stopKey(s)))} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Remove</Text></TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          <View style={[styles.cardActions, { flexWrap: 'wrap' }]}>
+            <TouchableOpacity onPress={() => setLeg({ leg: emptyLeg(), at: stops.length })} style={styles.btnPrimary}>
+              <Text style={styles.btnPrimaryText}>＋ Positioning Leg</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={confirmRemoveRun} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Remove Run</Text></TouchableOpacity>
+          </View>
+
+          {missing.length ? (
+            <>
+              <Text style={styles.formLabel}>Jobs this day not in the run</Text>
+              {missing.map((d) => (
+                <Pressable key={d.id} onPress={() => save([...all, { kind: 'job', deliveryId: d.id }])} style={styles.card}>
+                  <Text style={styles.cardTitle}>＋ {d.reg} · {d.pickup} → {d.dropoff}</Text>
+                </Pressable>
+              ))}
+            </>
+          ) : null}
+        </>
+      )}
+
+      <LegSheet leg={leg?.leg ?? null} onClose={() => setLeg(null)} onSave={saveLeg} />
+    </ScrollView>
+  );
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.statTile}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={styles.statValue}>{value}</Text>
+    </View>
+  );
+}
+
+function JobStop({ job, onPress }: { job: Delivery; onPress: () => void }) {
+  return (
+    <Pressable onPress={onPress}>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+        <Text style={styles.cardTitle}>{job.carMake} {job.carModel} · {job.reg}</Text>
+        <Text style={{ color: 'white' }}>{currency(Number(job.earnings) || 0)}</Text>
+      </View>
+      <Text style={styles.cardSub}>{job.startTime ? `${job.startTime} • ` : ''}{job.pickup} → {job.dropoff} • {distance(job.distanceKm)}</Text>
+    </Pressable>
+  );
+}
+
+function LegStop({ leg, onPress }: { leg: Leg; onPress: () => void }) {
+  const mode = LEG_MODES.find((m) => m.key === leg.mode) ?? LEG_MODES[LEG_MODES.length - 1];
+  return (
+    <Pressable onPress={onPress} style={[styles.rateLine, { alignItems: 'center' }]}>
+      <Ionicons name={mode.icon} size={18} color="#94a3b8" />
+      <View style={{ flex: 1 }}>
+        <Text style={{ color: '#cbd5e1' }}>{mode.label}{leg.from || leg.to ? ` · ${leg.from || '?'} → ${leg.to || '?'}` : ''}</Text>
+        <Text style={styles.chipText}>
+          {hoursLabel(Number(leg.minutes) || 0)}{leg.distanceKm ? ` · ${distance(leg.distanceKm)}` : ''} · unpaid
+        </Text>
+      </View>
+      <Text style={{ color: leg.cost ? '#fecaca' : '#94a3b8' }}>{currency(-(Number(leg.cost) || 0))}</Text>
+    </Pressable>
+  );
+}
+
+function LegSheet({ leg, onClose, onSave }: { leg: Leg | null; onClose: () => void; onSave: (l: Leg) => void }) {
+  const [draft, setDraft] = useState<Leg | null>(leg);
+  useEffect(() => { setDraft(leg); }, [leg]);
+  if (!draft) return null;
+  const set = (k: keyof Leg, v: any) => setDraft({ ...draft, [k]: v });
+
+  return (
+    <Modal visible={!!leg} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>Positioning Leg</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <ScrollView contentContainerStyle={styles.form} keyboardShouldPersistTaps="handled">
+          <FormRow label="How">
+            <View style={styles.chips}>
+              {LEG_MODES.map((m) => (
+                <Pressable key={m.key} onPress={() => set('mode', m.key)} style={[styles.chip, draft.mode === m.key && styles.chipActive]}>
+                  <Text style={[styles.chipText, draft.mode === m.key && styles.chipTextActive]}>{m.label.toUpperCase()}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </FormRow>
+          <FormRow label="From">
+            <TextInput value={draft.from} onChangeText={(v) => set('from', v)} style={styles.input} placeholder="Home" />
+          </FormRow>
+          <FormRow label="To">
+            <TextInput value={draft.to} onChangeText={(v) => set('to', v)} style={styles.input} placeholder="Wembley" />
+          </FormRow>
+          <FormRow label={`Fare (${currencySymbol()})`}>
+            <TextInput keyboardType="decimal-pad" value={String(draft.cost ?? '')} onChangeText={(v) => set('cost', Number(v) || 0)} style={styles.input} placeholder="12.40" />
+          </FormRow>
+          <FormRow label="Time taken (minutes)">
+            <TextInput keyboardType="number-pad" value={String(draft.minutes ?? '')} onChangeText={(v) => set('minutes', Number(v) || 0)} style={styles.input} placeholder="45" />
+          </FormRow>
+          <FormRow label={`Distance (${distanceUnit()}, optional)`}>
+            <UnitInput kind="distance" value={draft.distanceKm} onChange={(v) => set('distanceKm', v ?? 0)} placeholder="20" />
+          </FormRow>
+          <TouchableOpacity onPress={() => onSave(draft)} style={[styles.btnPrimary, { marginTop: 16, alignItems: 'center' }]}>
+            <Text style={styles.btnPrimaryText}>Save Leg</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
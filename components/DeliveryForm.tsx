@@ -0,0 +1,372 @@
+import ClientsModal from '@/components/Clients';
+import ExpenseLedger from '@/components/Expenses';
+import FormRow from '@/components/FormRow';
+import PlacesModal, { PlaceInput } from '@/components/Places';
+import { styles } from '@/components/styles';
+import UnitInput from '@/components/UnitInput';
+import { Client, loadClients } from '@/lib/clients';
+import { Delivery, Draft, loadCache } from '@/lib/deliveries';
+import { estimateDistance } from '@/lib/distance';
+import { ownCostTotal, reimbursedTotal } from '@/lib/expenses';
+import { currency, currencySymbol, distanceUnit, iso } from '@/lib/format';
+import { LinkParams, prefillFromLink } from '@/lib/links';
+import { replayOutbox } from '@/lib/outbox';
+import { knownRoute, loadPlaces, loadRoutes, Place, RouteDraft, RouteTemplate, upsertRoute } from '@/lib/places';
+import { describeLines, priceJob } from '@/lib/rates';
+import { getSettings, Settings } from '@/lib/settings';
+import { supabase } from '@/lib/supabase';
+import { saveJobs } from '@/lib/sync';
+import { emptyTimes, JobTimes } from '@/lib/times';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, KeyboardAvoidingView, Modal, Platform, Pressable, SafeAreaView, ScrollView, StatusBar, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Job form
+// -----------------------
+// A sheet over the list, and the /deliveries/new screen a link opens. Both
+// save through lib/sync.
+
+// A blank job with the user's defaults
+export function emptyDraft(settings: Settings = getSettings()): Draft {
+  return {
+    dateISO: iso(new Date()),
+    carMake: '',
+    carModel: '',
+    reg: '',
+    pickup: '',
+    dropoff: '',
+    distanceKm: 0,
+    ratePerKm: settings.defaultRatePerKm,
+    fixedFee: settings.defaultFixedFee,
+    expenses: [],
+    earnings: 0,
+    status: settings.defaultStatus,
+    notes: '',
+  };
+}
+
+// What stops a draft saving, as an alert's title and message
+export function missingField(draft: Draft): [string, string] | null {
+  if (!draft.dateISO) return ['Missing date', 'Please enter a date (YYYY-MM-DD).'];
+  if (!draft.reg) return ['Missing reg', 'Please enter the car registration.'];
+  return null;
+}
+
+type DeliveryFormProps = {
+  screen?: boolean; // a route of its own rather than a sheet
+  onClose: () => void;
+  draft: Draft;
+  setDraft: React.Dispatch<React.SetStateAction<Draft>>;
+  clients: Client[];
+  userId: string | null;
+  places: Place[];
+  routes: RouteTemplate[];
+  history: Delivery[];
+  onManageClients: () => void;
+  onManagePlaces: () => void;
+  onSaveRoute: (r: RouteDraft) => Promise<void>;
+  onSubmit: () => void | Promise<void>;
+};
+
+// The sheet over the list
+export default function DeliveryForm({ visible, ...rest }: DeliveryFormProps & { visible: boolean }) {
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={rest.onClose}>
+      <DeliveryFormView {...rest} />
+    </Modal>
+  );
+}
+
+function DeliveryFormView({ screen, onClose, draft, setDraft, clients, userId, places, routes, history, onManageClients, onManagePlaces, onSaveRoute, onSubmit }: DeliveryFormProps) {
+  const set = (k: keyof Draft, v: any) => setDraft({ ...draft, [k]: v });
+  // Picking a client pre-fills its default rates; they stay editable per job
+  const pickClient = (c: Client | null) => setDraft(c
+    ? { ...draft, clientId: c.id, ratePerKm: c.ratePerKm, fixedFee: c.fixedFee }
+    : { ...draft, clientId: null });
+  const [estimating, setEstimating] = useState(false);
+  // Choosing a place that completes a known route pre-fills its distance and
+  // rates; a new route with no distance yet gets an estimate instead
+  const pickPlace = (k: 'pickup' | 'dropoff', v: string) => {
+    const next = { ...draft, [k]: v };
+    const known = knownRoute(next.pickup, next.dropoff, routes, history);
+    setDraft({ ...next, ...known });
+    if (!known && !(Number(next.distanceKm) > 0)) estimate(next.pickup, next.dropoff, false);
+  };
+  const pickRoute = (r: RouteTemplate) => setDraft({ ...draft, pickup: r.pickup, dropoff: r.dropoff, distanceKm: r.distanceKm, distanceEstimated: false, ratePerKm: r.ratePerKm, fixedFee: r.fixedFee });
+
+  async function estimate(pickup: string, dropoff: string, alertOnMiss = true) {
+    try {
+      setEstimating(true);
+      const e = await estimateDistance(pickup, dropoff);
+      if (e) setDraft((d) => ({ ...d, distanceKm: e.km, distanceEstimated: true }));
+      else if (alertOnMiss) Alert.alert('No estimate', 'Add a postcode to both the pickup and the drop-off, or enter the distance yourself.');
+    } finally {
+      setEstimating(false);
+    }
+  }
+  const isTemplate = routes.some((r) => r.pickup.trim().toLowerCase() === draft.pickup.trim().toLowerCase() && r.dropoff.trim().toLowerCase() === draft.dropoff.trim().toLowerCase());
+  const client = clients.find((c) => c.id === draft.clientId);
+  const quote = priceJob(draft, client?.rateCard ?? null, client ?? null);
+  const times = draft.times ?? emptyTimes();
+  const setScheduled = (k: keyof JobTimes['scheduled'], v: string) => setDraft({ ...draft, times: { ...times, scheduled: { ...times.scheduled, [k]: v } } });
+
+  return (
+    <SafeAreaView style={screen ? styles.safe : styles.modalSafe}>
+      {screen ? <StatusBar backgroundColor="#0f172a" barStyle="light-content" /> : null}
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+        {screen ? (
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={onClose} style={styles.avatar}>
+              <Ionicons name="chevron-back" size={20} color="white" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>New Delivery</Text>
+            <View style={{ width: 36 }} />
+          </View>
+        ) : (
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{draft.id ? 'Edit Delivery' : 'New Delivery'}</Text>
+            <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+          </View>
+        )}
+
+        <FlatList
+          data={[{ key: 'form' }]}
+          keyExtractor={(i) => i.key}
+          keyboardShouldPersistTaps="handled"
+          renderItem={() => (
+            <View style={styles.form}>
+              <FormRow label="Date (YYYY-MM-DD)">
+                <TextInput
+                  placeholder="2025-08-10"
+                  value={draft.dateISO}
+                  onChangeText={(v) => set('dateISO', v)}
+                  style={styles.input}
+                />
+              </FormRow>
+              <FormRow label="Scheduled start (HH:MM)">
+                <TextInput
+                  placeholder="07:30"
+                  value={draft.startTime ?? ''}
+                  onChangeText={(v) => set('startTime', v)}
+                  style={styles.input}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </FormRow>
+              <FormRow label="Scheduled collection · drop-off · finish">
+                <View style={styles.rateLine}>
+                  {(['collection', 'delivery', 'end'] as const).map((k, i) => (
+                    <TextInput
+                      key={k}
+                      placeholder={['09:00', '11:30', '12:00'][i]}
+                      value={times.scheduled[k] ?? ''}
+                      onChangeText={(v) => setScheduled(k, v)}
+                      style={[styles.input, { flex: 1 }]}
+                      keyboardType="numbers-and-punctuation"
+                    />
+                  ))}
+                </View>
+              </FormRow>
+
+              <FormRow label="Client">
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { flexWrap: 'nowrap' }]}>
+                  <Pressable onPress={() => pickClient(null)} style={[styles.chip, !draft.clientId && styles.chipActive]}>
+                    <Text style={[styles.chipText, !draft.clientId && styles.chipTextActive]}>NONE</Text>
+                  </Pressable>
+                  {clients.map((c) => (
+                    <Pressable key={c.id} onPress={() => pickClient(c)} style={[styles.chip, draft.clientId === c.id && styles.chipActive]}>
+                      <Text style={[styles.chipText, draft.clientId === c.id && styles.chipTextActive]}>{c.name}</Text>
+                    </Pressable>
+                  ))}
+                  <Pressable onPress={onManageClients} style={styles.chip}>
+                    <Text style={styles.chipText}>＋ MANAGE</Text>
+                  </Pressable>
+                </ScrollView>
+              </FormRow>
+
+              <FormRow label="Car Make">
+                <TextInput value={draft.carMake} onChangeText={(v) => set('carMake', v)} style={styles.input} placeholder="Toyota" />
+              </FormRow>
+              <FormRow label="Car Model">
+                <TextInput value={draft.carModel} onChangeText={(v) => set('carModel', v)} style={styles.input} placeholder="Corolla" />
+              </FormRow>
+              <FormRow label="Reg Plate">
+                <TextInput value={draft.reg} onChangeText={(v) => set('reg', v)} style={styles.input} placeholder="AB12 CDE" autoCapitalize="characters" />
+              </FormRow>
+
+              <FormRow label="Saved route">
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled" contentContainerStyle={[styles.chips, { flexWrap: 'nowrap' }]}>
+                  {routes.map((r) => (
+                    <Pressable key={r.id} onPress={() => pickRoute(r)} style={styles.chip}>
+                      <Text style={styles.chipText}>{r.name}</Text>
+                    </Pressable>
+                  ))}
+                  <Pressable onPress={onManagePlaces} style={styles.chip}>
+                    <Text style={styles.chipText}>＋ MANAGE</Text>
+                  </Pressable>
+                </ScrollView>
+              </FormRow>
+              <FormRow label="Pickup">
+                <PlaceInput value={draft.pickup} onChange={(v) => set('pickup', v)} onPick={(v) => pickPlace('pickup', v)} places={places} history={history} placeholder="Wembley" />
+              </FormRow>
+              <FormRow label="Drop-off">
+                <PlaceInput value={draft.dropoff} onChange={(v) => set('dropoff', v)} onPick={(v) => pickPlace('dropoff', v)} places={places} history={history} placeholder="Croydon" />
+              </FormRow>
+              {userId && draft.pickup.trim() && draft.dropoff.trim() && !isTemplate ? (
+                <TouchableOpacity
+                  onPress={() => onSaveRoute({ name: '', pickup: draft.pickup, dropoff: draft.dropoff, distanceKm: draft.distanceKm, ratePerKm: draft.ratePerKm, fixedFee: draft.fixedFee })}
+                  style={[styles.btnGhost, { alignSelf: 'flex-start' }]}
+                >
+                  <Text style={styles.btnGhostText}>Save as route</Text>
+                </TouchableOpacity>
+              ) : null}
+
+              <FormRow label={`Distance (${distanceUnit()})`}>
+                <View style={[styles.rateLine, { alignItems: 'center' }]}>
+                  <UnitInput
+                    kind="distance"
+                    value={draft.distanceKm}
+                    onChange={(v) => setDraft({ ...draft, distanceKm: v ?? 0, distanceEstimated: false })}
+                    placeholder="32.5"
+                    style={[styles.input, { flex: 1 }]}
+                  />
+                  <TouchableOpacity disabled={estimating || !draft.pickup.trim() || !draft.dropoff.trim()} onPress={() => estimate(draft.pickup, draft.dropoff)} style={styles.btnGhost}>
+                    <Text style={styles.btnGhostText}>{estimating ? 'Estimating…' : 'Estimate'}</Text>
+                  </TouchableOpacity>
+                </View>
+                {draft.distanceEstimated ? (
+                  <View style={[styles.rateLine, { alignItems: 'center' }]}>
+                    <Text style={[styles.cardSub, { flex: 1 }]}>Estimated — check it against the route before you bill.</Text>
+                    <TouchableOpacity onPress={() => set('distanceEstimated', false)} style={styles.btnGhost}>
+                      <Text style={styles.btnGhostText}>Confirm</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : null}
+              </FormRow>
+              <FormRow label={`Rate (${currencySymbol()}/${distanceUnit()})`}>
+                <UnitInput kind="rate" value={draft.ratePerKm} onChange={(v) => set('ratePerKm', v ?? 0)} placeholder="0.75" />
+              </FormRow>
+              <FormRow label={`Fixed Fee (${currencySymbol()})`}>
+                <TextInput
+                  keyboardType="decimal-pad"
+                  value={String(draft.fixedFee ?? '')}
+                  onChangeText={(v) => set('fixedFee', Number(v) || 0)}
+                  style={styles.input}
+                  placeholder="10"
+                />
+              </FormRow>
+
+              <FormRow label={`Expenses — ${currency(reimbursedTotal(draft))} reimbursed${ownCostTotal(draft) ? `, ${currency(ownCostTotal(draft))} own` : ''}`}>
+                <ExpenseLedger items={draft.expenses ?? []} onChange={(items) => set('expenses', items)} userId={userId} />
+              </FormRow>
+
+              <FormRow label={`Earnings (${currencySymbol()}) — leave blank to use the rate card`}>
+                <TextInput
+                  keyboardType="decimal-pad"
+                  value={draft.earningsManual ? String(draft.earnings ?? '') : ''}
+                  onChangeText={(v) => setDraft({ ...draft, earnings: Number(v) || 0, earningsManual: v.trim() !== '' })}
+                  style={styles.input}
+                  placeholder={`(auto ${currency(quote.total)})`}
+                />
+                {quote.lines.length ? <Text style={[styles.cardSub, { marginTop: 6 }]}>{describeLines(quote.lines)}</Text> : null}
+              </FormRow>
+
+              <FormRow label="Notes">
+                <TextInput
+                  value={draft.notes}
+                  onChangeText={(v) => set('notes', v)}
+                  style={[styles.input, { height: 80, textAlignVertical: 'top' }]}
+                  multiline
+                  placeholder="Any extra details"
+                />
+              </FormRow>
+
+              {/* Inside DeliveryForm (the submit button) */}
+              <TouchableOpacity
+                onPress={async () => {
+                  try {
+                    await onSubmit();
+                  } catch (e: any) {
+                    Alert.alert('Save failed', e?.message ?? 'Something went wrong while saving.');
+                    console.error(e);
+                  }
+                }}
+                style={[styles.btnPrimary, { marginTop: 24 }]}
+              >
+                <Text style={styles.btnPrimaryText}>{draft.id ? 'Save Changes' : 'Add Delivery'}</Text>
+              </TouchableOpacity>
+
+            </View>
+          )}
+        />
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+// The form as a screen of its own, for links. The link's query pre-fills it;
+// `onSaved` gets the new job's id.
+export function NewDeliveryScreen({ link, onClose, onSaved }: { link: LinkParams; onClose: () => void; onSaved: (id: string) => void }) {
+  const [draft, setDraft] = useState<Draft>(() => emptyDraft());
+  const [userId, setUserId] = useState<string | null>(null);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [routes, setRoutes] = useState<RouteTemplate[]>([]);
+  const [history, setHistory] = useState<Delivery[]>([]);
+  const [sheet, setSheet] = useState<'clients' | 'places' | null>(null);
+
+  // Keyed on the query's text so a re-render with the same link keeps the draft
+  const linkKey = JSON.stringify(link);
+  useEffect(() => {
+    (async () => {
+      const list = await loadClients();
+      setClients(list);
+      // Once the clients are known, so the link's `client` can match one
+      setDraft((d) => ({ ...d, ...prefillFromLink(JSON.parse(linkKey), list) }));
+      setPlaces(await loadPlaces());
+      setRoutes(await loadRoutes());
+      setHistory(await loadCache());
+      const { data } = await supabase.auth.getSession();
+      setUserId(data.session?.user.id ?? null);
+    })();
+  }, [linkKey]);
+
+  async function submit() {
+    const missing = missingField(draft);
+    if (missing) return Alert.alert(...missing);
+    const { ids: [id], ops } = await saveJobs([draft], { userId, clients });
+    if (userId && ops) replayOutbox(userId).catch(() => {});
+    onSaved(id);
+  }
+
+  async function saveRoute(r: RouteDraft) {
+    if (!userId) return;
+    try {
+      setRoutes(await upsertRoute(userId, r));
+    } catch (e: any) {
+      Alert.alert('Save route failed', e?.message ?? 'Please try again when online');
+    }
+  }
+
+  return (
+    <>
+      <DeliveryFormView
+        screen
+        onClose={onClose}
+        draft={draft}
+        setDraft={setDraft}
+        clients={clients}
+        userId={userId}
+        places={places}
+        routes={routes}
+        history={history}
+        onManageClients={() => setSheet('clients')}
+        onManagePlaces={() => setSheet('places')}
+        onSaveRoute={saveRoute}
+        onSubmit={submit}
+      />
+      <ClientsModal visible={sheet === 'clients'} onClose={() => setSheet(null)} userId={userId} clients={clients} onChange={setClients} />
+      <PlacesModal visible={sheet === 'places'} onClose={() => setSheet(null)} userId={userId} places={places} routes={routes} onChangePlaces={setPlaces} onChangeRoutes={setRoutes} />
+    </>
+  );
+}
@@ -0,0 +1,149 @@
+import { styles } from '@/components/styles';
+import { useShortcuts } from '@/hooks/useShortcuts';
+import { Delivery } from '@/lib/deliveries';
+import { ColumnPref, columnLabel, EXPORT_COLUMNS, ExportColumn, ExportContext } from '@/lib/export';
+import { currency, number } from '@/lib/format';
+import { statusColor } from '@/lib/lifecycle';
+import { EDITABLE, loadTableColumns, saveTableColumns, Sort, sortRows, tableColumns } from '@/lib/table';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FlatList, Pressable, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+type Editing = { id: string; key: string; text: string };
+
+const WIDE = ['client', 'pickup', 'dropoff', 'notes'];
+const width = (c: ExportColumn) => (WIDE.includes(c.key) ? 180 : c.unit ? 110 : 120);
+
+function show(c: ExportColumn, d: Delivery, ctx: ExportContext) {
+  const v = c.value(d, ctx);
+  if (typeof v !== 'number') return String(v ?? '');
+  return c.unit === 'money' ? currency(v) : number(v, 2);
+}
+
+// -----------------------
+// Delivery table
+// -----------------------
+// The desktop list: click a row to select it, click a cell of the selected
+// row to edit it in place. Edits go back through `onEdit`, which saves the
+// way the form does; invoiced jobs stay read-only.
+export default function DeliveryTable({ rows, context, selectedId, pending, hasMore, loadingMore, shortcuts, onSelect, onEdit, onLoadMore }: {
+  rows: Delivery[];
+  context: ExportContext;
+  selectedId: string | null;
+  pending: Set<string>;
+  hasMore: boolean;
+  loadingMore: boolean;
+  shortcuts: boolean; // off while a sheet is open over the table
+  onSelect: (d: Delivery) => void;
+  onEdit: (d: Delivery, patch: Partial<Delivery>) => void | Promise<void>;
+  onLoadMore: () => void;
+}) {
+  const [prefs, setPrefs] = useState<ColumnPref[]>([]);
+  const [sort, setSort] = useState<Sort>({ key: 'dateISO', dir: 'desc' });
+  const [picking, setPicking] = useState(false);
+  const [editing, setEditingState] = useState<Editing | null>(null);
+  // Blur fires after Escape has closed the editor, so commit reads this, not state
+  const editRef = useRef<Editing | null>(null);
+
+  useEffect(() => { loadTableColumns().then(setPrefs); }, []);
+
+  const columns = useMemo(() => tableColumns(prefs), [prefs]);
+  const sorted = useMemo(() => sortRows(rows, sort, context), [rows, sort, context]);
+
+  function setEditing(e: Editing | null) { editRef.current = e; setEditingState(e); }
+
+  function commit() {
+    const e = editRef.current;
+    setEditing(null);
+    const d = e && rows.find((x) => x.id === e.id);
+    if (!e || !d || e.text === EDITABLE[e.key].text(d)) return;
+    const patch = EDITABLE[e.key].patch(e.text);
+    if (patch) onEdit(d, patch);
+  }
+
+  function pressCell(d: Delivery, c: ExportColumn) {
+    if (d.id !== selectedId) return onSelect(d);
+    if (EDITABLE[c.key] && !d.invoiceId) setEditing({ id: d.id, key: c.key, text: EDITABLE[c.key].text(d) });
+  }
+
+  function toggleColumn(key: string) {
+    const next = prefs.map((p) => (p.key === key ? { ...p, enabled: !p.enabled } : p));
+    setPrefs(next);
+    saveTableColumns(next);
+  }
+
+  function step(by: number) {
+    if (!sorted.length) return;
+    const at = sorted.findIndex((d) => d.id === selectedId);
+    onSelect(sorted[Math.min(sorted.length - 1, Math.max(0, at < 0 ? 0 : at + by))]);
+  }
+
+  useShortcuts({ ArrowDown: () => step(1), ArrowUp: () => step(-1), j: () => step(1), k: () => step(-1) }, shortcuts && !editing);
+
+  return (
+    <View style={{ flex: 1 }}>
+      <View style={[styles.rateLine, { alignItems: 'center', marginBottom: 8 }]}>
+        <Text style={[styles.formLabel, { flex: 1 }]}>{sorted.length} job{sorted.length === 1 ? '' : 's'} · N new · E edit · Del delete · ↑↓ select · Esc close</Text>
+        <TouchableOpacity onPress={() => setPicking(!picking)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Columns</Text></TouchableOpacity>
+      </View>
+      {picking ? (
+        <View style={[styles.chips, { marginBottom: 8 }]}>
+          {prefs.map((p) => (
+            <Pressable key={p.key} onPress={() => toggleColumn(p.key)} style={[styles.chip, p.enabled && styles.chipActive]}>
+              <Text style={[styles.chipText, p.enabled && styles.chipTextActive]}>{columnLabel(EXPORT_COLUMNS.find((c) => c.key === p.key)!)}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
+      <View style={styles.table}>
+        <ScrollView horizontal contentContainerStyle={{ flexGrow: 1 }}>
+          <View style={{ flex: 1 }}>
+            <View style={[styles.tableRow, styles.tableHead]}>
+              <View style={[styles.tableCell, { width: 28 }]} />
+              {columns.map((c) => (
+                <Pressable key={c.key} onPress={() => setSort(sort.key === c.key ? { key: c.key, dir: sort.dir === 'asc' ? 'desc' : 'asc' } : { key: c.key, dir: 'asc' })} style={[styles.tableCell, { width: width(c) }]}>
+                  <Text style={styles.tableHeadText} numberOfLines={1}>{columnLabel(c)}{sort.key === c.key ? (sort.dir === 'asc' ? ' ▲' : ' ▼') : ''}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <FlatList
+              data={sorted}
+              keyExtractor={(d) => d.id}
+              onEndReached={onLoadMore}
+              onEndReachedThreshold={0.5}
+              ListEmptyComponent={<Text style={[styles.emptySub, { padding: 12 }]}>No deliveries match these filters.</Text>}
+              ListFooterComponent={hasMore ? <Text style={[styles.emptySub, { padding: 12 }]}>{loadingMore ? 'Loading older jobs…' : 'Scroll for older jobs'}</Text> : null}
+              renderItem={({ item: d }) => (
+                <View style={[styles.tableRow, d.id === selectedId && styles.tableRowSelected]}>
+                  <View style={[styles.tableCell, { width: 28, alignItems: 'center' }]}>
+                    {d.invoiceId ? <Ionicons name="lock-closed-outline" size={12} color="#94a3b8" />
+                      : pending.has(d.id) ? <Ionicons name="cloud-offline-outline" size={12} color="#fbbf24" />
+                      : <View style={[styles.legendDot, { backgroundColor: statusColor(d.status) }]} />}
+                  </View>
+                  {columns.map((c) => (
+                    <Pressable key={c.key} onPress={() => pressCell(d, c)} style={[styles.tableCell, { width: width(c) }]}>
+                      {editing?.id === d.id && editing.key === c.key ? (
+                        <TextInput
+                          autoFocus
+                          value={editing.text}
+                          onChangeText={(text) => setEditing({ ...editing, text })}
+                          onSubmitEditing={commit}
+                          onBlur={commit}
+                          onKeyPress={(e) => { if (e.nativeEvent.key === 'Escape') setEditing(null); }}
+                          style={styles.tableInput}
+                        />
+                      ) : (
+                        <Text style={styles.tableText} numberOfLines={1}>{show(c, d, context)}</Text>
+                      )}
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+            />
+          </View>
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,110 @@
+import { styles } from '@/components/styles';
+import { captureReceipt, categoryLabel, EXPENSE_CATEGORIES, ExpenseItem, newExpense, receiptUrl } from '@/lib/expenses';
+import { currency, currencySymbol } from '@/lib/format';
+import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Expense ledger
+// -----------------------
+// Edits the itemised costs of one job. Receipts upload straight away, so
+// attaching one needs a signed-in user and a connection.
+export default function ExpenseLedger({ items, onChange, userId }: {
+  items: ExpenseItem[];
+  onChange: (items: ExpenseItem[]) => void;
+  userId: string | null;
+}) {
+  const [uploading, setUploading] = useState<string | null>(null);
+  const patch = (id: string, p: Partial<ExpenseItem>) => onChange(items.map((e) => (e.id === id ? { ...e, ...p } : e)));
+
+  async function attach(e: ExpenseItem, source: 'camera' | 'library') {
+    if (!userId) return Alert.alert('Sign in required', 'Sign in to attach receipt photos.');
+    try {
+      setUploading(e.id);
+      const path = await captureReceipt(userId, e.id, source);
+      if (path) patch(e.id, { receiptPath: path });
+    } catch (err: any) {
+      Alert.alert('Receipt upload failed', err?.message ?? 'Please try again when online');
+    } finally {
+      setUploading(null);
+    }
+  }
+
+  function pickSource(e: ExpenseItem) {
+    if (Platform.OS === 'web') return attach(e, 'library');
+    Alert.alert('Attach receipt', undefined, [
+      { text: 'Take Photo', onPress: () => attach(e, 'camera') },
+      { text: 'Choose from Library', onPress: () => attach(e, 'library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }
+
+  return (
+    <View style={{ gap: 10 }}>
+      {items.map((e) => (
+        <View key={e.id} style={styles.rateBox}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { flexWrap: 'nowrap' }]}>
+            {EXPENSE_CATEGORIES.map((c) => (
+              <Pressable key={c.key} onPress={() => patch(e.id, { category: c.key })} style={[styles.chip, e.category === c.key && styles.chipActive]}>
+                <Text style={[styles.chipText, e.category === c.key && styles.chipTextActive]}>{c.label.toUpperCase()}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+          <View style={styles.rateLine}>
+            <TextInput keyboardType="decimal-pad" value={String(e.amount ?? '')} onChangeText={(v) => patch(e.id, { amount: Number(v) || 0 })} style={[styles.input, { flex: 1 }]} placeholder={currencySymbol()} />
+            <TextInput value={e.note ?? ''} onChangeText={(v) => patch(e.id, { note: v })} style={[styles.input, { flex: 2 }]} placeholder="Note (e.g. Euston → Crewe)" />
+          </View>
+          <View style={[styles.rateLine, { alignItems: 'center' }]}>
+            <Switch value={e.reimbursable} onValueChange={(v) => patch(e.id, { reimbursable: v })} />
+            <Text style={[styles.formLabel, { flex: 1 }]}>{e.reimbursable ? 'Reimbursed by client' : 'Paid by me'}</Text>
+            {uploading === e.id ? <ActivityIndicator /> : (
+              <TouchableOpacity onPress={() => pickSource(e)} style={styles.btnGhost}>
+                <Text style={styles.btnGhostText}>{e.receiptPath ? 'Replace receipt' : 'Receipt'}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => onChange(items.filter((x) => x.id !== e.id))} style={styles.btnGhostDanger}>
+              <Text style={styles.btnGhostDangerText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+          {e.receiptPath ? <ReceiptLink path={e.receiptPath} /> : null}
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => onChange([...items, newExpense()])} style={styles.btnGhost}>
+        <Text style={styles.btnGhostText}>＋ Add expense</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Read-only list for job details
+export function ExpenseList({ items }: { items: ExpenseItem[] }) {
+  if (!items.length) return null;
+  return (
+    <View style={styles.rateBox}>
+      {items.map((e) => (
+        <View key={e.id} style={{ gap: 2 }}>
+          <View style={styles.rateLine}>
+            <Text style={{ color: '#cbd5e1', flex: 1 }}>{categoryLabel(e.category)}{e.note ? ` · ${e.note}` : ''}{e.reimbursable ? '' : ' (own cost)'}</Text>
+            <Text style={{ color: '#cbd5e1' }}>{currency(Number(e.amount) || 0)}</Text>
+          </View>
+          {e.receiptPath ? <ReceiptLink path={e.receiptPath} /> : null}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function ReceiptLink({ path }: { path: string }) {
+  async function open() {
+    try { await Linking.openURL(await receiptUrl(path)); }
+    catch (e: any) { Alert.alert('Could not open receipt', e?.message ?? 'Please try again when online'); }
+  }
+  return (
+    <Pressable onPress={open} style={[styles.rateLine, { alignItems: 'center' }]}>
+      <Ionicons name="document-attach-outline" size={14} color="#22c55e" />
+      <Text style={{ color: '#22c55e', fontSize: 12 }}>View receipt</Text>
+    </Pressable>
+  );
+}
@@ -0,0 +1,12 @@
+import { styles } from '@/components/styles';
+import React from 'react';
+import { Text, View } from 'react-native';
+
+export default function FormRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <View style={styles.formRow}>
+      <Text style={styles.formLabel}>{label}</Text>
+      {children}
+    </View>
+  );
+}
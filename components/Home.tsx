@@ -1,161 +1,161 @@
+import ClientsModal from '@/components/Clients';
+import DayRun from '@/components/DayRun';
+import DeliveryForm, { emptyDraft, missingField } from '@/components/DeliveryForm';
+import DeliveryTable from '@/components/DeliveryTable';
+import FormRow from '@/components/FormRow';
+import InvoicesModal from '@/components/Invoices';
+import JobDetailsModal, { guardLocked, JobDetails } from '@/components/JobDetails';
+import PlacesModal from '@/components/Places';
+import ReceivablesModal from '@/components/Receivables';
+import { styles } from '@/components/styles';
+import TaxReportModal from '@/components/TaxReport';
+import TrashModal from '@/components/Trash';
+import { useSettings } from '@/hooks/useSettings';
+import { useShortcuts } from '@/hooks/useShortcuts';
+import { Client, loadClients, syncClients } from '@/lib/clients';
+import { Delivery, DeliveryRow, Draft, fetchByIds, fetchChangedSince, fetchHistoryPage, fetchRange, latestUpdate, loadCache, loadSyncCursor, oldestOf, PAGE_SIZE, rowToDelivery, saveSyncCursor, sortByDateDesc, SyncCursor } from '@/lib/deliveries';
+import { categoryLabel, ExpenseItem, ownCostTotal, reimbursedTotal } from '@/lib/expenses';
+import { ColumnPref, columnLabel, EXPORT_COLUMNS, ExportContext, ExportFormat, loadColumnPrefs, saveColumnPrefs, shareExport } from '@/lib/export';
+import { DATE_FILTERS, DateFilter, filterByDate, filterRange } from '@/lib/filters';
+import { currency, dateLabel, distance, getWeekRange, iso, isWithin, rate, toDisplayDistance, toDisplayRate } from '@/lib/format';
+import { buildRows, ColumnMapping, columnUnit, fieldLabel, guessMapping, IMPORT_FIELDS, ImportField, ImportRow, readCSV } from '@/lib/import';
+import { canMove, NEEDS_REASON, Status, statusColor, statusLabel, STATUSES, transition, uninvoice, unpay } from '@/lib/lifecycle';
+import { assignField, MERGE_FIELDS, MergeField, mergeDelivery, mergeFieldLabel } from '@/lib/merge';
+import { Conflict, enqueueAll, listConflicts, loadOutbox, pendingIds, replayOutbox, resolveConflict } from '@/lib/outbox';
+import { loadPayments, owedTotal, Payment, settlement, syncPayments } from '@/lib/payments';
+import { loadPlaces, loadRoutes, Place, RouteTemplate, syncPlaces, upsertRoute } from '@/lib/places';
+import { Proof } from '@/lib/proof';
+import { describeLines, RateLine } from '@/lib/rates';
+import { loadSettings, STAT_TILES, StatTile, syncSettings } from '@/lib/settings';
 import { supabase } from '@/lib/supabase';
+import { goneFromServer, loadAll, loadRange, loadUnpaid, mergeRemoteRows, saveJobs, storeAll } from '@/lib/sync';
+import { hoursLabel, waitingMinutes } from '@/lib/times';
+import { computeTotals, sumE, sumX } from '@/lib/totals';
+import { fetchTrash, loadTrash, purgeDue } from '@/lib/trash';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Session } from '@supabase/supabase-js';
-import Constants from 'expo-constants';
-import * as Linking from 'expo-linking';
-import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Alert, AppState, AppStateStatus, FlatList, KeyboardAvoidingView, Modal, Platform, Pressable, SafeAreaView, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import type { RealtimePostgresChangesPayload, Session } from '@supabase/supabase-js';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, AppState, AppStateStatus, FlatList, Modal, Platform, Pressable, SafeAreaView, ScrollView, StatusBar, Text, TextInput, TouchableOpacity, useWindowDimensions, View } from 'react-native';
 import 'react-native-get-random-values';
 import { v4 as uuidv4 } from 'uuid';
 
-// -----------------------
-// Types
-// -----------------------
-export type Delivery = {
-  id: string;
-  dateISO: string; // e.g., '2025-08-10'
-  carMake: string;
-  carModel: string;
-  reg: string;
-  pickup: string;
-  dropoff: string;
-  distanceKm: number; // numeric km
-  ratePerKm: number; // £ per km
-  fixedFee: number; // base fee per job
-  transportExpense: number; // reimbursed expenses (count toward income)
-  earnings: number; // computed or manual override
-  status: 'pending' | 'completed' | 'aborted' | 'cancelled';
-  notes?: string;
-};
-
-export type Draft = Omit<Delivery, 'id'> & { id?: string };
-
-const STORAGE_KEY = 'car_delivery_tracker__deliveries_v1';
-
-// -----------------------
-// Local helpers
-// -----------------------
-function currency(n: number) {
-  if (isNaN(n)) return '£0.00';
-  return `£${n.toFixed(2)}`;
-}
-function iso(d: Date) { return d.toISOString().slice(0, 10); }
-function getWeekRange(date = new Date()) {
-  const d = new Date(date);
-  const day = (d.getDay() + 6) % 7; // Monday start
-  const monday = new Date(d);
-  monday.setDate(d.getDate() - day);
-  const sunday = new Date(monday);
-  sunday.setDate(monday.getDate() + 6);
-  return { startISO: iso(monday), endISO: iso(sunday) };
-}
-function isWithin(dateISO: string, startISO: string, endISO: string) { return dateISO >= startISO && dateISO <= endISO; }
-
-async function loadCache(): Promise<Delivery[]> {
-  const raw = await AsyncStorage.getItem(STORAGE_KEY);
-  if (!raw) return [];
-  try { const parsed: Delivery[] = JSON.parse(raw); return Array.isArray(parsed) ? parsed : []; } catch { return []; }
-}
-async function saveCache(list: Delivery[]) { await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(list)); }
-
-// -----------------------
-// Supabase mapping
-// -----------------------
-// Table columns expected (snake_case): see your SQL migration
-// id, user_id, date_iso, car_make, car_model, reg, pickup, dropoff,
-// distance_km, rate_per_km, fixed_fee, transport_expense, earnings, status, notes
-
-type DeliveryRow = {
-  id: string;
-  user_id: string;
-  date_iso: string;
-  car_make: string | null;
-  car_model: string | null;
-  reg: string | null;
-  pickup: string | null;
-  dropoff: string | null;
-  distance_km: number | string | null;
-  rate_per_km: number | string | null;
-  fixed_fee: number | string | null;
-  transport_expense: number | string | null;
-  earnings: number | string | null;
-  status: 'pending' | 'completed' | 'aborted' | 'cancelled' | null;
-  notes: string | null;
-};
-
-function rowToDelivery(r: DeliveryRow): Delivery {
-  return {
-    id: r.id,
-    dateISO: r.date_iso,
-    carMake: r.car_make || '',
-    carModel: r.car_model || '',
-    reg: r.reg || '',
-    pickup: r.pickup || '',
-    dropoff: r.dropoff || '',
-    distanceKm: Number(r.distance_km ?? 0),
-    ratePerKm: Number(r.rate_per_km ?? 0),
-    fixedFee: Number(r.fixed_fee ?? 0),
-    transportExpense: Number(r.transport_expense ?? 0),
-    earnings: Number(r.earnings ?? 0),
-    status: (r.status ?? 'pending') as Delivery['status'],
-    notes: r.notes || '',
-  };
-}
-function draftToRow(input: Draft, userId: string, computed: number, id?: string): Partial<DeliveryRow> & { user_id: string } {
-  return {
-    ...(id ? { id } : {}),
-    user_id: userId,
-    date_iso: input.dateISO,
-    car_make: input.carMake,
-    car_model: input.carModel,
-    reg: input.reg,
-    pickup: input.pickup,
-    dropoff: input.dropoff,
-    distance_km: Number(input.distanceKm) || 0,
-    rate_per_km: Number(input.ratePerKm) || 0,
-    fixed_fee: Number(input.fixedFee) || 0,
-    transport_expense: Number(input.transportExpense) || 0,
-    earnings: computed,
-    status: input.status || 'pending',
-    notes: input.notes || '',
-  } as any;
-}
-
-async function fetchDeliveries(userId: string): Promise<Delivery[]> {
-  const { data, error } = await supabase
-    .from('deliveries')
-    .select('*')
-    .eq('user_id', userId)
-    .order('date_iso', { ascending: false });
-  if (error) throw error;
-  return (data as DeliveryRow[]).map(rowToDelivery);
-}
-
 // -----------------------
 // Screen
 // -----------------------
 export default function Home() {
+  const settings = useSettings();
   const [deliveries, setDeliveries] = useState<Delivery[]>([]);
   const [query, setQuery] = useState('');
-  const [dateFilter, setDateFilter] = useState<'all' | 'today' | 'week' | 'month' | 'custom'>('today');
+  const [dateFilter, setDateFilter] = useState<DateFilter>(settings.defaultDateFilter);
   const [customFrom, setCustomFrom] = useState('');
   const [customTo, setCustomTo] = useState('');
+  const [clientFilter, setClientFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<Status | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [picked, setPicked] = useState<Set<string>>(() => new Set());
+  const [bulkSheet, setBulkSheet] = useState<'status' | 'client' | null>(null);
+  const [exportOnly, setExportOnly] = useState<Delivery[] | null>(null);
+  const [view, setView] = useState<'list' | 'day'>('list');
+  const [dayISO, setDayISO] = useState(() => iso(new Date()));
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientsVisible, setClientsVisible] = useState(false);
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [routes, setRoutes] = useState<RouteTemplate[]>([]);
+  const [placesVisible, setPlacesVisible] = useState(false);
+  const [returnToForm, setReturnToForm] = useState(false);
+  const [returnToInvoices, setReturnToInvoices] = useState(false);
   const [formVisible, setFormVisible] = useState(false);
   const [draft, setDraft] = useState<Draft>(() => emptyDraft());
-  const [profileVisible, setProfileVisible] = useState(false);
+  const [exportVisible, setExportVisible] = useState(false);
+  const [importVisible, setImportVisible] = useState(false);
+  const [invoicesVisible, setInvoicesVisible] = useState(false);
+  const [taxVisible, setTaxVisible] = useState(false);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [receivablesVisible, setReceivablesVisible] = useState(false);
+  const [trash, setTrash] = useState<Delivery[]>([]);
+  const [trashVisible, setTrashVisible] = useState(false);
+  const [undo, setUndo] = useState<{ ids: string[]; label: string } | null>(null);
   const [selected, setSelected] = useState<Delivery | null>(null);
   const [jobDetailsVisible, setJobDetailsVisible] = useState(false);
   const [session, setSession] = useState<Session | null>(null);
+  const [pending, setPending] = useState<Set<string>>(() => new Set());
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [conflictsVisible, setConflictsVisible] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const appState = useRef<AppStateStatus>(AppState.currentState);
-
-  // Initial load (cache first)
-  useEffect(() => {
+  const online = useRef(true);
+  // Laptop-sized browser windows get the table and side panel instead of cards
+  const { width } = useWindowDimensions();
+  const wide = Platform.OS === 'web' && width >= 1024;
+
+  // Cache first, and again on every return to the list: the job form and
+  // details screens a link opens write the caches themselves
+  useFocusEffect(useCallback(() => {
     (async () => {
       const cached = await loadCache();
       if (cached.length) setDeliveries(sortByDateDesc(cached));
+      setTrash(await loadTrash());
+      setClients(await loadClients());
+      setPlaces(await loadPlaces());
+      setRoutes(await loadRoutes());
+      setPayments(await loadPayments());
+      const ops = await loadOutbox();
+      setPending(pendingIds(ops));
+      setConflicts(listConflicts(ops));
     })();
-  }, []);
+  }, []));
+
+  // Settings arrive from the cache or the server after the first render
+  useEffect(() => { setDateFilter(settings.defaultDateFilter); }, [settings.defaultDateFilter]);
+
+  // The list only holds the newest pages, so a date filter pulls in its whole
+  // range; the list, totals and export then cover every job in it
+  const userId = session?.user?.id ?? null;
+  const range = filterRange(dateFilter, customFrom, customTo);
+  const rangeStart = range?.startISO;
+  const rangeEnd = range?.endISO;
+  useEffect(() => {
+    if (!userId || !rangeStart || !rangeEnd) return;
+    let live = true;
+    loadRange(userId, rangeStart, rangeEnd)
+      .then(({ live: list, trashed, queued }) => {
+        if (!live) return;
+        setDeliveries(list);
+        setTrash(trashed);
+        setConflicts(listConflicts(queued));
+      })
+      .catch(() => {}); // offline: the cache is all there is
+    return () => { live = false; };
+  }, [userId, rangeStart, rangeEnd]);
+
+  // What's owed covers jobs of any age, so the receivables and the owed tile
+  // pull in every job that may still be owed on while either is in use
+  const needUnpaid = receivablesVisible || settings.statTiles.includes('owed');
+  useEffect(() => {
+    if (!userId || !needUnpaid) return;
+    let live = true;
+    loadUnpaid(userId)
+      .then(({ live: list, trashed, queued }) => {
+        if (!live) return;
+        setDeliveries(list);
+        setTrash(trashed);
+        setConflicts(listConflicts(queued));
+      })
+      .catch(() => {}); // offline: the cache is all there is
+    return () => { live = false; };
+  }, [userId, needUnpaid]);
+
+  // The undo offer lasts a few seconds; the jobs stay in the trash after that
+  useEffect(() => {
+    if (!undo) return;
+    const t = setTimeout(() => setUndo(null), 6000);
+    return () => clearTimeout(t);
+  }, [undo]);
 
   // Supabase auth + token refresh when app active
   useEffect(() => {
@@ -165,11 +165,9 @@ export default function Home() {
     const subApp = AppState.addEventListener('change', (state) => {
       if (state === 'active') {
         supabase.auth.startAutoRefresh();
-        syncFromRemote();
       } else {
         supabase.auth.stopAutoRefresh();
       }
-      appState.current = state;
     });
 
     return () => {
@@ -179,145 +177,377 @@ export default function Home() {
   }, []);
 
   // Sync when session changes
-  useEffect(() => { syncFromRemote(); }, [session?.user?.id]);
+  useEffect(() => {
+    syncFromRemote();
+    if (session?.user) syncClients(session.user.id).then(setClients);
+    if (session?.user) syncPlaces(session.user.id).then((r) => { setPlaces(r.places); setRoutes(r.routes); });
+    if (session?.user) syncPayments(session.user.id).then(setPayments);
+    if (session?.user) syncSettings(session.user.id);
+  }, [session?.user?.id]);
+
+  // Replay queued writes when the app comes to the foreground or the network comes back
+  useEffect(() => {
+    if (!session?.user) return;
+    const subApp = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && appState.current !== 'active') syncFromRemote(false);
+      appState.current = state;
+    });
+    const unsubNet = NetInfo.addEventListener((net) => {
+      const isOnline = !!net.isConnected && net.isInternetReachable !== false;
+      if (isOnline && !online.current) syncFromRemote(false);
+      online.current = isOnline;
+    });
+    return () => {
+      subApp.remove();
+      unsubNet();
+    };
+  }, [session?.user?.id]);
 
   // Realtime subscription
   useEffect(() => {
     if (!session?.user) return;
     const channel = supabase
       .channel(`deliveries-${session.user.id}`)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'deliveries', filter: `user_id=eq.${session.user.id}` }, async () => {
-        await syncFromRemote(false); // silent refresh
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'deliveries', filter: `user_id=eq.${session.user.id}` }, async (payload) => {
+        await applyRealtime(payload as RealtimePostgresChangesPayload<DeliveryRow>);
       })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, [session?.user?.id]);
 
-  // --- Sync helper
+  // --- Sync helpers
+  async function flushOutbox() {
+    if (!session?.user) return [];
+    const left = await replayOutbox(session.user.id);
+    setPending(pendingIds(left));
+    return left;
+  }
+
+  // Reads the cache rather than state so callbacks bound to an older render stay correct.
+  // `fn` sees trashed jobs too, so a row deleted or restored elsewhere lands on the right side.
+  async function patchLocal(fn: (list: Delivery[]) => Delivery[]) {
+    await storeLocal(fn(await loadAll()));
+  }
+
+  async function storeLocal(all: Delivery[]) {
+    const [live, trashed] = await storeAll(all);
+    setDeliveries(live);
+    setTrash(trashed);
+  }
+
+  // Folds rows just read from the server into local state (see lib/sync)
+  async function mergeRemote(userId: string, rows: Delivery[], drop: string[] = []) {
+    const { live, trashed, queued } = await mergeRemoteRows(userId, rows, drop);
+    setDeliveries(live);
+    setTrash(trashed);
+    setConflicts(listConflicts(queued));
+    return queued;
+  }
+
   async function syncFromRemote(alertOnError = true) {
     try {
+      await purgeExpired();
       if (!session?.user) return; // no-op when logged out
-      const remote = await fetchDeliveries(session.user.id);
-      const next = sortByDateDesc(remote);
-      setDeliveries(next);
-      await saveCache(next);
+      const userId = session.user.id;
+      await flushOutbox();
+      const cursor = await loadSyncCursor(userId);
+      let next: SyncCursor;
+      let rows: Delivery[];
+      let gone: string[] = [];
+      if (cursor.since === null) {
+        // First sync on this device: newest page only, older history loads on scroll
+        rows = await fetchHistoryPage(userId, null);
+        next = { since: latestUpdate(rows, null), oldest: oldestOf(rows), exhausted: rows.length < PAGE_SIZE };
+      } else {
+        rows = await fetchChangedSince(userId, cursor.since);
+        next = { ...cursor, since: latestUpdate(rows, cursor.since) };
+        gone = await goneFromServer(userId, cursor.since);
+      }
+      const queued = await mergeRemote(userId, rows, gone);
+      await saveSyncCursor(userId, next);
+      setHasMore(!next.exhausted);
+      // Push edits that merged cleanly
+      if (queued.length) flushOutbox();
     } catch (e: any) {
       if (alertOnError) Alert.alert('Sync failed', e?.message ?? 'Please try again later');
       // keep cache
     }
   }
 
+  // The next page of older history, or with `all` every page left
+  async function loadMoreHistory(all = false) {
+    if (!session?.user || !hasMore || loadingMore) return;
+    const userId = session.user.id;
+    setLoadingMore(true);
+    try {
+      let cursor = await loadSyncCursor(userId);
+      do {
+        const rows = await fetchHistoryPage(userId, cursor.oldest);
+        await mergeRemote(userId, rows);
+        cursor = { ...cursor, oldest: oldestOf(rows) ?? cursor.oldest, exhausted: rows.length < PAGE_SIZE };
+        await saveSyncCursor(userId, cursor);
+      } while (all && !cursor.exhausted);
+      setHasMore(!cursor.exhausted);
+    } catch (e: any) {
+      // offline: try again on the next scroll
+      if (all) Alert.alert('Loading history failed', e?.message ?? 'Please try again later');
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  // Patches local state straight from the realtime payload instead of refetching
+  async function applyRealtime(payload: RealtimePostgresChangesPayload<DeliveryRow>) {
+    if (!session?.user) return;
+    const userId = session.user.id;
+    if (payload.eventType === 'DELETE') {
+      const id = payload.old.id;
+      if (id) await mergeRemote(userId, [], [id]);
+      return;
+    }
+    // The watermark stays put: only a delta sync moves it, so changes missed
+    // while the channel was down are still pulled
+    await mergeRemote(userId, [rowToDelivery(payload.new)]);
+  }
+
   // -----------------------
   // CRUD
   // -----------------------
-  function emptyDraft(): Draft {
-    return {
-      dateISO: iso(new Date()),
-      carMake: '',
-      carModel: '',
-      reg: '',
-      pickup: '',
-      dropoff: '',
-      distanceKm: 0,
-      ratePerKm: 0,
-      fixedFee: 0,
-      transportExpense: 0,
-      earnings: 0,
-      status: 'pending',
-      notes: '',
-    };
+  async function upsertDelivery(input: Draft): Promise<string> {
+    const [id] = await upsertDeliveries([input]);
+    return id;
   }
 
-  function sortByDateDesc(list: Delivery[]) {
-    return [...list].sort((a, b) => (a.dateISO < b.dateISO ? 1 : a.dateISO > b.dateISO ? -1 : 0));
+  // Saves through lib/sync, which prices, stores and queues the jobs
+  async function upsertDeliveries(inputs: Draft[], reprice = true): Promise<string[]> {
+    const { ids, live, trashed, ops } = await saveJobs(inputs, { userId: session?.user?.id ?? null, clients, reprice });
+    setDeliveries(live);
+    setTrash(trashed);
+    if (ops) {
+      setPending(pendingIds(ops));
+      flushOutbox();
+    }
+    return ids;
   }
 
-  async function upsertDelivery(input: Draft): Promise<string> {
-    const computed = input.earnings && input.earnings > 0
-      ? input.earnings
-      : (Number(input.distanceKm) || 0) * (Number(input.ratePerKm) || 0) + (Number(input.fixedFee) || 0);
+  // -----------------------
+  // Trash
+  // -----------------------
+  // Deleting moves jobs to the trash (a synced `deletedAt`), with a moment to
+  // undo; only purging, by hand or after the retention period, removes rows.
+  async function deleteDelivery(id: string) { await deleteDeliveries([id]); }
+
+  async function deleteDeliveries(ids: string[]) {
+    const deletedAt = new Date().toISOString();
+    const jobs = deliveries.filter((d) => ids.includes(d.id));
+    if (!jobs.length) return;
+    await upsertDeliveries(jobs.map((d) => ({ ...d, deletedAt })), false);
+    setUndo({ ids: jobs.map((d) => d.id), label: jobs.length === 1 ? `${jobs[0].reg || 'Job'} moved to trash` : `${jobs.length} jobs moved to trash` });
+  }
+
+  async function restoreDeliveries(ids: string[]) {
+    const jobs = (await loadTrash()).filter((d) => ids.includes(d.id));
+    setUndo(null);
+    if (jobs.length) await upsertDeliveries(jobs.map((d) => ({ ...d, deletedAt: null })), false);
+  }
+
+  async function purgeDeliveries(ids: string[]) {
+    await patchLocal((list) => list.filter((d) => !ids.includes(d.id)));
 
-    // If logged in → Supabase is the source of truth
     if (session?.user) {
-      const id = input.id ?? uuidv4();
-      try {
-        const payload = draftToRow(input, session.user.id, computed, input.id ?? id);
-        const { data, error } = await supabase
-          .from('deliveries')
-          .upsert(payload, { onConflict: 'id' })
-          .select()
-          .single();
-        if (error) throw error;
-        const saved = rowToDelivery((data as unknown) as DeliveryRow);
-        const next = sortByDateDesc([saved, ...deliveries.filter((d) => d.id !== saved.id)]);
-        setDeliveries(next);
-        await saveCache(next);
-        return saved.id;
-      } catch (e: any) {
-        Alert.alert('Save failed', e?.message ?? 'Unable to save to Supabase');
-        // Optimistic local fallback so you don’t lose the entry
-        const localId = input.id ?? id;
-        const local = { ...(input as Delivery), id: localId, earnings: computed };
-        const next = sortByDateDesc([local, ...deliveries.filter((d) => d.id !== localId)]);
-        setDeliveries(next);
-        await saveCache(next);
-        return localId;
-      }
+      const userId = session.user.id;
+      const queuedAt = new Date().toISOString();
+      const batch = ids.length > 1 ? uuidv4() : undefined;
+      const ops = await enqueueAll(ids.map((id) => ({ kind: 'delete' as const, id, userId, queuedAt, batch })));
+      setPending(pendingIds(ops));
+      flushOutbox();
     }
+  }
 
-    // Logged out → local cache only
-    const id = input.id ?? uuidv4();
-    const local = { ...(input as Delivery), id, earnings: computed };
-    const next = sortByDateDesc([local, ...deliveries.filter((d) => d.id !== id)]);
-    setDeliveries(next);
-    await saveCache(next);
-    return id;
+  // Reads the saved settings, not the first render's defaults, before purging anything
+  async function purgeExpired() {
+    const due = purgeDue(await loadTrash(), (await loadSettings()).trashRetentionDays);
+    if (due.length) await purgeDeliveries(due.map((d) => d.id));
   }
 
-  async function deleteDelivery(id: string) {
-    if (session?.user) {
-      try {
-        const { error } = await supabase.from('deliveries').delete().eq('id', id).eq('user_id', session.user.id);
-        if (error) throw error;
-      } catch (e: any) {
-        Alert.alert('Delete failed', e?.message ?? 'Unable to delete in Supabase');
-      }
-    }
-    const next = deliveries.filter((d) => d.id !== id);
-    setDeliveries(next);
-    await saveCache(next);
+  // Picks up jobs deleted on other devices before this one last synced
+  function openTrash() {
+    setTrashVisible(true);
+    refreshTrash().catch(() => {});
+  }
+
+  async function refreshTrash() {
+    if (!session?.user) return;
+    const rows = await fetchTrash(session.user.id);
+    await mergeRemote(session.user.id, rows);
+  }
+
+  // -----------------------
+  // Bulk actions
+  // -----------------------
+  // Selection is by id so it survives re-sorting and syncs; each action is
+  // one batched write, and jobs it can't apply to are skipped and counted.
+  function startSelecting(d?: Delivery) { setSelecting(true); setPicked(new Set(d ? [d.id] : [])); }
+  function endSelecting() { setSelecting(false); setPicked(new Set()); setBulkSheet(null); }
+  function togglePicked(id: string) {
+    const next = new Set(picked);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setPicked(next);
+  }
+  const pickedJobs = () => deliveries.filter((d) => picked.has(d.id));
+
+  function reportSkipped(skipped: number, why: string) {
+    if (skipped) Alert.alert(`${skipped} job${skipped === 1 ? '' : 's'} skipped`, why);
+  }
+
+  async function bulkMove(to: Status, reason?: string) {
+    const jobs = pickedJobs();
+    const allowed = jobs.filter((d) => canMove(d.status, to) && (to === 'paid' || !d.invoiceId));
+    // A client that requires proof of delivery needs a signature per job, taken on its details
+    const unsigned = (d: Delivery) => to === 'delivered' && !d.proof && !!clients.find((c) => c.id === d.clientId)?.requireProof;
+    const movable = allowed.filter((d) => !unsigned(d));
+    // Billing steps keep the billed figure; other moves can change it (abort fees)
+    if (movable.length) await upsertDeliveries(movable.map((d) => ({ ...d, ...transition(d, to, reason) })), to !== 'paid' && to !== 'invoiced');
+    endSelecting();
+    const why = [
+      jobs.length > allowed.length ? `Some can't be marked ${statusLabel(to).toLowerCase()} from where they are, or are locked by an invoice.` : '',
+      allowed.length > movable.length ? "Some need the recipient's signature before they can be delivered, as their client requires proof. Open each job to take it." : '',
+    ];
+    reportSkipped(jobs.length - movable.length, why.filter(Boolean).join('\n'));
+  }
+
+  // Assigning a client takes on its rates, as picking one in the form does
+  async function bulkAssign(c: Client | null) {
+    const jobs = pickedJobs();
+    const open = jobs.filter((d) => !d.invoiceId);
+    if (open.length) await upsertDeliveries(open.map((d) => (c ? { ...d, clientId: c.id, ratePerKm: c.ratePerKm, fixedFee: c.fixedFee } : { ...d, clientId: null })));
+    endSelecting();
+    reportSkipped(jobs.length - open.length, 'Invoiced jobs keep their client until the invoice is credited.');
+  }
+
+  function bulkDelete() {
+    const jobs = pickedJobs();
+    const open = jobs.filter((d) => !d.invoiceId);
+    if (!open.length) return reportSkipped(jobs.length, 'Invoiced jobs can only be removed by crediting their invoice.');
+    const locked = jobs.length - open.length;
+    confirmDeleteMany(open.length, locked, async () => { await deleteDeliveries(open.map((d) => d.id)); endSelecting(); });
   }
 
   // -----------------------
   // UI helpers
   // -----------------------
   function openCreate() { setDraft(emptyDraft()); setFormVisible(true); }
-  function openEdit(d: Delivery) { setDraft({ ...d }); setFormVisible(true); }
-  function openProfile() { setProfileVisible(true); }
+  function openEdit(d: Delivery) { if (guardLocked(d)) return; setDraft({ ...d }); setFormVisible(true); }
+  function openProfile() { router.push('/profile'); }
+  // A job edited while reissuing an invoice goes back to the reissue step
+  function backToInvoices() {
+    if (!returnToInvoices) return false;
+    setReturnToInvoices(false);
+    setInvoicesVisible(true);
+    return true;
+  }
   function openJobDetails(d: Delivery) { setSelected(d); setJobDetailsVisible(true); }
   function openDetailsById(id: string) { const d = deliveries.find(x => x.id === id); if (d) openJobDetails(d); }
 
+  // Table edits save like the form; the side panel picks up the new figures
+  async function editCell(d: Delivery, patch: Partial<Delivery>) {
+    if (guardLocked(d)) return;
+    await upsertDelivery({ ...d, ...patch });
+    if (selected?.id === d.id) setSelected((await loadCache()).find((x) => x.id === d.id) ?? null);
+  }
+
+  const sheetOpen = formVisible || exportVisible || importVisible || invoicesVisible || receivablesVisible || taxVisible || clientsVisible || placesVisible || conflictsVisible || trashVisible;
+  const editSelected = () => { if (selected) openEdit(selected); };
+  const deleteSelected = async () => { if (selected && !guardLocked(selected)) { await deleteDelivery(selected.id); setSelected(null); } };
+  useShortcuts({ n: openCreate, e: editSelected, Enter: editSelected, Delete: deleteSelected, Backspace: deleteSelected, Escape: () => setSelected(null) }, wide && view === 'list' && !sheetOpen);
+
+  async function updateSelected(patch: Partial<Delivery>) {
+    if (!selected || guardLocked(selected)) return;
+    const next = { ...selected, ...patch };
+    await upsertDelivery(next);
+    // Re-read so a re-priced figure (waiting time, say) shows straight away
+    setSelected((await loadCache()).find((d) => d.id === next.id) ?? next);
+  }
+
+  // Status changes go through the lifecycle; `patch` rides along (a handover
+  // signature, say). An invoiced job can still be marked paid, unpriced.
+  async function moveSelected(to: Status, reason?: string, patch: Partial<Delivery> = {}) {
+    if (!selected || (to !== 'paid' && guardLocked(selected))) return;
+    try {
+      const base = { ...selected, ...patch };
+      const next = { ...base, ...transition(base, to, reason) };
+      await upsertDeliveries([next], to !== 'paid');
+      setSelected((await loadCache()).find((d) => d.id === next.id) ?? next);
+    } catch (e: any) {
+      Alert.alert('Status not changed', e?.message ?? 'Please try again');
+    }
+  }
+
+  // Jobs by id, fetched when online so ones older than the loaded pages come too
+  async function loadJobs(ids: string[]) {
+    if (session?.user) {
+      try {
+        await mergeRemote(session.user.id, await fetchByIds(session.user.id, ids));
+      } catch {
+        // offline: the cache is all there is
+      }
+    }
+    return (await loadCache()).filter((d) => ids.includes(d.id));
+  }
+
+  // Jobs dated within a range, fetched when online for the same reason
+  async function loadBetween(startISO: string, endISO: string) {
+    if (session?.user) {
+      try {
+        await mergeRemote(session.user.id, await fetchRange(session.user.id, startISO, endISO));
+      } catch {
+        // offline: the cache is all there is
+      }
+    }
+    return (await loadCache()).filter((d) => isWithin(d.dateISO, startISO, endISO));
+  }
+
+  async function linkInvoice(ids: string[], invoiceId: string | null) {
+    // Billing moves jobs to invoiced; a credit note moves them back
+    await upsertDeliveries((await loadJobs(ids)).map((d) => ({
+      ...d,
+      ...(invoiceId ? (canMove(d.status, 'invoiced') ? transition(d, 'invoiced') : {}) : uninvoice(d, 'Invoice credited')),
+      invoiceId,
+    })), false);
+  }
+
+  // Jobs a payment covers in full become paid; removing the payment undoes it
+  async function settlePayments(ids: string[], list: Payment[]) {
+    const changed = (await loadJobs(ids)).flatMap((d) => {
+      const to = settlement(d, list);
+      if (to === 'paid') return [{ ...d, ...transition(d, 'paid', 'Payment received') }];
+      if (to === 'unpaid') return [{ ...d, ...unpay(d, 'Payment removed') }];
+      return [];
+    });
+    if (changed.length) await upsertDeliveries(changed, false);
+  }
+
   function filtered() {
     const q = query.trim().toLowerCase();
-    let list = deliveries;
-    if (dateFilter === 'today') {
-      const todayISO = iso(new Date());
-      list = list.filter((d) => d.dateISO === todayISO);
-    } else if (dateFilter === 'week') {
-      const { startISO, endISO } = getWeekRange(new Date());
-      list = list.filter((d) => isWithin(d.dateISO, startISO, endISO));
-    } else if (dateFilter === 'month') {
-      const now = new Date();
-      const startISO = iso(new Date(now.getFullYear(), now.getMonth(), 1));
-      const endISO = iso(new Date(now.getFullYear(), now.getMonth() + 1, 0));
-      list = list.filter((d) => isWithin(d.dateISO, startISO, endISO));
-    } else if (dateFilter === 'custom') {
-      if (customFrom && customTo) list = list.filter((d) => isWithin(d.dateISO, customFrom, customTo));
-      else if (customFrom) list = list.filter((d) => d.dateISO >= customFrom);
-      else if (customTo) list = list.filter((d) => d.dateISO <= customTo);
-    }
+    let list = filterByDate(deliveries, dateFilter, customFrom, customTo);
+    if (clientFilter) list = list.filter((d) => d.clientId === clientFilter);
+    if (statusFilter) list = list.filter((d) => d.status === statusFilter);
     if (!q) return list;
-    return list.filter((d) => [d.carMake, d.carModel, d.reg, d.pickup, d.dropoff, d.notes].join(' ').toLowerCase().includes(q));
+    return list.filter((d) => [d.carMake, d.carModel, d.reg, d.pickup, d.dropoff, d.notes, clientName(d.clientId)].join(' ').toLowerCase().includes(q));
+  }
+
+  function openAnalytics() {
+    router.push({ pathname: '/analytics', params: { filter: dateFilter, from: customFrom, to: customTo, client: clientFilter ?? '' } });
+  }
+
+  function clientName(id?: string | null) { return clients.find((c) => c.id === id)?.name ?? ''; }
+  const exportContext: ExportContext = { clientName };
+
+  async function applyResolution(id: string, resolved: Delivery) {
+    const ops = await resolveConflict(id, resolved);
+    setConflicts(listConflicts(ops));
+    setPending(pendingIds(ops));
+    await syncFromRemote(false);
   }
 
   const totals = useMemo(() => computeTotals(deliveries), [deliveries]);
@@ -330,7 +560,7 @@ export default function Home() {
     <SafeAreaView style={styles.safe}>
       <StatusBar backgroundColor="#0f172a" barStyle="light-content" />
       <View style={styles.container}>
-        <Header onProfile={openProfile} totals={totals} />
+        <Header onProfile={openProfile} onExport={() => setExportVisible(true)} onImport={() => setImportVisible(true)} onInvoices={() => setInvoicesVisible(true)} onReceivables={() => setReceivablesVisible(true)} onTrash={openTrash} onTax={() => setTaxVisible(true)} onAnalytics={openAnalytics} totals={totals} />
 
         <Filters
           query={query}
@@ -341,36 +571,161 @@ export default function Home() {
           customTo={customTo}
           setCustomFrom={setCustomFrom}
           setCustomTo={setCustomTo}
+          clients={clients}
+          clientFilter={clientFilter}
+          setClientFilter={setClientFilter}
+          statusFilter={statusFilter}
+          setStatusFilter={setStatusFilter}
         />
 
-        <FlatList
-          data={list}
-          keyExtractor={(item) => item.id}
-          ListEmptyComponent={
-            <View style={styles.emptyWrap}>
-              <Text style={styles.emptyTitle}>No deliveries yet</Text>
-              <Text style={styles.emptySub}>Tap “+ New” to add your first one.</Text>
-            </View>
-          }
-          renderItem={({ item }) => (
-            <Pressable style={styles.card} onPress={() => openJobDetails(item)} onLongPress={() => openEdit(item)}>
-              <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
-                <Text style={styles.cardTitle}>{item.carMake} {item.carModel} · {item.reg}</Text>
-                <Text >{currency(((Number(item.earnings) || 0) + (Number(item.transportExpense) || 0)))}</Text>
+        {conflicts.length ? (
+          <TouchableOpacity onPress={() => setConflictsVisible(true)} style={styles.conflictBanner}>
+            <Ionicons name="git-compare-outline" size={16} color="#fbbf24" />
+            <Text style={styles.conflictBannerText}>{conflicts.length} job{conflicts.length === 1 ? '' : 's'} edited on another device · Review</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {/* All time can't be fetched as a range; say the totals stop at what's loaded */}
+        {!range && hasMore ? (
+          <TouchableOpacity disabled={loadingMore} onPress={() => loadMoreHistory(true)} style={styles.conflictBanner}>
+            <Ionicons name="time-outline" size={16} color="#fbbf24" />
+            <Text style={styles.conflictBannerText}>{loadingMore ? 'Loading older jobs…' : `Totals cover the ${deliveries.length} jobs loaded so far · Load all`}</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        <View style={[styles.chips, { marginBottom: 8 }]}>
+          {(['list', 'day'] as const).map((v) => (
+            <Pressable key={v} onPress={() => setView(v)} style={[styles.chip, view === v && styles.chipActive]}>
+              <Text style={[styles.chipText, view === v && styles.chipTextActive]}>{v === 'list' ? 'LIST' : 'DAY RUN'}</Text>
+            </Pressable>
+          ))}
+          {view === 'list' && !wide ? (
+            <Pressable onPress={() => (selecting ? endSelecting() : startSelecting())} style={[styles.chip, selecting && styles.chipActive]}>
+              <Text style={[styles.chipText, selecting && styles.chipTextActive]}>{selecting ? 'DONE' : 'SELECT'}</Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        {selecting && view === 'list' && !wide ? (
+          <BulkBar
+            count={picked.size}
+            total={list.length}
+            onAll={() => setPicked(new Set(list.map((d) => d.id)))}
+            onNone={() => setPicked(new Set())}
+            onStatus={() => setBulkSheet('status')}
+            onClient={() => setBulkSheet('client')}
+            onInvoiced={() => bulkMove('invoiced')}
+            onPaid={() => bulkMove('paid')}
+            onExport={() => { setExportOnly(pickedJobs()); setExportVisible(true); }}
+            onDelete={bulkDelete}
+          />
+        ) : null}
+
+        {view === 'day' ? (
+          <DayRun dateISO={dayISO} onChangeDate={setDayISO} deliveries={deliveries} userId={session?.user?.id ?? null} onOpenJob={openJobDetails} />
+        ) : wide ? (
+          <View style={{ flex: 1, flexDirection: 'row', marginBottom: 88 }}>
+            <DeliveryTable
+              rows={list}
+              context={exportContext}
+              selectedId={selected?.id ?? null}
+              pending={pending}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              shortcuts={!sheetOpen}
+              onSelect={setSelected}
+              onEdit={editCell}
+              onLoadMore={() => loadMoreHistory()}
+            />
+            {selected ? (
+              <View style={styles.sidePanel}>
+                <View style={styles.modalHeader}>
+                  <Text style={styles.modalTitle} numberOfLines={1}>{selected.reg}</Text>
+                  <View style={styles.headerActions}>
+                    <TouchableOpacity onPress={editSelected} style={styles.btnGhost}><Text style={styles.btnGhostText}>Edit</Text></TouchableOpacity>
+                    <TouchableOpacity onPress={deleteSelected} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+                    <TouchableOpacity onPress={() => setSelected(null)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+                  </View>
+                </View>
+                <JobDetails
+                  key={selected.id}
+                  delivery={selected}
+                  userId={session?.user?.id ?? null}
+                  requireProof={!!clients.find((c) => c.id === selected.clientId)?.requireProof}
+                  onUpdate={updateSelected}
+                  onMove={moveSelected}
+                  clientName={clientName(selected.clientId)}
+                />
               </View>
-              <Text style={styles.cardSub}>{item.dateISO} • {item.pickup} → {item.dropoff} • {item.distanceKm} km</Text>
-              <Text style={styles.cardSub}>Gross {currency(item.earnings)} · Exp {currency(item.transportExpense || 0)} · Status: {(item.status || 'pending').toUpperCase()}</Text>
-              {item.notes ? <Text style={styles.cardNotes}>{item.notes}</Text> : null}
-              <View style={styles.cardActions}>
-                <TouchableOpacity onPress={() => openEdit(item)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Edit</Text></TouchableOpacity>
-                <TouchableOpacity onPress={() => confirmDelete(item, deleteDelivery)} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+            ) : null}
+          </View>
+        ) : (
+          <FlatList
+            data={list}
+            keyExtractor={(item) => item.id}
+            onEndReached={() => loadMoreHistory()}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={hasMore ? (
+              <View style={styles.emptyWrap}>
+                <Text style={styles.emptySub}>{loadingMore ? 'Loading older jobs…' : 'Scroll for older jobs'}</Text>
               </View>
-            </Pressable>
-          )}
-          contentContainerStyle={{ paddingBottom: 120 }}
-        />
+            ) : null}
+            ListEmptyComponent={
+              <View style={styles.emptyWrap}>
+                <Text style={styles.emptyTitle}>No deliveries yet</Text>
+                <Text style={styles.emptySub}>Tap “+ New” to add your first one.</Text>
+              </View>
+            }
+            renderItem={({ item }) => (
+              <Pressable
+                style={[styles.card, selecting && picked.has(item.id) && styles.cardPicked]}
+                onPress={() => (selecting ? togglePicked(item.id) : openJobDetails(item))}
+                onLongPress={() => (selecting ? togglePicked(item.id) : startSelecting(item))}
+              >
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                  {selecting ? <Ionicons name={picked.has(item.id) ? 'checkbox' : 'square-outline'} size={18} color={picked.has(item.id) ? '#22c55e' : '#64748b'} style={{ marginRight: 8 }} /> : null}
+                  <Text style={[styles.cardTitle, { flex: 1 }]}>{item.carMake} {item.carModel} · {item.reg}</Text>
+                  <Text >{currency(((Number(item.earnings) || 0) + reimbursedTotal(item)))}</Text>
+                </View>
+                {pending.has(item.id) ? (
+                  <View style={styles.pendingBadge}>
+                    <Ionicons name="cloud-offline-outline" size={12} color="#fbbf24" />
+                    <Text style={styles.pendingText}>Pending sync</Text>
+                  </View>
+                ) : null}
+                <Text style={styles.cardSub}>{dateLabel(item.dateISO)} • {item.pickup} → {item.dropoff} • {item.distanceEstimated ? '≈' : ''}{distance(item.distanceKm)}{item.clientId ? ` • ${clientName(item.clientId)}` : ''}</Text>
+                <Text style={styles.cardSub}>Gross {currency(item.earnings)} · Exp {currency(reimbursedTotal(item))}{ownCostTotal(item) ? ` · Own ${currency(ownCostTotal(item))}` : ''}</Text>
+                <View style={[styles.pendingBadge, { borderColor: statusColor(item.status) }]}>
+                  <View style={[styles.legendDot, { backgroundColor: statusColor(item.status) }]} />
+                  <Text style={[styles.invoicedText, { color: statusColor(item.status) }]}>{statusLabel(item.status)}</Text>
+                </View>
+                {item.invoiceId ? (
+                  <View style={styles.pendingBadge}>
+                    <Ionicons name="lock-closed-outline" size={12} color="#94a3b8" />
+                    <Text style={styles.invoicedText}>Invoiced</Text>
+                  </View>
+                ) : null}
+                {item.notes ? <Text style={styles.cardNotes}>{item.notes}</Text> : null}
+                {!selecting ? (
+                  <View style={styles.cardActions}>
+                    <TouchableOpacity onPress={() => openEdit(item)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Edit</Text></TouchableOpacity>
+                    <TouchableOpacity onPress={() => { if (!guardLocked(item)) deleteDelivery(item.id); }} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+                  </View>
+                ) : null}
+              </Pressable>
+            )}
+            contentContainerStyle={{ paddingBottom: 120 }}
+          />
+        )}
+
+        <StatsBar deliveries={list} all={deliveries} payments={payments} tiles={settings.statTiles} />
 
-        <StatsBar deliveries={list} />
+        {undo ? (
+          <View style={styles.snackbar}>
+            <Text style={styles.snackbarText}>{undo.label}</Text>
+            <TouchableOpacity onPress={() => restoreDeliveries(undo.ids)}><Text style={styles.snackbarAction}>UNDO</Text></TouchableOpacity>
+          </View>
+        ) : null}
 
         {/* was: style={styles.fab} */}
         <TouchableOpacity
@@ -383,18 +738,33 @@ export default function Home() {
 
         <DeliveryForm
           visible={formVisible}
-          onClose={() => setFormVisible(false)}
+          onClose={() => { setFormVisible(false); backToInvoices(); }}
           draft={draft}
           setDraft={setDraft}
+          clients={clients}
+          userId={session?.user?.id ?? null}
+          places={places}
+          routes={routes}
+          history={deliveries}
+          onManageClients={() => { setFormVisible(false); setReturnToForm(true); setClientsVisible(true); }}
+          onManagePlaces={() => { setFormVisible(false); setReturnToForm(true); setPlacesVisible(true); }}
+          onSaveRoute={async (r) => {
+            if (!session?.user) return;
+            try {
+              setRoutes(await upsertRoute(session.user.id, r));
+            } catch (e: any) {
+              Alert.alert('Save route failed', e?.message ?? 'Please try again when online');
+            }
+          }}
           // Where you pass onSubmit to <DeliveryForm />
           onSubmit={async () => {
             try {
-              if (!draft.dateISO) return Alert.alert('Missing date', 'Please enter a date (YYYY-MM-DD).');
-              if (!draft.reg) return Alert.alert('Missing reg', 'Please enter the car registration.');
+              const missing = missingField(draft);
+              if (missing) return Alert.alert(...missing);
 
               const id = await upsertDelivery(draft as Draft);
               setFormVisible(false);
-              openDetailsById(id);
+              if (!backToInvoices()) openDetailsById(id);
             } catch (e: any) {
               Alert.alert('Add delivery failed', e?.message ?? 'Unknown error');
               console.error(e);
@@ -403,18 +773,118 @@ export default function Home() {
 
         />
 
-        <ProfileModal visible={profileVisible} onClose={() => setProfileVisible(false)} session={session} />
+        <ExportSheet
+          visible={exportVisible}
+          onClose={() => { setExportVisible(false); setExportOnly(null); }}
+          deliveries={exportOnly ?? list}
+          selection={!!exportOnly}
+          partial={!exportOnly && !range && hasMore}
+          loading={loadingMore}
+          onLoadAll={() => loadMoreHistory(true)}
+          context={exportContext}
+        />
+
+        <BulkSheet
+          kind={bulkSheet}
+          jobs={pickedJobs()}
+          clients={clients}
+          onClose={() => setBulkSheet(null)}
+          onStatus={bulkMove}
+          onClient={bulkAssign}
+        />
+
+        <ClientsModal
+          visible={clientsVisible}
+          onClose={() => {
+            setClientsVisible(false);
+            // Opened from the job form: go back to it with the draft intact
+            if (returnToForm) { setReturnToForm(false); setFormVisible(true); }
+          }}
+          userId={session?.user?.id ?? null}
+          clients={clients}
+          onChange={setClients}
+        />
+
+        <PlacesModal
+          visible={placesVisible}
+          onClose={() => {
+            setPlacesVisible(false);
+            if (returnToForm) { setReturnToForm(false); setFormVisible(true); }
+          }}
+          userId={session?.user?.id ?? null}
+          places={places}
+          routes={routes}
+          onChangePlaces={setPlaces}
+          onChangeRoutes={setRoutes}
+        />
+
+        <ImportSheet
+          visible={importVisible}
+          onClose={() => setImportVisible(false)}
+          loadExisting={loadBetween}
+          onCommit={async (drafts) => {
+            await upsertDeliveries(drafts);
+            setImportVisible(false);
+            Alert.alert('Import complete', `${drafts.length} deliver${drafts.length === 1 ? 'y' : 'ies'} added.`);
+          }}
+        />
+
+        <InvoicesModal
+          visible={invoicesVisible}
+          onClose={() => setInvoicesVisible(false)}
+          userId={session?.user?.id ?? null}
+          deliveries={deliveries}
+          clients={clients}
+          onLink={linkInvoice}
+          loadJobs={loadJobs}
+          onEditJob={(d) => { setInvoicesVisible(false); setReturnToInvoices(true); openEdit(d); }}
+        />
+
+        <ReceivablesModal
+          visible={receivablesVisible}
+          onClose={() => setReceivablesVisible(false)}
+          userId={session?.user?.id ?? null}
+          deliveries={deliveries}
+          clients={clients}
+          payments={payments}
+          onChange={setPayments}
+          onSettle={settlePayments}
+        />
+
+        <TaxReportModal
+          visible={taxVisible}
+          onClose={() => setTaxVisible(false)}
+          userId={session?.user?.id ?? null}
+          deliveries={deliveries}
+        />
+
+        <TrashModal
+          visible={trashVisible}
+          onClose={() => setTrashVisible(false)}
+          trash={trash}
+          retentionDays={settings.trashRetentionDays}
+          clientName={clientName}
+          onRestore={restoreDeliveries}
+          onPurge={purgeDeliveries}
+        />
+
+        <ConflictSheet
+          visible={conflictsVisible && conflicts.length > 0}
+          conflict={conflicts[0] ?? null}
+          remaining={conflicts.length}
+          onClose={() => setConflictsVisible(false)}
+          onResolve={applyResolution}
+        />
 
         <JobDetailsModal
-          visible={jobDetailsVisible}
+          visible={jobDetailsVisible && !wide}
           delivery={selected}
+          userId={session?.user?.id ?? null}
+          requireProof={!!clients.find((c) => c.id === selected?.clientId)?.requireProof}
           onClose={() => setJobDetailsVisible(false)}
-          onSetStatus={async (s) => {
-            if (!selected) return;
-            await upsertDelivery({ ...selected, status: s });
-            const d = deliveries.find(x => x.id === selected.id);
-            if (d) setSelected(d);
-          }}
+          onUpdate={updateSelected}
+          onMove={moveSelected}
+          clientName={clientName(selected?.clientId)}
         />
       </View>
     </SafeAreaView>
@@ -424,16 +894,39 @@ export default function Home() {
 // -----------------------
 // Presentational bits reused from your original
 // -----------------------
-function Header({ onProfile, totals }: { onProfile: () => void; totals: ReturnType<typeof computeTotals> }) {
+function Header({ onProfile, onExport, onImport, onInvoices, onReceivables, onTrash, onTax, onAnalytics, totals }: { onProfile: () => void; onExport: () => void; onImport: () => void; onInvoices: () => void; onReceivables: () => void; onTrash: () => void; onTax: () => void; onAnalytics: () => void; totals: ReturnType<typeof computeTotals> }) {
   return (
     <View style={styles.header}>
       <View>
         <Text style={styles.h1}>Redoo</Text>
         {/* <Text style={styles.h2}>Income (incl. expenses): {currency(totals.net)} · Gross {currency(totals.totalEarnings)} + Exp {currency(totals.totalExpenses)} · {totals.totalJobs} jobs</Text> */}
       </View>
-      <TouchableOpacity onPress={onProfile} style={styles.avatar}>
-        <Ionicons name="person-circle" size={24} color="white" />
-      </TouchableOpacity>
+      <View style={styles.headerActions}>
+        <TouchableOpacity onPress={onAnalytics} style={styles.avatar}>
+          <Ionicons name="stats-chart-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onInvoices} style={styles.avatar}>
+          <Ionicons name="receipt-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onReceivables} style={styles.avatar}>
+          <Ionicons name="wallet-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onTax} style={styles.avatar}>
+          <Ionicons name="calculator-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onImport} style={styles.avatar}>
+          <Ionicons name="document-attach-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onExport} style={styles.avatar}>
+          <Ionicons name="download-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onTrash} style={styles.avatar}>
+          <Ionicons name="trash-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onProfile} style={styles.avatar}>
+          <Ionicons name="person-circle" size={24} color="white" />
+        </TouchableOpacity>
+      </View>
     </View>
   );
 }
@@ -442,10 +935,14 @@ function Filters({
   query, setQuery,
   dateFilter, setDateFilter,
   customFrom, customTo, setCustomFrom, setCustomTo,
+  clients, clientFilter, setClientFilter,
+  statusFilter, setStatusFilter,
 }: {
   query: string; setQuery: (v: string) => void;
-  dateFilter: 'all' | 'today' | 'week' | 'month' | 'custom'; setDateFilter: (v: any) => void;
+  dateFilter: DateFilter; setDateFilter: (v: DateFilter) => void;
   customFrom: string; customTo: string; setCustomFrom: (v: string) => void; setCustomTo: (v: string) => void;
+  clients: Client[]; clientFilter: string | null; setClientFilter: (v: string | null) => void;
+  statusFilter: Status | null; setStatusFilter: (v: Status | null) => void;
 }) {
   return (
     <View style={styles.filters}>
@@ -459,7 +956,7 @@ function Filters({
         />
       </View>
       <View style={styles.chips}>
-        {(['today', 'week', 'month', 'all', 'custom'] as const).map((k) => (
+        {DATE_FILTERS.map((k) => (
           <Pressable key={k} onPress={() => setDateFilter(k)} style={[styles.chip, dateFilter === k && styles.chipActive]}>
             <Text style={[styles.chipText, dateFilter === k && styles.chipTextActive]}>{k.toUpperCase()}</Text>
           </Pressable>
@@ -471,37 +968,54 @@ function Filters({
           <TextInput placeholder="To (YYYY-MM-DD)" value={customTo} onChangeText={setCustomTo} style={styles.input} />
         </View>
       )}
+      {clients.length ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { marginTop: 8, flexWrap: 'nowrap' }]}>
+          {[{ id: null, name: 'All clients' }, ...clients].map((c) => (
+            <Pressable key={c.id ?? 'all'} onPress={() => setClientFilter(c.id)} style={[styles.chip, clientFilter === c.id && styles.chipActive]}>
+              <Text style={[styles.chipText, clientFilter === c.id && styles.chipTextActive]}>{c.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      ) : null}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { marginTop: 8, flexWrap: 'nowrap' }]}>
+        {[{ key: null, label: 'Any status' }, ...STATUSES].map((s) => (
+          <Pressable key={s.key ?? 'any'} onPress={() => setStatusFilter(s.key)} style={[styles.chip, statusFilter === s.key && styles.chipActive]}>
+            <Text style={[styles.chipText, statusFilter === s.key && styles.chipTextActive]}>{s.label.toUpperCase()}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
     </View>
   );
 }
 
-function StatsBar({ deliveries }: { deliveries: Delivery[] }) {
+// Tiles and their order come from settings
+// `deliveries` is the filtered list; what you're owed ignores the filters, so it gets `all`
+function StatsBar({ deliveries, all, payments, tiles }: { deliveries: Delivery[]; all: Delivery[]; payments: Payment[]; tiles: StatTile[] }) {
   const today = iso(new Date());
   const { startISO, endISO } = getWeekRange(new Date());
-
-  const todayE = sumE(deliveries.filter((d) => d.dateISO === today));
-  const todayX = sumX(deliveries.filter((d) => d.dateISO === today));
-  const todayIncome = todayE + todayX;
-
-  const weekE = sumE(deliveries.filter((d) => isWithin(d.dateISO, startISO, endISO)));
-  const weekX = sumX(deliveries.filter((d) => isWithin(d.dateISO, startISO, endISO)));
-  const weekIncome = weekE + weekX;
-
   const month = new Date();
   const mStart = iso(new Date(month.getFullYear(), month.getMonth(), 1));
   const mEnd = iso(new Date(month.getFullYear(), month.getMonth() + 1, 0));
-  const monthE = sumE(deliveries.filter((d) => isWithin(d.dateISO, mStart, mEnd)));
-  const monthX = sumX(deliveries.filter((d) => isWithin(d.dateISO, mStart, mEnd)));
-  const monthIncome = monthE + monthX;
-
-  const exp = sumX(deliveries);
+  const income = (list: Delivery[]) => sumE(list) + sumX(list);
+
+  const value = (t: StatTile) => {
+    switch (t) {
+      case 'today': return currency(income(deliveries.filter((d) => d.dateISO === today)));
+      case 'week': return currency(income(deliveries.filter((d) => isWithin(d.dateISO, startISO, endISO))));
+      case 'month': return currency(income(deliveries.filter((d) => isWithin(d.dateISO, mStart, mEnd))));
+      case 'expenses': return currency(sumX(deliveries));
+      case 'jobs': return String(deliveries.length);
+      case 'profit': return currency(computeTotals(deliveries).profit);
+      case 'perKm': return rate(computeTotals(deliveries).avgPerKm);
+      case 'waiting': return hoursLabel(deliveries.reduce((acc, d) => acc + waitingMinutes(d), 0));
+      case 'owed': return currency(owedTotal(all, payments));
+    }
+  };
 
+  if (!tiles.length) return null;
   return (
     <View style={styles.statsBar} pointerEvents="none">
-      <Stat label="Today (Income)" value={currency(todayIncome)} />
-      <Stat label="This Week (Income)" value={currency(weekIncome)} />
-      <Stat label="This Month (Income)" value={currency(monthIncome)} />
-      <Stat label="Expenses" value={currency(exp)} />
+      {tiles.map((t) => <Stat key={t} label={STAT_TILES.find((x) => x.key === t)!.label} value={value(t)} />)}
     </View>
   );
 }
@@ -515,337 +1029,432 @@ function Stat({ label, value }: { label: string; value: string }) {
   );
 }
 
-function sumE(list: Delivery[]) { return list.reduce((acc, d) => acc + (Number(d.earnings) || 0), 0); }
-function sumX(list: Delivery[]) { return list.reduce((acc, d) => acc + (Number(d.transportExpense) || 0), 0); }
-
-function computeTotals(list: Delivery[]) {
-  const totalEarnings = sumE(list);
-  const totalExpenses = sumX(list);
-  const totalJobs = list.length;
-  const totalKm = list.reduce((acc, d) => acc + (Number(d.distanceKm) || 0), 0);
-  const net = totalEarnings + totalExpenses; // expenses reimbursed as wages
-  const avgPerKm = totalKm > 0 ? net / totalKm : 0;
-  return { totalEarnings, totalExpenses, net, totalJobs, totalKm, avgPerKm };
-}
-
-function confirmDelete(item: Delivery, onDelete: (id: string) => Promise<void>) {
-  Alert.alert('Delete delivery?', `${item.carMake} ${item.carModel} (${item.reg}) on ${item.dateISO}`, [
+function confirmDeleteMany(count: number, locked: number, onDelete: () => Promise<void>) {
+  const title = `Delete ${count} deliver${count === 1 ? 'y' : 'ies'}?`;
+  const body = `${locked ? `${locked} invoiced job${locked === 1 ? '' : 's'} will be kept. ` : ''}They stay in the trash until purged.`;
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n${body}`)) onDelete();
+    return;
+  }
+  Alert.alert(title, body, [
     { text: 'Cancel', style: 'cancel' },
-    { text: 'Delete', style: 'destructive', onPress: () => onDelete(item.id) },
+    { text: 'Delete', style: 'destructive', onPress: () => onDelete() },
   ]);
 }
 
-function DeliveryForm({ visible, onClose, draft, setDraft, onSubmit }: {
-  visible: boolean;
+// Actions for the jobs picked in selection mode
+function BulkBar({ count, total, onAll, onNone, onStatus, onClient, onInvoiced, onPaid, onExport, onDelete }: {
+  count: number;
+  total: number;
+  onAll: () => void;
+  onNone: () => void;
+  onStatus: () => void;
+  onClient: () => void;
+  onInvoiced: () => void;
+  onPaid: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}) {
+  const none = count === 0;
+  return (
+    <View style={[styles.filters, { gap: 8 }]}>
+      <View style={[styles.rateLine, { alignItems: 'center' }]}>
+        <Text style={{ color: 'white', fontWeight: '700', flex: 1 }}>{count} selected</Text>
+        <TouchableOpacity onPress={count === total ? onNone : onAll} style={styles.btnGhost}>
+          <Text style={styles.btnGhostText}>{count === total && total ? 'Select none' : `Select all ${total}`}</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+        <TouchableOpacity disabled={none} onPress={onStatus} style={styles.btnGhost}><Text style={styles.btnGhostText}>Status…</Text></TouchableOpacity>
+        <TouchableOpacity disabled={none} onPress={onClient} style={styles.btnGhost}><Text style={styles.btnGhostText}>Client…</Text></TouchableOpacity>
+        <TouchableOpacity disabled={none} onPress={onInvoiced} style={styles.btnGhost}><Text style={styles.btnGhostText}>Mark Invoiced</Text></TouchableOpacity>
+        <TouchableOpacity disabled={none} onPress={onPaid} style={styles.btnGhost}><Text style={styles.btnGhostText}>Mark Paid</Text></TouchableOpacity>
+        <TouchableOpacity disabled={none} onPress={onExport} style={styles.btnGhost}><Text style={styles.btnGhostText}>Export</Text></TouchableOpacity>
+        <TouchableOpacity disabled={none} onPress={onDelete} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+// Picks the status or client for a bulk change. Statuses none of the jobs can
+// reach are left out; a reason is asked for where a single job would ask.
+function BulkSheet({ kind, jobs, clients, onClose, onStatus, onClient }: {
+  kind: 'status' | 'client' | null;
+  jobs: Delivery[];
+  clients: Client[];
   onClose: () => void;
-  draft: Draft;
-  setDraft: (d: Draft) => void;
-  onSubmit: () => void | Promise<void>;
+  onStatus: (to: Status, reason?: string) => void | Promise<void>;
+  onClient: (c: Client | null) => void | Promise<void>;
 }) {
-  const set = (k: keyof Draft, v: any) => setDraft({ ...draft, [k]: v });
+  const [reasonFor, setReasonFor] = useState<Status | null>(null);
+  const [reason, setReason] = useState('');
+  useEffect(() => { setReasonFor(null); setReason(''); }, [kind]);
+
+  const reachable = STATUSES.filter((s) => jobs.some((d) => canMove(d.status, s.key)));
+  const count = (to: Status) => jobs.filter((d) => canMove(d.status, to)).length;
 
   return (
-    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+    <Modal visible={!!kind} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
       <SafeAreaView style={styles.modalSafe}>
-        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>{draft.id ? 'Edit Delivery' : 'New Delivery'}</Text>
-            <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
-          </View>
-
-          <FlatList
-            data={[{ key: 'form' }]}
-            keyExtractor={(i) => i.key}
-            renderItem={() => (
-              <View style={styles.form}>
-                <FormRow label="Date (YYYY-MM-DD)">
-                  <TextInput
-                    placeholder="2025-08-10"
-                    value={draft.dateISO}
-                    onChangeText={(v) => set('dateISO', v)}
-                    style={styles.input}
-                  />
-                </FormRow>
-
-                <FormRow label="Car Make">
-                  <TextInput value={draft.carMake} onChangeText={(v) => set('carMake', v)} style={styles.input} placeholder="Toyota" />
-                </FormRow>
-                <FormRow label="Car Model">
-                  <TextInput value={draft.carModel} onChangeText={(v) => set('carModel', v)} style={styles.input} placeholder="Corolla" />
-                </FormRow>
-                <FormRow label="Reg Plate">
-                  <TextInput value={draft.reg} onChangeText={(v) => set('reg', v)} style={styles.input} placeholder="AB12 CDE" autoCapitalize="characters" />
-                </FormRow>
-
-                <FormRow label="Pickup">
-                  <TextInput value={draft.pickup} onChangeText={(v) => set('pickup', v)} style={styles.input} placeholder="Wembley" />
-                </FormRow>
-                <FormRow label="Drop-off">
-                  <TextInput value={draft.dropoff} onChangeText={(v) => set('dropoff', v)} style={styles.input} placeholder="Croydon" />
-                </FormRow>
-
-                <FormRow label="Distance (km)">
-                  <TextInput
-                    keyboardType="decimal-pad"
-                    value={String(draft.distanceKm ?? '')}
-                    onChangeText={(v) => set('distanceKm', Number(v) || 0)}
-                    style={styles.input}
-                    placeholder="32.5"
-                  />
-                </FormRow>
-                <FormRow label="Rate (£/km)">
-                  <TextInput
-                    keyboardType="decimal-pad"
-                    value={String(draft.ratePerKm ?? '')}
-                    onChangeText={(v) => set('ratePerKm', Number(v) || 0)}
-                    style={styles.input}
-                    placeholder="0.75"
-                  />
-                </FormRow>
-                <FormRow label="Fixed Fee (£)">
-                  <TextInput
-                    keyboardType="decimal-pad"
-                    value={String(draft.fixedFee ?? '')}
-                    onChangeText={(v) => set('fixedFee', Number(v) || 0)}
-                    style={styles.input}
-                    placeholder="10"
-                  />
-                </FormRow>
-
-                <FormRow label="Transport Expense (£)">
-                  <TextInput
-                    keyboardType="decimal-pad"
-                    value={String(draft.transportExpense ?? '')}
-                    onChangeText={(v) => set('transportExpense', Number(v) || 0)}
-                    style={styles.input}
-                    placeholder="3.50"
-                  />
-                </FormRow>
-
-                <FormRow label="Earnings (£) — leave blank to auto-calc">
-                  <TextInput
-                    keyboardType="decimal-pad"
-                    value={String(draft.earnings ?? '')}
-                    onChangeText={(v) => set('earnings', Number(v) || 0)}
-                    style={styles.input}
-                    placeholder="(auto)"
-                  />
-                </FormRow>
-
-                <FormRow label="Notes">
-                  <TextInput
-                    value={draft.notes}
-                    onChangeText={(v) => set('notes', v)}
-                    style={[styles.input, { height: 80, textAlignVertical: 'top' }]}
-                    multiline
-                    placeholder="Any extra details"
-                  />
-                </FormRow>
-
-                // Inside DeliveryForm (the submit button)
-                <TouchableOpacity
-                  onPress={async () => {
-                    try {
-                      await onSubmit();
-                    } catch (e: any) {
-                      Alert.alert('Save failed', e?.message ?? 'Something went wrong while saving.');
-                      console.error(e);
-                    }
-                  }}
-                  style={[styles.btnPrimary, { marginTop: 24 }]}
-                >
-                  <Text style={styles.btnPrimaryText}>{draft.id ? 'Save Changes' : 'Add Delivery'}</Text>
-                </TouchableOpacity>
-
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{kind === 'client' ? 'Assign Client' : 'Set Status'} · {jobs.length} job{jobs.length === 1 ? '' : 's'}</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 10 }}>
+          {kind === 'client' ? (
+            [...clients, null].map((c) => (
+              <TouchableOpacity key={c?.id ?? 'none'} onPress={() => onClient(c)} style={styles.card}>
+                <Text style={styles.cardTitle}>{c?.name ?? 'No client'}</Text>
+                {c ? <Text style={styles.cardSub}>{c.rateCard ? 'Rate card' : `${rate(c.ratePerKm)} + ${currency(c.fixedFee)}`}</Text> : null}
+              </TouchableOpacity>
+            ))
+          ) : reasonFor ? (
+            <View style={styles.rateBox}>
+              <Text style={{ color: 'white' }}>Mark {count(reasonFor)} {statusLabel(reasonFor).toLowerCase()}</Text>
+              <TextInput value={reason} onChangeText={setReason} style={styles.input} placeholder="Reason (optional)" />
+              <View style={styles.cardActions}>
+                <TouchableOpacity onPress={() => onStatus(reasonFor, reason)} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Confirm</Text></TouchableOpacity>
+                <TouchableOpacity onPress={() => setReasonFor(null)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Back</Text></TouchableOpacity>
               </View>
-            )}
-          />
-        </KeyboardAvoidingView>
+            </View>
+          ) : reachable.length ? (
+            reachable.map((s) => (
+              <TouchableOpacity key={s.key} onPress={() => (NEEDS_REASON.includes(s.key) ? setReasonFor(s.key) : onStatus(s.key))} style={[styles.rateLine, styles.card, { alignItems: 'center' }]}>
+                <View style={[styles.legendDot, { backgroundColor: s.color }]} />
+                <Text style={[styles.cardTitle, { flex: 1 }]}>{s.label}</Text>
+                <Text style={styles.chipText}>{count(s.key)} of {jobs.length}</Text>
+              </TouchableOpacity>
+            ))
+          ) : (
+            <Text style={styles.emptySub}>None of these jobs can move on from where they are.</Text>
+          )}
+        </ScrollView>
       </SafeAreaView>
     </Modal>
   );
 }
 
-function FormRow({ label, children }: { label: string; children: React.ReactNode }) {
+function ExportSheet({ visible, onClose, deliveries, selection, partial, loading, onLoadAll, context }: {
+  visible: boolean;
+  onClose: () => void;
+  deliveries: Delivery[];
+  selection?: boolean;
+  partial: boolean; // all time, with older history not loaded yet
+  loading: boolean;
+  onLoadAll: () => void;
+  context: ExportContext;
+}) {
+  const [prefs, setPrefs] = useState<ColumnPref[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => { if (visible) loadColumnPrefs().then(setPrefs); }, [visible]);
+
+  function update(next: ColumnPref[]) { setPrefs(next); saveColumnPrefs(next); }
+  function toggle(i: number) { update(prefs.map((p, j) => (j === i ? { ...p, enabled: !p.enabled } : p))); }
+  function move(i: number, by: -1 | 1) {
+    const j = i + by;
+    if (j < 0 || j >= prefs.length) return;
+    const next = [...prefs];
+    [next[i], next[j]] = [next[j], next[i]];
+    update(next);
+  }
+
+  async function run() {
+    if (!prefs.some((p) => p.enabled)) return Alert.alert('No columns', 'Pick at least one column to export.');
+    try {
+      setBusy(true);
+      await shareExport(deliveries, prefs, format, context, `deliveries-${iso(new Date())}`);
+    } catch (e: any) {
+      Alert.alert('Export failed', e?.message ?? 'Unable to create the file');
+    } finally {
+      setBusy(false);
+    }
+  }
+
   return (
-    <View style={styles.formRow}>
-      <Text style={styles.formLabel}>{label}</Text>
-      {children}
-    </View>
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>Export</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <FlatList
+          data={prefs}
+          keyExtractor={(p) => p.key}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+          ListHeaderComponent={
+            <View style={{ gap: 12, marginBottom: 12 }}>
+              <Text style={{ color: '#94a3b8' }}>{deliveries.length} job{deliveries.length === 1 ? '' : 's'} {selection ? 'selected' : 'in the current filter'}</Text>
+              {partial ? (
+                <TouchableOpacity disabled={loading} onPress={onLoadAll} style={styles.conflictBanner}>
+                  <Ionicons name="time-outline" size={16} color="#fbbf24" />
+                  <Text style={styles.conflictBannerText}>{loading ? 'Loading older jobs…' : 'Older jobs aren’t loaded yet · Load all'}</Text>
+                </TouchableOpacity>
+              ) : null}
+              <View style={styles.chips}>
+                {(['csv', 'xlsx'] as const).map((f) => (
+                  <Pressable key={f} onPress={() => setFormat(f)} style={[styles.chip, format === f && styles.chipActive]}>
+                    <Text style={[styles.chipText, format === f && styles.chipTextActive]}>{f.toUpperCase()}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Text style={styles.formLabel}>Columns (tap to include, arrows to reorder)</Text>
+            </View>
+          }
+          renderItem={({ item, index }) => (
+            <View style={styles.exportRow}>
+              <Pressable onPress={() => toggle(index)} style={styles.exportToggle}>
+                <Ionicons name={item.enabled ? 'checkbox' : 'square-outline'} size={20} color={item.enabled ? '#22c55e' : '#64748b'} />
+                <Text style={{ color: item.enabled ? 'white' : '#64748b' }}>{columnLabel(EXPORT_COLUMNS.find((c) => c.key === item.key)!)}</Text>
+              </Pressable>
+              <TouchableOpacity onPress={() => move(index, -1)}><Ionicons name="chevron-up" size={20} color="#94a3b8" /></TouchableOpacity>
+              <TouchableOpacity onPress={() => move(index, 1)}><Ionicons name="chevron-down" size={20} color="#94a3b8" /></TouchableOpacity>
+            </View>
+          )}
+          ListFooterComponent={
+            <TouchableOpacity disabled={busy} onPress={run} style={[styles.btnPrimary, { marginTop: 16, alignItems: 'center' }]}>
+              <Text style={styles.btnPrimaryText}>{busy ? 'Exporting…' : `Export ${format.toUpperCase()}`}</Text>
+            </TouchableOpacity>
+          }
+        />
+      </SafeAreaView>
+    </Modal>
   );
 }
 
-// You already have these components in your project; kept inline for completeness
-function ProfileModal({ visible, onClose, session }: { visible: boolean; onClose: () => void; session: Session | null }) {
-  const [loading, setLoading] = useState(false);
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [username, setUsername] = useState('');
-  const [website, setWebsite] = useState('');
-  const [avatarUrl, setAvatarUrl] = useState('');
+function ImportSheet({ visible, onClose, loadExisting, onCommit }: {
+  visible: boolean;
+  onClose: () => void;
+  loadExisting: (startISO: string, endISO: string) => Promise<Delivery[]>; // for the duplicate check
+  onCommit: (drafts: Draft[]) => void | Promise<void>;
+}) {
+  const [step, setStep] = useState<'pick' | 'map' | 'preview'>('pick');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [cells, setCells] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skip, setSkip] = useState<Set<number>>(() => new Set());
+  const [busy, setBusy] = useState(false);
+  const { distanceUnit: unit } = useSettings();
+
+  useEffect(() => { if (!visible) { setStep('pick'); setHeaders([]); setCells([]); setMapping(null); setRows([]); } }, [visible]);
+
+  async function pickFile() {
+    try {
+      const res = await DocumentPicker.getDocumentAsync({ type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'], copyToCacheDirectory: true });
+      if (res.canceled || !res.assets?.length) return;
+      const file = res.assets[0];
+      // fetch() only reads blob: URIs reliably, which is what the picker gives on web
+      const text = Platform.OS === 'web' ? await fetch(file.uri).then((r) => r.text()) : await FileSystem.readAsStringAsync(file.uri);
+      const parsed = readCSV(text);
+      if (!parsed.headers.length || !parsed.rows.length) return Alert.alert('Empty file', 'No rows found in that CSV.');
+      setFileName(file.name);
+      setHeaders(parsed.headers);
+      setCells(parsed.rows);
+      setMapping(guessMapping(parsed.headers));
+      setStep('map');
+    } catch (e: any) {
+      Alert.alert('Import failed', e?.message ?? 'Unable to read the file');
+    }
+  }
 
-  useEffect(() => { if (session) getProfile(); }, [session]);
+  // Distances and rates are read in the unit their column header names, else the user's
+  const unitOf = (k: ImportField) => columnUnit(mapping && mapping[k] >= 0 ? headers[mapping[k]] ?? '' : '', unit);
 
-  async function getProfile() {
+  async function preview() {
+    if (!mapping) return;
+    const missing = IMPORT_FIELDS.filter((f) => f.required && mapping[f.key] < 0);
+    if (missing.length) return Alert.alert('Map required columns', `Choose a column for ${missing.map((f) => f.label).join(' and ')}.`);
+    const units = { distance: unitOf('distanceKm'), rate: unitOf('ratePerKm') };
     try {
-      setLoading(true);
-      if (!session?.user) throw new Error('No user on the session!');
-      const { data, error, status } = await supabase
-        .from('profiles')
-        .select('username, website, avatar_url')
-        .eq('id', session.user.id)
-        .single();
-      if (error && status !== 406) throw error;
-      if (data) {
-        setUsername((data as any).username || '');
-        setWebsite((data as any).website || '');
-        setAvatarUrl((data as any).avatar_url || '');
-      }
-    } catch (e: any) { Alert.alert(e.message ?? 'Failed to load profile'); }
-    finally { setLoading(false); }
+      setBusy(true);
+      // Duplicates are checked against every job in the file's dates, loaded or not
+      const dates = buildRows(cells, mapping, [], units).map((r) => r.draft.dateISO).filter(Boolean).sort();
+      const existing = dates.length ? await loadExisting(dates[0], dates[dates.length - 1]) : [];
+      const built = buildRows(cells, mapping, existing, units);
+      setRows(built);
+      // Rows with errors can't be imported; duplicates start unticked
+      setSkip(new Set(built.filter((r) => r.errors.length || r.duplicate).map((r) => r.line)));
+      setStep('preview');
+    } finally {
+      setBusy(false);
+    }
   }
 
-  async function updateProfile({ username, website, avatar_url }: { username: string; website: string; avatar_url: string; }) {
+  async function commit() {
+    const accepted = rows.filter((r) => !r.errors.length && !skip.has(r.line)).map((r) => r.draft);
+    if (!accepted.length) return Alert.alert('Nothing to import', 'Tick at least one valid row.');
     try {
-      setLoading(true);
-      if (!session?.user) throw new Error('No user on the session!');
-      const updates = { id: session.user.id, username, website, avatar_url, updated_at: new Date() };
-      const { error } = await supabase.from('profiles').upsert(updates);
-      if (error) throw error;
-      Alert.alert('Profile saved');
-    } catch (e: any) { Alert.alert(e.message ?? 'Failed to update profile'); }
-    finally { setLoading(false); }
+      setBusy(true);
+      await onCommit(accepted);
+    } finally {
+      setBusy(false);
+    }
   }
 
-  async function signIn() {
-    try { setLoading(true); const { error } = await supabase.auth.signInWithPassword({ email, password }); if (error) throw error; }
-    catch (e: any) { Alert.alert(e.message ?? 'Sign-in failed'); }
-    finally { setLoading(false); }
-  }
-  async function signUp() {
-    try { setLoading(true); const { error } = await supabase.auth.signUp({ email, password }); if (error) throw error; Alert.alert('Check your email to confirm your account.'); }
-    catch (e: any) { Alert.alert(e.message ?? 'Sign-up failed'); }
-    finally { setLoading(false); }
-  }
-  async function signOut() { await supabase.auth.signOut(); }
+  const toggle = (line: number) => {
+    const next = new Set(skip);
+    if (next.has(line)) next.delete(line); else next.add(line);
+    setSkip(next);
+  };
+  const importable = rows.filter((r) => !r.errors.length && !skip.has(r.line)).length;
 
   return (
     <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
       <SafeAreaView style={styles.modalSafe}>
         <View style={styles.modalHeader}>
-          <Text style={styles.modalTitle}>Profile</Text>
-          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+          <Text style={styles.modalTitle}>Import CSV</Text>
+          <TouchableOpacity onPress={step === 'preview' ? () => setStep('map') : onClose}>
+            <Text style={styles.btnGhostText}>{step === 'preview' ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
         </View>
 
-        <View style={{ padding: 16, gap: 12, flex: 1,}}>
-         
-            {!session ? (
-              <>
-                <Text style={{ color: '#94a3b8' }}>Sign in or create an account</Text>
-                <TextInput placeholder="Email" autoCapitalize="none" keyboardType="email-address" value={email} onChangeText={setEmail} style={styles.input} />
-                <TextInput placeholder="Password" secureTextEntry value={password} onChangeText={setPassword} style={styles.input} />
-                <TouchableOpacity disabled={loading} onPress={signIn} style={styles.btnPrimary}><Text style={styles.btnPrimaryText}>{loading ? 'Loading...' : 'Sign In'}</Text></TouchableOpacity>
-                <TouchableOpacity disabled={loading} onPress={signUp} style={styles.btnGhost}><Text style={styles.btnGhostText}>Sign Up</Text></TouchableOpacity>
-              </>
-            ) : (
-              <>
-                <Text style={{ color: '#94a3b8' }}>Signed in as {session.user.email}</Text>
-                <TextInput placeholder="Username" value={username} onChangeText={setUsername} style={styles.input} />
-                <TextInput placeholder="Website" value={website} onChangeText={setWebsite} style={styles.input} />
-                <TouchableOpacity disabled={loading} onPress={() => updateProfile({ username, website, avatar_url: avatarUrl })} style={styles.btnPrimary}><Text style={styles.btnPrimaryText}>{loading ? 'Loading ...' : 'Update'}</Text></TouchableOpacity>
-                <TouchableOpacity onPress={signOut} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Sign Out</Text></TouchableOpacity>
-              </>
-            )}
+        {step === 'pick' && (
+          <View style={{ padding: 16, gap: 12 }}>
+            <Text style={{ color: '#94a3b8' }}>Pick an agency statement (CSV). You can match its columns to delivery fields before anything is saved.</Text>
+            <TouchableOpacity onPress={pickFile} style={[styles.btnPrimary, { alignItems: 'center' }]}><Text style={styles.btnPrimaryText}>Choose File</Text></TouchableOpacity>
+          </View>
+        )}
 
-            {/* Privacy Policy link */}
-            <TouchableOpacity onPress={() => Linking.openURL('https://www.freeprivacypolicy.com/live/ca9ad14a-e9c1-431c-b219-faebbbae4074')} style={{ marginTop: 20 }}>
-              <Text style={{ color: '#3b82f6', textDecorationLine: 'underline' }}>Privacy Policy</Text>
-            </TouchableOpacity>
-         
+        {step === 'map' && mapping && (
+          <FlatList
+            data={IMPORT_FIELDS}
+            keyExtractor={(f) => f.key}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24, gap: 12 }}
+            ListHeaderComponent={<Text style={{ color: '#94a3b8' }}>{fileName} · {cells.length} rows. Match each field to a column.</Text>}
+            renderItem={({ item: f }) => (
+              <FormRow label={`${fieldLabel(f, unitOf(f.key))}${f.required ? ' *' : ''}`}>
+                <View style={styles.chips}>
+                  {[-1, ...headers.map((_, i) => i)].map((i) => (
+                    <Pressable key={i} onPress={() => setMapping({ ...mapping, [f.key]: i })} style={[styles.chip, mapping[f.key] === i && styles.chipActive]}>
+                      <Text style={[styles.chipText, mapping[f.key] === i && styles.chipTextActive]}>{i < 0 ? '—' : headers[i] || `Column ${i + 1}`}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </FormRow>
+            )}
+            ListFooterComponent={
+              <TouchableOpacity disabled={busy} onPress={preview} style={[styles.btnPrimary, { alignItems: 'center', marginTop: 8 }]}><Text style={styles.btnPrimaryText}>{busy ? 'Checking…' : 'Preview'}</Text></TouchableOpacity>
+            }
+          />
+        )}
 
-          {/* App version at the bottom */}
-          <Text style={{ color: '#94a3b8', textAlign: 'center', marginTop: 'auto' }}>
-            Version {Constants.expoConfig?.version || '1.0.0'}
-          </Text>
-        </View>
+        {step === 'preview' && (
+          <FlatList
+            data={rows}
+            keyExtractor={(r) => String(r.line)}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+            ListHeaderComponent={
+              <Text style={{ color: '#94a3b8', marginBottom: 8 }}>
+                {rows.filter((r) => r.errors.length).length} with errors · {rows.filter((r) => r.duplicate).length} possible duplicates · {importable} to import
+              </Text>
+            }
+            renderItem={({ item: r }) => {
+              const invalid = r.errors.length > 0;
+              const on = !invalid && !skip.has(r.line);
+              return (
+                <Pressable disabled={invalid} onPress={() => toggle(r.line)} style={[styles.card, invalid && styles.importRowInvalid]}>
+                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                    <Ionicons name={on ? 'checkbox' : 'square-outline'} size={20} color={on ? '#22c55e' : '#64748b'} />
+                    <Text style={[styles.cardTitle, { flex: 1 }]}>Line {r.line} · {r.draft.reg || '—'} · {r.draft.dateISO || '—'}</Text>
+                    {r.duplicate ? <Text style={styles.pendingText}>DUPLICATE</Text> : null}
+                  </View>
+                  <Text style={styles.cardSub}>{r.draft.carMake} {r.draft.carModel} • {r.draft.pickup} → {r.draft.dropoff} • {distance(r.draft.distanceKm)} • {currency(r.draft.fixedFee)}</Text>
+                  {r.errors.map((e) => <Text key={e} style={styles.btnGhostDangerText}>{e}</Text>)}
+                </Pressable>
+              );
+            }}
+            ListFooterComponent={
+              <TouchableOpacity disabled={busy} onPress={commit} style={[styles.btnPrimary, { alignItems: 'center', marginTop: 8 }]}>
+                <Text style={styles.btnPrimaryText}>{busy ? 'Importing…' : `Import ${importable} Row${importable === 1 ? '' : 's'}`}</Text>
+              </TouchableOpacity>
+            }
+          />
+        )}
       </SafeAreaView>
     </Modal>
   );
 }
 
+function ConflictSheet({ visible, conflict, remaining, onClose, onResolve }: {
+  visible: boolean;
+  conflict: Conflict | null;
+  remaining: number;
+  onClose: () => void;
+  onResolve: (id: string, resolved: Delivery) => void | Promise<void>;
+}) {
+  const [picks, setPicks] = useState<Partial<Record<MergeField, 'local' | 'remote'>>>({});
+  useEffect(() => { setPicks({}); }, [conflict?.id]);
+  if (!conflict) return null;
+
+  const pick = (k: MergeField) => picks[k] ?? 'local';
+  const show = (k: MergeField, v: unknown) => {
+    if (v === undefined || v === null || v === '') return '—';
+    if (k === 'distanceKm') return String(toDisplayDistance(v as number));
+    if (k === 'ratePerKm') return String(toDisplayRate(v as number));
+    if (k === 'rateLines') return describeLines(v as RateLine[]) || '—';
+    if (k === 'proof') return `${(v as Proof).recipientName} · ${new Date((v as Proof).signedAt).toLocaleString()}`;
+    if (k === 'expenses') return (v as ExpenseItem[]).map((e) => `${categoryLabel(e.category)} ${currency(Number(e.amount) || 0)}${e.reimbursable ? '' : ' (own)'}`).join('\n') || '—';
+    return String(v);
+  };
+
+  function resolve(all?: 'local' | 'remote') {
+    if (!conflict) return;
+    // Start from the clean merge, then settle each clashing field as chosen
+    const resolved: Delivery = { ...mergeDelivery(conflict.base, conflict.local, conflict.remote).merged };
+    for (const k of conflict.fields) {
+      const side = all ?? pick(k);
+      assignField(resolved, k, (side === 'local' ? conflict.local : conflict.remote)[k]);
+    }
+    onResolve(conflict.id, resolved);
+  }
 
-function JobDetailsModal({ visible, onClose, delivery, onSetStatus }: { visible: boolean; onClose: () => void; delivery: Delivery | null; onSetStatus: (s: Delivery['status']) => void | Promise<void> }) {
-  if (!delivery) return null as any;
   return (
     <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
       <SafeAreaView style={styles.modalSafe}>
         <View style={styles.modalHeader}>
-          <Text style={styles.modalTitle}>Job Details</Text>
-          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
-        </View>
-        <View style={{ padding: 16, gap: 10 }}>
-          <Text style={{ color: 'white', fontWeight: '700' }}>{delivery.carMake} {delivery.carModel} · {delivery.reg}</Text>
-          <Text style={{ color: '#94a3b8' }}>{delivery.dateISO} • {delivery.pickup} → {delivery.dropoff}</Text>
-          <Text style={{ color: '#94a3b8' }}>Gross {currency(delivery.earnings)} · Exp {currency(delivery.transportExpense || 0)} · Income {currency((delivery.earnings || 0) + (delivery.transportExpense || 0))}</Text>
-          {delivery.notes ? <Text style={{ color: '#cbd5e1' }}>{delivery.notes}</Text> : null}
-
-          <View style={{ height: 16 }} />
-          <Text style={{ color: 'white', fontWeight: '700' }}>Status</Text>
-          <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
-            <TouchableOpacity onPress={() => onSetStatus('completed')} style={[styles.btnPrimary]}><Text style={styles.btnPrimaryText}>Mark Completed</Text></TouchableOpacity>
-            <TouchableOpacity onPress={() => onSetStatus('aborted')} style={[styles.btnGhost]}><Text style={styles.btnGhostText}>Aborted</Text></TouchableOpacity>
-            <TouchableOpacity onPress={() => onSetStatus('cancelled')} style={[styles.btnGhostDanger]}><Text style={styles.btnGhostDangerText}>Cancelled</Text></TouchableOpacity>
-          </View>
-          <Text style={{ color: '#94a3b8' }}>Current: {delivery.status.toUpperCase()}</Text>
+          <Text style={styles.modalTitle}>Resolve Conflict{remaining > 1 ? ` (1 of ${remaining})` : ''}</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Later</Text></TouchableOpacity>
         </View>
+        <FlatList
+          data={MERGE_FIELDS}
+          keyExtractor={(f) => f.key}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+          ListHeaderComponent={
+            <View style={{ gap: 6, marginBottom: 12 }}>
+              <Text style={{ color: '#94a3b8' }}>{conflict.local.reg} was changed here and on another device. Tap the value to keep for each highlighted field.</Text>
+              <View style={styles.conflictRow}>
+                <Text style={[styles.conflictLabel, styles.conflictHead]}>Field</Text>
+                <Text style={[styles.conflictCell, styles.conflictHead]}>This device</Text>
+                <Text style={[styles.conflictCell, styles.conflictHead]}>Other device</Text>
+              </View>
+            </View>
+          }
+          renderItem={({ item: f }) => {
+            const clash = conflict.fields.includes(f.key);
+            return (
+              <View style={[styles.conflictRow, clash && styles.conflictRowClash]}>
+                <Text style={styles.conflictLabel}>{mergeFieldLabel(f)}</Text>
+                <Pressable disabled={!clash} onPress={() => setPicks({ ...picks, [f.key]: 'local' })} style={[styles.conflictCell, clash && pick(f.key) === 'local' && styles.conflictPicked]}>
+                  <Text style={styles.conflictValue}>{show(f.key, conflict.local[f.key])}</Text>
+                </Pressable>
+                <Pressable disabled={!clash} onPress={() => setPicks({ ...picks, [f.key]: 'remote' })} style={[styles.conflictCell, clash && pick(f.key) === 'remote' && styles.conflictPicked]}>
+                  <Text style={styles.conflictValue}>{show(f.key, conflict.remote[f.key])}</Text>
+                </Pressable>
+              </View>
+            );
+          }}
+          ListFooterComponent={
+            <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 16 }}>
+              <TouchableOpacity onPress={() => resolve()} style={styles.btnPrimary}><Text style={styles.btnPrimaryText}>Apply Selection</Text></TouchableOpacity>
+              <TouchableOpacity onPress={() => resolve('local')} style={styles.btnGhost}><Text style={styles.btnGhostText}>Keep Mine</Text></TouchableOpacity>
+              <TouchableOpacity onPress={() => resolve('remote')} style={styles.btnGhost}><Text style={styles.btnGhostText}>Keep Theirs</Text></TouchableOpacity>
+            </View>
+          }
+        />
       </SafeAreaView>
     </Modal>
   );
 }
-
-// -----------------------
-// Styles
-// -----------------------
-const styles = StyleSheet.create({
-  safe: { flex: 1, backgroundColor: '#0f172a' },
-  container: { flex: 1, padding: 16 },
-  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 },
-  h1: { color: 'white', fontSize: 20, fontWeight: '700' },
-  h2: { color: '#94a3b8', fontSize: 12, marginTop: 2 },
-  avatar: { width: 36, height: 36, borderRadius: 18, backgroundColor: '#1f2937', alignItems: 'center', justifyContent: 'center', borderWidth: 1, borderColor: '#334155' },
-  btnPrimary: { backgroundColor: '#22c55e', paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12 },
-  btnPrimaryText: { color: '#052e16', fontSize: 14, fontWeight: '700' },
-  filters: { backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, padding: 12, borderRadius: 16, marginBottom: 12 },
-  searchWrap: { marginBottom: 8 },
-  input: { backgroundColor: '#0a0f1c', borderColor: '#1f2937', borderWidth: 1, color: 'white', paddingHorizontal: 12, paddingVertical: 10, borderRadius: 10 },
-  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
-  chip: { borderWidth: 1, borderColor: '#334155', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999 },
-  chipActive: { backgroundColor: '#334155' },
-  chipText: { color: '#9ca3af', fontSize: 12, fontWeight: '600' },
-  chipTextActive: { color: 'white' },
-  customRange: { flexDirection: 'row', gap: 8, marginTop: 8 },
-  card: { backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, borderRadius: 16, padding: 12, marginBottom: 10 },
-  cardTitle: { color: 'white', fontWeight: '700' },
-  cardSub: { color: '#94a3b8', marginTop: 4 },
-  cardNotes: { color: '#cbd5e1', marginTop: 6 },
-  cardActions: { flexDirection: 'row', gap: 12, marginTop: 8 },
-  btnGhost: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999, borderWidth: 1, borderColor: '#334155' },
-  btnGhostText: { color: '#e5e7eb', fontWeight: '600' },
-  btnGhostDanger: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999, borderWidth: 1, borderColor: '#7f1d1d' },
-  btnGhostDangerText: { color: '#fecaca', fontWeight: '700' },
-  emptyWrap: { alignItems: 'center', paddingVertical: 32 },
-  emptyTitle: { color: 'white', fontSize: 16, fontWeight: '700' },
-  emptySub: { color: '#94a3b8', marginTop: 6 },
-  statsBar: { position: 'absolute', left: 16, right: 16, bottom: 16, backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, padding: 12, borderRadius: 16, flexDirection: 'row', justifyContent: 'space-between', gap: 12 },
-  stat: { flex: 1, alignItems: 'center' },
-  statLabel: { color: '#94a3b8', fontSize: 12 },
-  statValue: { color: 'white', fontSize: 16, fontWeight: '700', marginTop: 2 },
-  modalSafe: { flex: 1, backgroundColor: '#0f172a' },
-  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12 },
-  modalTitle: { color: 'white', fontSize: 18, fontWeight: '700' },
-  form: { paddingHorizontal: 16, paddingBottom: 24, gap: 12 },
-  formRow: { gap: 6 },
-  formLabel: { color: '#9ca3af', fontSize: 12 },
-  fab: { position: 'absolute', right: 16, bottom: 92, width: 56, height: 56, borderRadius: 28, backgroundColor: '#22c55e', alignItems: 'center', justifyContent: 'center', shadowColor: '#000', shadowOpacity: 0.3, shadowRadius: 8, elevation: 6 },
-  fabText: { color: '#052e16', fontSize: 28, fontWeight: '900', marginTop: -2 },
-});
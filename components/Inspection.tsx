@@ -0,0 +1,249 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import {
+  capturePhoto, DamageMarker, fetchInspections, FUEL_LABELS, Inspection, InspectionStage, missingPhotos,
+  newInspection, newMarker, PHOTO_SLOTS, PhotoSlot, photoUrls, saveInspection,
+} from '@/lib/inspections';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Image, Modal, Platform, Pressable, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const STAGE_LABEL: Record<InspectionStage, string> = { pickup: 'Pickup', dropoff: 'Drop-off' };
+const when = (isoTs: string) => new Date(isoTs).toLocaleString();
+
+// -----------------------
+// Job details summary
+// -----------------------
+// One row per stage, plus what changed between them once both are done.
+export default function InspectionSummary({ userId, deliveryId }: { userId: string | null; deliveryId: string }) {
+  const [list, setList] = useState<Inspection[]>([]);
+  const [open, setOpen] = useState<Inspection | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let live = true;
+    fetchInspections(userId, deliveryId).then((l) => { if (live) setList(l); });
+    return () => { live = false; };
+  }, [userId, deliveryId]);
+
+  if (!userId) return <Text style={{ color: '#94a3b8' }}>Sign in to record vehicle inspections.</Text>;
+
+  const byStage = (s: InspectionStage) => list.find((i) => i.stage === s);
+  const pickup = byStage('pickup'), dropoff = byStage('dropoff');
+  const driven = pickup?.odometer != null && dropoff?.odometer != null ? dropoff.odometer - pickup.odometer : null;
+
+  return (
+    <View style={{ gap: 8 }}>
+      {(['pickup', 'dropoff'] as const).map((stage) => {
+        const insp = byStage(stage);
+        return (
+          <View key={stage} style={[styles.rateLine, { alignItems: 'center' }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: 'white' }}>{STAGE_LABEL[stage]}</Text>
+              <Text style={styles.cardSub}>
+                {!insp ? 'Not started'
+                  : insp.completedAt ? `Done ${when(insp.completedAt)} · ${Object.keys(insp.photos).length} photos · ${insp.markers.length} damage`
+                    : `In progress · ${Object.keys(insp.photos).length}/${PHOTO_SLOTS.length} photos`}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => setOpen(insp ?? newInspection(deliveryId, stage))} style={styles.btnGhost}>
+              <Text style={styles.btnGhostText}>{!insp ? 'Start' : insp.completedAt ? 'View' : 'Continue'}</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+      {pickup?.completedAt && dropoff?.completedAt ? (
+        <Text style={styles.cardSub}>
+          {driven !== null ? `Odometer +${driven}` : 'Odometer not recorded'}
+          {pickup.fuelEighths != null && dropoff.fuelEighths != null ? ` · Fuel ${FUEL_LABELS[pickup.fuelEighths]} → ${FUEL_LABELS[dropoff.fuelEighths]}` : ''}
+          {` · ${Math.max(0, dropoff.markers.length - pickup.markers.length)} new damage marker(s)`}
+        </Text>
+      ) : null}
+
+      <InspectionModal
+        visible={!!open}
+        userId={userId}
+        initial={open}
+        onClose={() => setOpen(null)}
+        onSaved={(saved) => setList([saved, ...list.filter((i) => i.id !== saved.id)])}
+      />
+    </View>
+  );
+}
+
+// -----------------------
+// Capture
+// -----------------------
+function InspectionModal({ visible, userId, initial, onClose, onSaved }: {
+  visible: boolean;
+  userId: string;
+  initial: Inspection | null;
+  onClose: () => void;
+  onSaved: (i: Inspection) => void;
+}) {
+  const [insp, setInsp] = useState<Inspection | null>(initial);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [busySlot, setBusySlot] = useState<PhotoSlot | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setInsp(initial);
+    setUrls({});
+    if (initial && Object.keys(initial.photos).length) photoUrls(initial).then(setUrls).catch(() => {});
+  }, [initial]);
+
+  if (!insp) return null;
+  const readOnly = !!insp.completedAt;
+  const set = (patch: Partial<Inspection>) => setInsp({ ...insp, ...patch });
+
+  async function shoot(slot: PhotoSlot) {
+    if (!insp || readOnly) return;
+    try {
+      setBusySlot(slot);
+      const photo = await capturePhoto(userId, insp, slot, Platform.OS === 'web' ? 'library' : 'camera');
+      if (!photo) return;
+      const next = { ...insp, photos: { ...insp.photos, [slot]: photo } };
+      setInsp(next);
+      setUrls({ ...urls, ...(await photoUrls({ ...next, photos: { [slot]: photo } })) });
+    } catch (e: any) {
+      Alert.alert('Photo upload failed', e?.message ?? 'Please try again when online');
+    } finally {
+      setBusySlot(null);
+    }
+  }
+
+  async function persist(complete: boolean) {
+    if (!insp) return;
+    const next = complete ? { ...insp, completedAt: new Date().toISOString() } : insp;
+    try {
+      setSaving(true);
+      onSaved(await saveInspection(userId, next));
+      onClose();
+    } catch (e: any) {
+      // Already cached; it's sent again the next time this job's inspections load
+      onSaved(next);
+      Alert.alert('Saved on this device', e?.message ?? 'It will upload the next time you open this job online.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function confirmComplete() {
+    if (!insp) return;
+    const missing = missingPhotos(insp);
+    if (!missing.length) return persist(true);
+    Alert.alert(`${missing.length} photo${missing.length === 1 ? '' : 's'} missing`, `${missing.map((m) => m.label).join(', ')}.\n\nA completed inspection can't be changed afterwards.`, [
+      { text: 'Keep Going', style: 'cancel' },
+      { text: 'Complete Anyway', style: 'destructive', onPress: () => persist(true) },
+    ]);
+  }
+
+  const setMarker = (id: string, patch: Partial<DamageMarker>) => set({ markers: insp.markers.map((m) => (m.id === id ? { ...m, ...patch } : m)) });
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{STAGE_LABEL[insp.stage]} Inspection</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <FlatList
+          data={[{ key: 'form' }]}
+          keyExtractor={(i) => i.key}
+          renderItem={() => (
+            <View style={styles.form}>
+              <Text style={styles.cardSub}>Started {when(insp.startedAt)}{insp.completedAt ? ` · completed ${when(insp.completedAt)}` : ''}</Text>
+
+              <Text style={styles.formLabel}>Photos</Text>
+              <View style={styles.inspectGrid}>
+                {PHOTO_SLOTS.map((s) => {
+                  const photo = insp.photos[s.key];
+                  const uri = photo && urls[photo.path];
+                  return (
+                    <Pressable key={s.key} disabled={readOnly || !!busySlot} onPress={() => shoot(s.key)} style={styles.inspectTile}>
+                      {busySlot === s.key ? <ActivityIndicator />
+                        : uri ? <Image source={{ uri }} style={styles.inspectThumb} />
+                          : <Ionicons name={photo ? 'checkmark-circle' : 'camera-outline'} size={22} color={photo ? '#22c55e' : '#64748b'} />}
+                      <Text style={styles.inspectTileText} numberOfLines={2}>{s.label}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <Text style={styles.formLabel}>Damage — {readOnly ? 'marked on the outline' : 'tap the outline to mark it'}</Text>
+              <CarDiagram markers={insp.markers} onAdd={readOnly ? undefined : (x, y) => set({ markers: [...insp.markers, newMarker(x, y)] })} />
+              {insp.markers.map((m, i) => (
+                <View key={m.id} style={[styles.rateLine, { alignItems: 'center' }]}>
+                  <View style={styles.damageDotStatic}><Text style={styles.damageDotText}>{i + 1}</Text></View>
+                  <TextInput editable={!readOnly} value={m.note} onChangeText={(v) => setMarker(m.id, { note: v })} style={[styles.input, { flex: 1 }]} placeholder="Scratch, dent, chip…" />
+                  {!readOnly ? (
+                    <TouchableOpacity onPress={() => set({ markers: insp.markers.filter((x) => x.id !== m.id) })} style={styles.btnGhostDanger}>
+                      <Text style={styles.btnGhostDangerText}>✕</Text>
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+              ))}
+
+              <FormRow label="Odometer">
+                <TextInput editable={!readOnly} keyboardType="number-pad" value={insp.odometer === null ? '' : String(insp.odometer)} onChangeText={(v) => set({ odometer: v.trim() ? Number(v) || 0 : null })} style={styles.input} placeholder="e.g. 24517" />
+              </FormRow>
+              <FormRow label="Fuel level">
+                <View style={[styles.chips, { flexWrap: 'nowrap' }]}>
+                  {FUEL_LABELS.map((label, n) => (
+                    <Pressable key={n} disabled={readOnly} onPress={() => set({ fuelEighths: n })} style={[styles.chip, insp.fuelEighths === n && styles.chipActive]}>
+                      <Text style={[styles.chipText, insp.fuelEighths === n && styles.chipTextActive]}>{label}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </FormRow>
+              <FormRow label="Notes">
+                <TextInput editable={!readOnly} value={insp.notes} onChangeText={(v) => set({ notes: v })} style={[styles.input, { height: 64, textAlignVertical: 'top' }]} multiline placeholder="Keys, documents, accessories…" />
+              </FormRow>
+
+              {!readOnly ? (
+                <View style={[styles.cardActions, { marginTop: 16 }]}>
+                  <TouchableOpacity disabled={saving} onPress={confirmComplete} style={styles.btnPrimary}>
+                    <Text style={styles.btnPrimaryText}>{saving ? 'Saving…' : 'Complete Inspection'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity disabled={saving} onPress={() => persist(false)} style={styles.btnGhost}>
+                    <Text style={styles.btnGhostText}>Save Progress</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : null}
+            </View>
+          )}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// Top-down outline built from plain views; markers are stored as fractions of
+// its size so they land in the same place on any screen.
+const DIAGRAM = { width: 180, height: 340 };
+
+function CarDiagram({ markers, onAdd }: { markers: DamageMarker[]; onAdd?: (x: number, y: number) => void }) {
+  return (
+    <Pressable
+      disabled={!onAdd}
+      onPress={(e) => onAdd?.(e.nativeEvent.locationX / DIAGRAM.width, e.nativeEvent.locationY / DIAGRAM.height)}
+      style={[styles.carDiagram, DIAGRAM]}
+    >
+      <View pointerEvents="none" style={StyleSheet.absoluteFill}>
+        <Text style={styles.carFront}>FRONT</Text>
+        {[[0.04, 0.17], [0.81, 0.17], [0.04, 0.7], [0.81, 0.7]].map(([l, t], i) => (
+          <View key={i} style={[styles.carWheel, { left: `${l * 100}%`, top: `${t * 100}%` }]} />
+        ))}
+        <View style={styles.carBody}>
+          <View style={[styles.carGlass, { top: '24%', height: '12%' }]} />
+          <View style={[styles.carGlass, { top: '70%', height: '9%' }]} />
+        </View>
+        {markers.map((m, i) => (
+          <View key={m.id} style={[styles.damageDot, { left: m.x * DIAGRAM.width - 10, top: m.y * DIAGRAM.height - 10 }]}>
+            <Text style={styles.damageDotText}>{i + 1}</Text>
+          </View>
+        ))}
+      </View>
+    </Pressable>
+  );
+}
@@ -0,0 +1,350 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import { Client } from '@/lib/clients';
+import { Delivery, upsertById } from '@/lib/deliveries';
+import { reimbursedTotal } from '@/lib/expenses';
+import { currency, getWeekRange, isWithin } from '@/lib/format';
+import { createCreditNote, createInvoice, fetchInvoices, Invoice, InvoiceInput, invoiceLines, shareInvoicePdf } from '@/lib/invoices';
+import { canMove } from '@/lib/lifecycle';
+import { loadRange } from '@/lib/sync';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, Modal, Pressable, SafeAreaView, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Invoices
+// -----------------------
+// Lists issued invoices and credit notes, and builds new invoices from
+// completed, not-yet-billed deliveries. Linking jobs to an invoice goes
+// through `onLink` so it takes the same outbox path as any other edit.
+export default function InvoicesModal({ visible, onClose, userId, deliveries, clients, onLink, loadJobs, onEditJob }: {
+  visible: boolean;
+  onClose: () => void;
+  userId: string | null;
+  deliveries: Delivery[];
+  clients: Client[];
+  onLink: (deliveryIds: string[], invoiceId: string | null) => Promise<void>;
+  loadJobs: (ids: string[]) => Promise<Delivery[]>; // current copies, including jobs outside the loaded pages
+  onEditJob: (d: Delivery) => void; // closes this sheet and reopens it on the reissue step afterwards
+}) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [mode, setMode] = useState<'list' | 'new' | 'reissue'>('list');
+  const [reissue, setReissue] = useState<{ from: Invoice; jobs: Delivery[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // A reissue in progress survives the sheet closing while a job is edited
+  useEffect(() => { if (visible) { setMode((m) => (m === 'reissue' ? m : 'list')); load(); } }, [visible]);
+
+  async function load() {
+    if (!userId) return;
+    try { setInvoices(await fetchInvoices(userId)); }
+    catch (e: any) { Alert.alert('Could not load invoices', e?.message ?? 'Please try again when online'); }
+  }
+
+  async function issue(input: InvoiceInput) {
+    if (!userId) return;
+    try {
+      setBusy(true);
+      const inv = await createInvoice(userId, input);
+      await onLink(inv.deliveryIds, inv.id);
+      await load();
+      setMode('list');
+      await shareInvoicePdf(inv);
+    } catch (e: any) {
+      Alert.alert('Invoice failed', e?.message ?? 'Unable to create the invoice');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Credit in full and release the jobs so they can be corrected
+  async function credit(inv: Invoice) {
+    if (!userId) return;
+    const note = await createCreditNote(userId, inv);
+    await onLink(inv.deliveryIds, null);
+    return note;
+  }
+
+  function confirmCredit(inv: Invoice) {
+    Alert.alert(`Credit ${inv.number}?`, 'A credit note cancels this invoice in full and unlocks its jobs for editing.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Issue Credit Note', style: 'destructive', onPress: async () => {
+          try { setBusy(true); const note = await credit(inv); await load(); if (note) await shareInvoicePdf(note, inv); }
+          catch (e: any) { Alert.alert('Credit note failed', e?.message ?? 'Please try again'); }
+          finally { setBusy(false); }
+        },
+      },
+    ]);
+  }
+
+  // Reissue = credit the original, let the jobs be corrected, then invoice
+  // them again as they are at that point
+  function confirmReissue(inv: Invoice) {
+    Alert.alert(`Reissue ${inv.number}?`, 'The original is cancelled with a credit note. You can then correct its jobs before the new invoice is created.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reissue', onPress: async () => {
+          try {
+            setBusy(true);
+            await credit(inv);
+            await load();
+            setReissue({ from: inv, jobs: await loadJobs(inv.deliveryIds) });
+            setMode('reissue');
+          } catch (e: any) {
+            Alert.alert('Reissue failed', e?.message ?? 'Please try again');
+          } finally {
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  }
+
+  async function issueReplacement() {
+    if (!userId || !reissue) return;
+    const { from: inv } = reissue;
+    try {
+      setBusy(true);
+      // Read again so edits made since, here or on another device, are billed
+      const jobs = (await loadJobs(inv.deliveryIds)).filter((d) => !d.invoiceId);
+      if (!jobs.length) return Alert.alert('No jobs', 'None of these jobs can be invoiced any more.');
+      const next = await createInvoice(userId, { clientId: inv.clientId, clientName: inv.clientName, clientAddress: inv.clientAddress, periodFrom: inv.periodFrom, periodTo: inv.periodTo, deliveries: jobs });
+      await onLink(next.deliveryIds, next.id);
+      setReissue(null);
+      setMode('list');
+      await load();
+      await shareInvoicePdf(next);
+    } catch (e: any) {
+      Alert.alert('Reissue failed', e?.message ?? 'Please try again');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function leaveUnbilled() {
+    setReissue(null);
+    setMode('list');
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{mode === 'new' ? 'New Invoice' : mode === 'reissue' ? `Reissue ${reissue?.from.number ?? ''}` : 'Invoices'}</Text>
+          <TouchableOpacity onPress={mode === 'new' ? () => setMode('list') : onClose}>
+            <Text style={styles.btnGhostText}>{mode === 'new' ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {!userId ? (
+          <Text style={{ color: '#94a3b8', padding: 16 }}>Sign in to create invoices.</Text>
+        ) : mode === 'reissue' && reissue ? (
+          <ReissueStep
+            from={reissue.from}
+            // Edits saved since the step opened show straight away
+            jobs={reissue.jobs.map((j) => deliveries.find((d) => d.id === j.id) ?? j)}
+            busy={busy}
+            onEdit={onEditJob}
+            onIssue={issueReplacement}
+            onCancel={leaveUnbilled}
+          />
+        ) : mode === 'new' ? (
+          <NewInvoice userId={userId} deliveries={deliveries} clients={clients} busy={busy} onIssue={issue} />
+        ) : (
+          <FlatList
+            data={invoices}
+            keyExtractor={(i) => i.id}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+            ListHeaderComponent={
+              <TouchableOpacity onPress={() => setMode('new')} style={[styles.btnPrimary, { alignItems: 'center', marginBottom: 12 }]}>
+                <Text style={styles.btnPrimaryText}>＋ New Invoice</Text>
+              </TouchableOpacity>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyWrap}>
+                <Text style={styles.emptyTitle}>No invoices yet</Text>
+                <Text style={styles.emptySub}>Completed jobs can be invoiced per client.</Text>
+              </View>
+            }
+            renderItem={({ item }) => {
+              const original = item.creditsInvoiceId ? invoices.find((i) => i.id === item.creditsInvoiceId) : undefined;
+              return (
+                <View style={styles.card}>
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                    <Text style={styles.cardTitle}>{item.number} · {item.clientName}</Text>
+                    <Text style={{ color: 'white' }}>{currency(item.total)}</Text>
+                  </View>
+                  <Text style={styles.cardSub}>
+                    {item.issueDateISO} • {item.deliveryIds.length} job{item.deliveryIds.length === 1 ? '' : 's'}
+                    {item.kind === 'credit_note' ? ` • credits ${original?.number ?? 'invoice'}` : item.status === 'credited' ? ' • CREDITED' : ''}
+                  </Text>
+                  <View style={styles.cardActions}>
+                    <TouchableOpacity disabled={busy} onPress={() => shareInvoicePdf(item, original).catch((e) => Alert.alert('Share failed', e?.message ?? ''))} style={styles.btnGhost}>
+                      <Text style={styles.btnGhostText}>PDF</Text>
+                    </TouchableOpacity>
+                    {item.kind === 'invoice' && item.status === 'issued' ? (
+                      <>
+                        <TouchableOpacity disabled={busy} onPress={() => confirmReissue(item)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Reissue</Text></TouchableOpacity>
+                        <TouchableOpacity disabled={busy} onPress={() => confirmCredit(item)} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Credit</Text></TouchableOpacity>
+                      </>
+                    ) : null}
+                  </View>
+                </View>
+              );
+            }}
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// The credited invoice's jobs, now unlocked, before they're billed again
+function ReissueStep({ from, jobs, busy, onEdit, onIssue, onCancel }: {
+  from: Invoice;
+  jobs: Delivery[];
+  busy: boolean;
+  onEdit: (d: Delivery) => void;
+  onIssue: () => void | Promise<void>;
+  onCancel: () => void;
+}) {
+  const total = jobs.flatMap(invoiceLines).reduce((acc, l) => acc + l.amount, 0);
+  return (
+    <FlatList
+      data={jobs}
+      keyExtractor={(d) => d.id}
+      contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+      ListHeaderComponent={
+        <Text style={{ color: '#94a3b8', marginBottom: 12 }}>
+          {from.number} is credited. Correct any of its jobs, then issue the replacement · {jobs.length} job{jobs.length === 1 ? '' : 's'} · {currency(total)}
+        </Text>
+      }
+      ListEmptyComponent={<Text style={styles.emptySub}>None of this invoice&apos;s jobs could be found.</Text>}
+      renderItem={({ item }) => (
+        <View style={styles.exportRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: 'white' }}>{item.dateISO} · {item.reg}</Text>
+            <Text style={styles.cardSub}>{item.pickup} → {item.dropoff} · {currency((Number(item.earnings) || 0) + reimbursedTotal(item))}</Text>
+          </View>
+          <TouchableOpacity disabled={busy} onPress={() => onEdit(item)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Edit</Text></TouchableOpacity>
+        </View>
+      )}
+      ListFooterComponent={
+        <View style={[styles.cardActions, { marginTop: 16 }]}>
+          <TouchableOpacity disabled={busy} onPress={onIssue} style={styles.btnPrimary}>
+            <Text style={styles.btnPrimaryText}>{busy ? 'Creating…' : 'Issue Replacement'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity disabled={busy} onPress={onCancel} style={styles.btnGhost}><Text style={styles.btnGhostText}>Leave Unbilled</Text></TouchableOpacity>
+        </View>
+      }
+    />
+  );
+}
+
+function NewInvoice({ userId, deliveries, clients, busy, onIssue }: {
+  userId: string | null;
+  deliveries: Delivery[];
+  clients: Client[];
+  busy: boolean;
+  onIssue: (input: InvoiceInput) => void | Promise<void>;
+}) {
+  const week = getWeekRange(new Date());
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [clientName, setClientName] = useState('');
+  const [clientAddress, setClientAddress] = useState('');
+  const [from, setFrom] = useState(week.startISO);
+  const [to, setTo] = useState(week.endISO);
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [remote, setRemote] = useState<Delivery[] | null>(null);
+
+  // The period may reach past the loaded pages, so it's fetched whole
+  useEffect(() => {
+    if (!userId || !/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) return;
+    let live = true;
+    setRemote(null);
+    loadRange(userId, from, to)
+      .then(({ inRange }) => { if (live) setRemote(inRange); })
+      .catch(() => {});
+    return () => { live = false; };
+  }, [userId, from, to]);
+
+  // Delivered jobs, and called-off ones with a fee to charge, that aren't on another invoice
+  const candidates = useMemo(
+    () => (remote ? upsertById(remote, deliveries) : deliveries).filter((d) => canMove(d.status, 'invoiced') && (d.status === 'delivered' || Number(d.earnings) > 0) && !d.invoiceId && isWithin(d.dateISO, from, to) && (!clientId || d.clientId === clientId)),
+    [deliveries, remote, from, to, clientId],
+  );
+  const chosen = candidates.filter((d) => !excluded.has(d.id));
+  const total = chosen.flatMap(invoiceLines).reduce((acc, l) => acc + l.amount, 0);
+
+  function toggle(id: string) {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExcluded(next);
+  }
+
+  // Picking a saved client fills in the billing details and narrows the jobs to theirs
+  function pickClient(c: Client | null) {
+    setClientId(c?.id ?? null);
+    setClientName(c?.name ?? '');
+    setClientAddress(c?.address ?? '');
+    setExcluded(new Set());
+  }
+
+  function submit() {
+    if (!clientName.trim()) return Alert.alert('Missing client', 'Enter who the invoice is for.');
+    if (!chosen.length) return Alert.alert('No jobs', 'There are no completed, uninvoiced jobs in that range.');
+    onIssue({ clientId, clientName: clientName.trim(), clientAddress: clientAddress.trim(), periodFrom: from, periodTo: to, deliveries: chosen });
+  }
+
+  return (
+    <FlatList
+      data={candidates}
+      keyExtractor={(d) => d.id}
+      contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+      ListHeaderComponent={
+        <View style={[styles.form, { paddingHorizontal: 0, marginBottom: 12 }]}>
+          {clients.length ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { flexWrap: 'nowrap' }]}>
+              {[null, ...clients].map((c) => (
+                <Pressable key={c?.id ?? 'other'} onPress={() => pickClient(c)} style={[styles.chip, clientId === (c?.id ?? null) && styles.chipActive]}>
+                  <Text style={[styles.chipText, clientId === (c?.id ?? null) && styles.chipTextActive]}>{c?.name ?? 'OTHER'}</Text>
+                </Pressable>
+              ))}
+            </ScrollView>
+          ) : null}
+          <FormRow label="Client">
+            <TextInput value={clientName} onChangeText={setClientName} style={styles.input} placeholder="Agency or dealership" />
+          </FormRow>
+          <FormRow label="Client address">
+            <TextInput value={clientAddress} onChangeText={setClientAddress} style={[styles.input, { height: 64, textAlignVertical: 'top' }]} multiline placeholder="Billing address" />
+          </FormRow>
+          <View style={styles.customRange}>
+            <TextInput placeholder="From (YYYY-MM-DD)" value={from} onChangeText={setFrom} style={[styles.input, { flex: 1 }]} />
+            <TextInput placeholder="To (YYYY-MM-DD)" value={to} onChangeText={setTo} style={[styles.input, { flex: 1 }]} />
+          </View>
+          <Text style={{ color: '#94a3b8' }}>{chosen.length} of {candidates.length} completed jobs · {currency(total)}</Text>
+        </View>
+      }
+      ListEmptyComponent={<Text style={styles.emptySub}>No completed, uninvoiced jobs in this range.</Text>}
+      renderItem={({ item }) => {
+        const on = !excluded.has(item.id);
+        return (
+          <Pressable onPress={() => toggle(item.id)} style={styles.exportRow}>
+            <Ionicons name={on ? 'checkbox' : 'square-outline'} size={20} color={on ? '#22c55e' : '#64748b'} />
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: 'white' }}>{item.dateISO} · {item.reg}</Text>
+              <Text style={styles.cardSub}>{item.pickup} → {item.dropoff}</Text>
+            </View>
+            <Text style={{ color: 'white' }}>{currency((Number(item.earnings) || 0) + reimbursedTotal(item))}</Text>
+          </Pressable>
+        );
+      }}
+      ListFooterComponent={
+        <TouchableOpacity disabled={busy} onPress={submit} style={[styles.btnPrimary, { alignItems: 'center', marginTop: 16 }]}>
+          <Text style={styles.btnPrimaryText}>{busy ? 'Creating…' : 'Create Invoice'}</Text>
+        </TouchableOpacity>
+      }
+    />
+  );
+}
@@ -0,0 +1,287 @@
+import { ExpenseList } from '@/components/Expenses';
+import InspectionSummary from '@/components/Inspection';
+import SignatureSheet, { ProofSummary } from '@/components/Signature';
+import { styles } from '@/components/styles';
+import { Client, loadClients } from '@/lib/clients';
+import { Delivery, fetchByIds, loadCache } from '@/lib/deliveries';
+import { reimbursedTotal } from '@/lib/expenses';
+import { currency, dateLabel, dateTimeLabel, distance, timeLabel } from '@/lib/format';
+import { emptyBusiness, fetchBusinessDetails } from '@/lib/invoices';
+import { isOpen, NEEDS_REASON, nextStatuses, Status, statusColor, statusLabel, transition } from '@/lib/lifecycle';
+import { replayOutbox } from '@/lib/outbox';
+import { makeProof, Proof, shareHandoverReceipt } from '@/lib/proof';
+import { supabase } from '@/lib/supabase';
+import { mergeRemoteRows, saveJobs } from '@/lib/sync';
+import { actualAt, durationMinutes, emptyTimes, hoursLabel, scheduledAt, TIME_POINTS, TimePoint, waitingMinutes } from '@/lib/times';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, SafeAreaView, ScrollView, StatusBar, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// Invoiced jobs only change by crediting the invoice, never silently
+export function guardLocked(d: Delivery) {
+  if (!d.invoiceId) return false;
+  Alert.alert('Job is invoiced', 'Issue a credit note for its invoice (Invoices → Credit) to unlock this job.');
+  return true;
+}
+
+// -----------------------
+// Job details
+// -----------------------
+// A sheet over the list on phones, the side panel on desktop, and the
+// /deliveries/<id> screen a link opens.
+
+type JobDetailsProps = {
+  delivery: Delivery;
+  userId: string | null;
+  requireProof: boolean;
+  onUpdate: (patch: Partial<Delivery>) => void | Promise<void>;
+  onMove: (to: Status, reason?: string, patch?: Partial<Delivery>) => void | Promise<void>;
+  clientName: string; // for the handover receipt
+};
+
+export default function JobDetailsModal({ visible, onClose, delivery, ...rest }: Omit<JobDetailsProps, 'delivery'> & { visible: boolean; onClose: () => void; delivery: Delivery | null }) {
+  if (!delivery) return null;
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>Job Details</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <JobDetails key={delivery.id} delivery={delivery} {...rest} />
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// The details themselves, inside whichever of those is showing them
+export function JobDetails({ delivery, userId, requireProof, clientName, onUpdate, onMove }: JobDetailsProps) {
+  // 'complete' when the signature is the last step before marking the job delivered
+  const [signing, setSigning] = useState<'complete' | 'proof' | null>(null);
+  const [reasonFor, setReasonFor] = useState<Status | null>(null);
+  const [reason, setReason] = useState('');
+
+  function move(to: Status) {
+    if (to === 'delivered' && requireProof && !delivery.proof) return setSigning('complete');
+    if (NEEDS_REASON.includes(to)) { setReason(''); return setReasonFor(to); }
+    onMove(to);
+  }
+
+  async function confirmReason() {
+    if (!reasonFor) return;
+    await onMove(reasonFor, reason);
+    setReasonFor(null);
+  }
+
+  async function captured(name: string, signature: string | null) {
+    const proof: Proof = await makeProof(userId, delivery.id, name, signature);
+    await (signing === 'complete' ? onMove('delivered', undefined, { proof }) : onUpdate({ proof }));
+    setSigning(null);
+  }
+
+  // Stamps an actual time; null clears a mistaken tap
+  function stamp(point: TimePoint, at: string | null = new Date().toISOString()) {
+    const t = delivery.times ?? emptyTimes();
+    const actual = { ...t.actual };
+    if (at) actual[point] = at;
+    else delete actual[point];
+    onUpdate({ times: { ...t, actual } });
+  }
+
+  async function shareReceipt() {
+    try {
+      const business = userId ? await fetchBusinessDetails(userId).catch(() => emptyBusiness()) : emptyBusiness();
+      await shareHandoverReceipt(delivery, business, clientName);
+    } catch (e: any) {
+      Alert.alert('Receipt failed', e?.message ?? 'Unable to create the handover receipt');
+    }
+  }
+
+  const waiting = waitingMinutes(delivery);
+  const duration = durationMinutes(delivery);
+
+  return (
+    <>
+      <ScrollView contentContainerStyle={{ padding: 16, gap: 10 }}>
+        <Text style={{ color: 'white', fontWeight: '700' }}>{delivery.carMake} {delivery.carModel} · {delivery.reg}</Text>
+        <Text style={{ color: '#94a3b8' }}>{dateLabel(delivery.dateISO)} • {delivery.pickup} → {delivery.dropoff} • {delivery.distanceEstimated ? '≈' : ''}{distance(delivery.distanceKm)}{delivery.distanceEstimated ? ' (estimated)' : ''}</Text>
+        <Text style={{ color: '#94a3b8' }}>Gross {currency(delivery.earnings)} · Exp {currency(reimbursedTotal(delivery))} · Income {currency((delivery.earnings || 0) + reimbursedTotal(delivery))}</Text>
+        {delivery.rateLines?.length ? (
+          <View style={styles.rateBox}>
+            {delivery.rateLines.map((l, i) => (
+              <View key={i} style={styles.rateLine}>
+                <Text style={[{ color: '#cbd5e1', flex: 1 }, delivery.earningsManual && styles.rateStruck]}>{l.label}</Text>
+                <Text style={[{ color: '#cbd5e1' }, delivery.earningsManual && styles.rateStruck]}>{currency(l.amount)}</Text>
+              </View>
+            ))}
+            {delivery.earningsManual ? (
+              <View style={styles.rateLine}>
+                <Text style={{ color: 'white', flex: 1 }}>Manual override</Text>
+                <Text style={{ color: 'white' }}>{currency(delivery.earnings)}</Text>
+              </View>
+            ) : null}
+          </View>
+        ) : delivery.earningsManual ? <Text style={{ color: '#94a3b8' }}>Earnings entered manually.</Text> : null}
+        <ExpenseList items={delivery.expenses ?? []} />
+        {delivery.notes ? <Text style={{ color: '#cbd5e1' }}>{delivery.notes}</Text> : null}
+
+        <View style={{ height: 16 }} />
+        <Text style={{ color: 'white', fontWeight: '700' }}>Times</Text>
+        <View style={styles.rateBox}>
+          {TIME_POINTS.map(({ key, label }) => (
+            <View key={key} style={[styles.rateLine, { alignItems: 'center' }]}>
+              <Text style={{ color: '#cbd5e1', flex: 1 }}>{label}</Text>
+              {scheduledAt(delivery, key) ? <Text style={styles.chipText}>due {timeLabel(scheduledAt(delivery, key))}</Text> : null}
+              <Text style={{ color: 'white', minWidth: 48, textAlign: 'right' }}>{timeLabel(actualAt(delivery, key))}</Text>
+              {!delivery.invoiceId ? (
+                <TouchableOpacity onPress={() => stamp(key)} onLongPress={() => stamp(key, null)} style={styles.btnGhost}>
+                  <Text style={styles.btnGhostText}>Now</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          ))}
+        </View>
+        <Text style={{ color: '#94a3b8' }}>
+          Waiting {hoursLabel(waiting)}{duration ? ` · took ${hoursLabel(duration)}` : ''}{!delivery.invoiceId ? ' · long-press Now to clear' : ''}
+        </Text>
+
+        <View style={{ height: 16 }} />
+        <Text style={{ color: 'white', fontWeight: '700' }}>Status</Text>
+        <View style={[styles.rateLine, { alignItems: 'center' }]}>
+          <View style={[styles.legendDot, { backgroundColor: statusColor(delivery.status) }]} />
+          <Text style={{ color: 'white', flex: 1 }}>{statusLabel(delivery.status)}</Text>
+          {requireProof && !delivery.proof && isOpen(delivery.status) ? <Text style={styles.chipText}>signature needed to deliver</Text> : null}
+        </View>
+        {reasonFor ? (
+          <View style={styles.rateBox}>
+            <Text style={{ color: 'white' }}>Mark {statusLabel(reasonFor).toLowerCase()}</Text>
+            <Text style={styles.chipText}>
+              {reasonFor === 'aborted' || delivery.status !== 'booked' ? "You'd set off, so the client's abort fee applies." : 'Not yet under way, so nothing is charged.'}
+            </Text>
+            <TextInput value={reason} onChangeText={setReason} style={styles.input} placeholder="Reason (optional)" />
+            <View style={styles.cardActions}>
+              <TouchableOpacity onPress={confirmReason} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Confirm</Text></TouchableOpacity>
+              <TouchableOpacity onPress={() => setReasonFor(null)} style={styles.btnGhost}><Text style={styles.btnGhostText}>Back</Text></TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+            {nextStatuses(delivery.status).map((to, i) => NEEDS_REASON.includes(to) ? (
+              <TouchableOpacity key={to} onPress={() => move(to)} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>{statusLabel(to)}</Text></TouchableOpacity>
+            ) : (
+              <TouchableOpacity key={to} onPress={() => move(to)} style={i === 0 ? styles.btnPrimary : styles.btnGhost}>
+                <Text style={i === 0 ? styles.btnPrimaryText : styles.btnGhostText}>Mark {statusLabel(to)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {delivery.statusHistory?.length ? (
+          <View style={styles.rateBox}>
+            {delivery.statusHistory.map((c, i) => (
+              <View key={i} style={styles.rateLine}>
+                <Text style={{ color: '#cbd5e1', flex: 1 }}>{c.from ? `${statusLabel(c.from)} → ` : ''}{statusLabel(c.to)}{c.reason ? ` · ${c.reason}` : ''}</Text>
+                <Text style={styles.chipText}>{dateTimeLabel(c.at)}</Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+        {delivery.invoiceId ? <Text style={{ color: '#94a3b8' }}>Invoiced — locked until its invoice is credited.</Text> : null}
+
+        <View style={{ height: 16 }} />
+        <Text style={{ color: 'white', fontWeight: '700' }}>Proof of Delivery</Text>
+        {delivery.proof ? <ProofSummary proof={delivery.proof} /> : <Text style={{ color: '#94a3b8' }}>No signature yet.</Text>}
+        <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+          {!delivery.invoiceId ? (
+            <TouchableOpacity onPress={() => setSigning('proof')} style={styles.btnGhost}><Text style={styles.btnGhostText}>{delivery.proof ? 'Sign Again' : 'Capture Signature'}</Text></TouchableOpacity>
+          ) : null}
+          {delivery.proof ? (
+            <TouchableOpacity onPress={shareReceipt} style={styles.btnGhost}><Text style={styles.btnGhostText}>Share Receipt</Text></TouchableOpacity>
+          ) : null}
+        </View>
+
+        <View style={{ height: 16 }} />
+        <Text style={{ color: 'white', fontWeight: '700' }}>Vehicle Inspections</Text>
+        <InspectionSummary userId={userId} deliveryId={delivery.id} />
+      </ScrollView>
+      <SignatureSheet visible={!!signing} title={signing === 'complete' ? 'Sign to Complete' : 'Proof of Delivery'} onClose={() => setSigning(null)} onCapture={captured} />
+    </>
+  );
+}
+
+// The details as a screen of its own, for links. Read from the cache (and
+// the server, for a job older than the loaded pages) and saved through
+// lib/sync, as the list does.
+export function JobScreen({ id, onBack }: { id: string; onBack: () => void }) {
+  const [job, setJob] = useState<Delivery | null | undefined>(undefined); // null once it's known not to exist
+  const [userId, setUserId] = useState<string | null>(null);
+  const [clients, setClients] = useState<Client[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const uid = data.session?.user.id ?? null;
+      setUserId(uid);
+      setClients(await loadClients());
+      if (uid) {
+        try {
+          await mergeRemoteRows(uid, await fetchByIds(uid, [id]));
+        } catch {
+          // offline: the cache is all there is
+        }
+      }
+      setJob((await loadCache()).find((d) => d.id === id) ?? null);
+    })();
+  }, [id]);
+
+  async function save(next: Delivery, reprice: boolean) {
+    const { ops } = await saveJobs([next], { userId, clients, reprice });
+    if (userId && ops) replayOutbox(userId).catch(() => {});
+    // Re-read so a re-priced figure (waiting time, say) shows straight away
+    setJob((await loadCache()).find((d) => d.id === next.id) ?? next);
+  }
+
+  async function update(patch: Partial<Delivery>) {
+    if (!job || guardLocked(job)) return;
+    await save({ ...job, ...patch }, true);
+  }
+
+  // As on the list: an invoiced job can still be marked paid, unpriced
+  async function move(to: Status, reason?: string, patch: Partial<Delivery> = {}) {
+    if (!job || (to !== 'paid' && guardLocked(job))) return;
+    try {
+      const base = { ...job, ...patch };
+      await save({ ...base, ...transition(base, to, reason) }, to !== 'paid');
+    } catch (e: any) {
+      Alert.alert('Status not changed', e?.message ?? 'Please try again');
+    }
+  }
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <StatusBar backgroundColor="#0f172a" barStyle="light-content" />
+      <View style={styles.modalHeader}>
+        <TouchableOpacity onPress={onBack} style={styles.avatar}>
+          <Ionicons name="chevron-back" size={20} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.modalTitle}>Job Details</Text>
+        <View style={{ width: 36 }} />
+      </View>
+      {job ? (
+        <JobDetails
+          key={job.id}
+          delivery={job}
+          userId={userId}
+          requireProof={!!clients.find((c) => c.id === job.clientId)?.requireProof}
+          clientName={clients.find((c) => c.id === job.clientId)?.name ?? ''}
+          onUpdate={update}
+          onMove={move}
+        />
+      ) : job === null ? (
+        <View style={styles.emptyWrap}>
+          <Text style={styles.emptyTitle}>Job not found</Text>
+          <Text style={styles.emptySub}>It may not have synced to this device yet.</Text>
+        </View>
+      ) : <ActivityIndicator style={{ marginTop: 24 }} />}
+    </SafeAreaView>
+  );
+}
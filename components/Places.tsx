@@ -0,0 +1,218 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import UnitInput from '@/components/UnitInput';
+import { Delivery } from '@/lib/deliveries';
+import { currency, currencySymbol, distance, distanceUnit, rate } from '@/lib/format';
+import {
+  deletePlace, deleteRoute, emptyPlace, emptyRoute, Place, PlaceDraft, RouteDraft, RouteTemplate,
+  suggestPlaces, upsertPlace, upsertRoute,
+} from '@/lib/places';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Alert, FlatList, Modal, Pressable, SafeAreaView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Address book
+// -----------------------
+// Saved places and route templates, one tab each. Like clients these save
+// straight to the server and are cached for offline use.
+export default function PlacesModal({ visible, onClose, userId, places, routes, onChangePlaces, onChangeRoutes }: {
+  visible: boolean;
+  onClose: () => void;
+  userId: string | null;
+  places: Place[];
+  routes: RouteTemplate[];
+  onChangePlaces: (list: Place[]) => void;
+  onChangeRoutes: (list: RouteTemplate[]) => void;
+}) {
+  const [tab, setTab] = useState<'places' | 'routes'>('places');
+  const [place, setPlace] = useState<PlaceDraft | null>(null);
+  const [route, setRoute] = useState<RouteDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const editing = place ?? route;
+
+  async function save() {
+    if (!userId) return;
+    if (place && !place.name.trim()) return Alert.alert('Missing name', 'Please name this place.');
+    if (route && (!route.pickup.trim() || !route.dropoff.trim())) return Alert.alert('Missing route', 'Enter both the pickup and the drop-off.');
+    try {
+      setBusy(true);
+      if (place) onChangePlaces(await upsertPlace(userId, place));
+      if (route) onChangeRoutes(await upsertRoute(userId, route));
+      setPlace(null);
+      setRoute(null);
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message ?? 'Please try again when online');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function confirmRemove() {
+    const id = place?.id ?? route?.id;
+    if (!userId || !id) return;
+    Alert.alert(`Delete ${place ? place.name : route!.name}?`, 'Jobs already logged keep their addresses.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete', style: 'destructive', onPress: async () => {
+          try {
+            if (place) onChangePlaces(await deletePlace(userId, id));
+            else onChangeRoutes(await deleteRoute(userId, id));
+            setPlace(null);
+            setRoute(null);
+          } catch (e: any) { Alert.alert('Delete failed', e?.message ?? 'Please try again when online'); }
+        },
+      },
+    ]);
+  }
+
+  const back = () => { setPlace(null); setRoute(null); };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{place ? (place.id ? 'Edit Place' : 'New Place') : route ? (route.id ? 'Edit Route' : 'New Route') : 'Places & Routes'}</Text>
+          <TouchableOpacity onPress={editing ? back : onClose}>
+            <Text style={styles.btnGhostText}>{editing ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {!userId ? (
+          <Text style={{ color: '#94a3b8', padding: 16 }}>Sign in to save places and routes.</Text>
+        ) : editing ? (
+          <FlatList
+            data={[{ key: 'form' }]}
+            keyExtractor={(i) => i.key}
+            keyboardShouldPersistTaps="handled"
+            renderItem={() => (
+              <View style={styles.form}>
+                {place ? (
+                  <>
+                    <FormRow label="Name">
+                      <TextInput value={place.name} onChangeText={(v) => setPlace({ ...place, name: v })} style={styles.input} placeholder="Manheim Colnbrook" />
+                    </FormRow>
+                    <FormRow label="Address & postcode">
+                      <TextInput value={place.address} onChangeText={(v) => setPlace({ ...place, address: v })} style={[styles.input, { height: 64, textAlignVertical: 'top' }]} multiline placeholder="Colnbrook Bypass, SL3 0EL" />
+                    </FormRow>
+                  </>
+                ) : route ? (
+                  <>
+                    <FormRow label="Name (optional)">
+                      <TextInput value={route.name} onChangeText={(v) => setRoute({ ...route, name: v })} style={styles.input} placeholder="Auction → Leeds showroom" />
+                    </FormRow>
+                    <FormRow label="Pickup">
+                      <PlaceInput value={route.pickup} onChange={(v) => setRoute({ ...route, pickup: v })} places={places} history={[]} placeholder="Wembley" />
+                    </FormRow>
+                    <FormRow label="Drop-off">
+                      <PlaceInput value={route.dropoff} onChange={(v) => setRoute({ ...route, dropoff: v })} places={places} history={[]} placeholder="Croydon" />
+                    </FormRow>
+                    <FormRow label={`Distance (${distanceUnit()})`}>
+                      <UnitInput kind="distance" value={route.distanceKm} onChange={(v) => setRoute({ ...route, distanceKm: v ?? 0 })} placeholder="32.5" />
+                    </FormRow>
+                    <FormRow label={`Rate (${currencySymbol()}/${distanceUnit()})`}>
+                      <UnitInput kind="rate" value={route.ratePerKm} onChange={(v) => setRoute({ ...route, ratePerKm: v ?? 0 })} placeholder="0.75" />
+                    </FormRow>
+                    <FormRow label={`Usual Fee (${currencySymbol()})`}>
+                      <TextInput keyboardType="decimal-pad" value={String(route.fixedFee ?? '')} onChangeText={(v) => setRoute({ ...route, fixedFee: Number(v) || 0 })} style={styles.input} placeholder="10" />
+                    </FormRow>
+                  </>
+                ) : null}
+                <View style={[styles.cardActions, { marginTop: 16 }]}>
+                  <TouchableOpacity disabled={busy} onPress={save} style={styles.btnPrimary}>
+                    <Text style={styles.btnPrimaryText}>{busy ? 'Saving…' : editing.id ? 'Save Changes' : place ? 'Add Place' : 'Add Route'}</Text>
+                  </TouchableOpacity>
+                  {editing.id ? (
+                    <TouchableOpacity onPress={confirmRemove} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+                  ) : null}
+                </View>
+              </View>
+            )}
+          />
+        ) : (
+          <FlatList<Place | RouteTemplate>
+            data={tab === 'places' ? places : routes}
+            keyExtractor={(x) => x.id}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+            ListHeaderComponent={
+              <View style={{ gap: 12, marginBottom: 12 }}>
+                <View style={styles.chips}>
+                  {(['places', 'routes'] as const).map((t) => (
+                    <Pressable key={t} onPress={() => setTab(t)} style={[styles.chip, tab === t && styles.chipActive]}>
+                      <Text style={[styles.chipText, tab === t && styles.chipTextActive]}>{t.toUpperCase()}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <TouchableOpacity onPress={() => (tab === 'places' ? setPlace(emptyPlace()) : setRoute(emptyRoute()))} style={[styles.btnPrimary, { alignItems: 'center' }]}>
+                  <Text style={styles.btnPrimaryText}>＋ New {tab === 'places' ? 'Place' : 'Route'}</Text>
+                </TouchableOpacity>
+              </View>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyWrap}>
+                <Text style={styles.emptyTitle}>{tab === 'places' ? 'No saved places yet' : 'No routes yet'}</Text>
+                <Text style={styles.emptySub}>{tab === 'places' ? 'Save the auction sites and dealerships you visit.' : 'Save the runs you do every week.'}</Text>
+              </View>
+            }
+            renderItem={({ item }) => 'address' in item ? (
+              <TouchableOpacity onPress={() => setPlace({ ...item })} style={styles.card}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                {item.address ? <Text style={styles.cardSub}>{item.address}</Text> : null}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={() => setRoute({ ...item })} style={styles.card}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                <Text style={styles.cardSub}>{item.pickup} → {item.dropoff}</Text>
+                <Text style={styles.cardSub}>{distance(item.distanceKm)} · {rate(item.ratePerKm)} + {currency(item.fixedFee)}</Text>
+              </TouchableOpacity>
+            )}
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// -----------------------
+// Autocomplete field
+// -----------------------
+// Suggestions show under the field while it has focus; `onPick` fires only
+// when one is chosen, so a route can be looked up on an explicit choice.
+// Lists hosting it need keyboardShouldPersistTaps="handled".
+export function PlaceInput({ value, onChange, onPick, places, history, placeholder }: {
+  value: string;
+  onChange: (v: string) => void;
+  onPick?: (v: string) => void;
+  places: Place[];
+  history: Delivery[];
+  placeholder?: string;
+}) {
+  const [focused, setFocused] = useState(false);
+  const suggestions = focused ? suggestPlaces(value, places, history) : [];
+
+  return (
+    <View>
+      <TextInput
+        value={value}
+        onChangeText={(v) => { onChange(v); setFocused(true); }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setTimeout(() => setFocused(false), 150)} // let a tap on a suggestion land first
+        style={styles.input}
+        placeholder={placeholder}
+      />
+      {suggestions.length ? (
+        <View style={styles.suggestBox}>
+          {suggestions.map((s) => (
+            <Pressable key={s.key} onPress={() => { onChange(s.value); onPick?.(s.value); setFocused(false); }} style={styles.suggestRow}>
+              <Ionicons name={s.saved ? 'bookmark' : 'time-outline'} size={14} color={s.saved ? '#22c55e' : '#64748b'} />
+              <View style={{ flex: 1 }}>
+                <Text style={{ color: 'white' }} numberOfLines={1}>{s.label}</Text>
+                {s.detail ? <Text style={styles.chipText} numberOfLines={1}>{s.detail}</Text> : null}
+              </View>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
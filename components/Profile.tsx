@@ -0,0 +1,148 @@
+import { styles } from '@/components/styles';
+import { BusinessDetails, emptyBusiness, fetchBusinessDetails } from '@/lib/invoices';
+import { supabase } from '@/lib/supabase';
+import { Ionicons } from '@expo/vector-icons';
+import type { Session } from '@supabase/supabase-js';
+import Constants from 'expo-constants';
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, SafeAreaView, ScrollView, StatusBar, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Profile
+// -----------------------
+// Account, business details for invoices, and the way into settings. A
+// screen of its own so links and the back button reach it.
+export default function Profile({ onBack }: { onBack: () => void }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [username, setUsername] = useState('');
+  const [website, setWebsite] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState('');
+  const [business, setBusiness] = useState<BusinessDetails>(() => emptyBusiness());
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session ?? null));
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, sess) => setSession(sess));
+    return () => { sub.subscription.unsubscribe(); };
+  }, []);
+
+  useEffect(() => { if (session) getProfile(); }, [session]);
+
+  async function getProfile() {
+    try {
+      setLoading(true);
+      if (!session?.user) throw new Error('No user on the session!');
+      const { data, error, status } = await supabase
+        .from('profiles')
+        .select('username, website, avatar_url')
+        .eq('id', session.user.id)
+        .single();
+      if (error && status !== 406) throw error;
+      if (data) {
+        setUsername((data as any).username || '');
+        setWebsite((data as any).website || '');
+        setAvatarUrl((data as any).avatar_url || '');
+      }
+      setBusiness(await fetchBusinessDetails(session.user.id));
+    } catch (e: any) { Alert.alert(e.message ?? 'Failed to load profile'); }
+    finally { setLoading(false); }
+  }
+
+  async function updateProfile({ username, website, avatar_url }: { username: string; website: string; avatar_url: string; }) {
+    try {
+      setLoading(true);
+      if (!session?.user) throw new Error('No user on the session!');
+      const updates = {
+        id: session.user.id, username, website, avatar_url, updated_at: new Date(),
+        business_name: business.businessName,
+        business_address: business.businessAddress,
+        business_email: business.businessEmail,
+        business_phone: business.businessPhone,
+        bank_name: business.bankName,
+        sort_code: business.sortCode,
+        account_number: business.accountNumber,
+        vat_number: business.vatNumber,
+      };
+      const { error } = await supabase.from('profiles').upsert(updates);
+      if (error) throw error;
+      Alert.alert('Profile saved');
+    } catch (e: any) { Alert.alert(e.message ?? 'Failed to update profile'); }
+    finally { setLoading(false); }
+  }
+
+  async function signIn() {
+    try { setLoading(true); const { error } = await supabase.auth.signInWithPassword({ email, password }); if (error) throw error; }
+    catch (e: any) { Alert.alert(e.message ?? 'Sign-in failed'); }
+    finally { setLoading(false); }
+  }
+  async function signUp() {
+    try { setLoading(true); const { error } = await supabase.auth.signUp({ email, password }); if (error) throw error; Alert.alert('Check your email to confirm your account.'); }
+    catch (e: any) { Alert.alert(e.message ?? 'Sign-up failed'); }
+    finally { setLoading(false); }
+  }
+  async function signOut() { await supabase.auth.signOut(); }
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <StatusBar backgroundColor="#0f172a" barStyle="light-content" />
+      <View style={styles.modalHeader}>
+        <TouchableOpacity onPress={onBack} style={styles.avatar}>
+          <Ionicons name="chevron-back" size={20} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.modalTitle}>Profile</Text>
+        <View style={{ width: 36 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={{ padding: 16, gap: 12, flexGrow: 1 }}>
+       
+          {!session ? (
+            <>
+              <Text style={{ color: '#94a3b8' }}>Sign in or create an account</Text>
+              <TextInput placeholder="Email" autoCapitalize="none" keyboardType="email-address" value={email} onChangeText={setEmail} style={styles.input} />
+              <TextInput placeholder="Password" secureTextEntry value={password} onChangeText={setPassword} style={styles.input} />
+              <TouchableOpacity disabled={loading} onPress={signIn} style={styles.btnPrimary}><Text style={styles.btnPrimaryText}>{loading ? 'Loading...' : 'Sign In'}</Text></TouchableOpacity>
+              <TouchableOpacity disabled={loading} onPress={signUp} style={styles.btnGhost}><Text style={styles.btnGhostText}>Sign Up</Text></TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={{ color: '#94a3b8' }}>Signed in as {session.user.email}</Text>
+              <TextInput placeholder="Username" value={username} onChangeText={setUsername} style={styles.input} />
+              <TextInput placeholder="Website" value={website} onChangeText={setWebsite} style={styles.input} />
+              <Text style={[styles.formLabel, { marginTop: 8 }]}>Business details (shown on invoices)</Text>
+              <TextInput placeholder="Business name" value={business.businessName} onChangeText={(v) => setBusiness({ ...business, businessName: v })} style={styles.input} />
+              <TextInput placeholder="Business address" value={business.businessAddress} onChangeText={(v) => setBusiness({ ...business, businessAddress: v })} style={[styles.input, { height: 64, textAlignVertical: 'top' }]} multiline />
+              <TextInput placeholder="Billing email" autoCapitalize="none" keyboardType="email-address" value={business.businessEmail} onChangeText={(v) => setBusiness({ ...business, businessEmail: v })} style={styles.input} />
+              <TextInput placeholder="Phone" keyboardType="phone-pad" value={business.businessPhone} onChangeText={(v) => setBusiness({ ...business, businessPhone: v })} style={styles.input} />
+              <TextInput placeholder="Bank name" value={business.bankName} onChangeText={(v) => setBusiness({ ...business, bankName: v })} style={styles.input} />
+              <View style={styles.customRange}>
+                <TextInput placeholder="Sort code" keyboardType="number-pad" value={business.sortCode} onChangeText={(v) => setBusiness({ ...business, sortCode: v })} style={[styles.input, { flex: 1 }]} />
+                <TextInput placeholder="Account number" keyboardType="number-pad" value={business.accountNumber} onChangeText={(v) => setBusiness({ ...business, accountNumber: v })} style={[styles.input, { flex: 1 }]} />
+              </View>
+              <TextInput placeholder="VAT number (if registered)" value={business.vatNumber} onChangeText={(v) => setBusiness({ ...business, vatNumber: v })} style={styles.input} />
+              <TouchableOpacity disabled={loading} onPress={() => updateProfile({ username, website, avatar_url: avatarUrl })} style={styles.btnPrimary}><Text style={styles.btnPrimaryText}>{loading ? 'Loading ...' : 'Update'}</Text></TouchableOpacity>
+              <TouchableOpacity onPress={signOut} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Sign Out</Text></TouchableOpacity>
+            </>
+          )}
+
+          <TouchableOpacity onPress={() => router.push('/settings')} style={[styles.btnGhost, { alignSelf: 'flex-start', marginTop: 8 }]}>
+            <Text style={styles.btnGhostText}>Settings — units, job defaults, totals bar</Text>
+          </TouchableOpacity>
+
+          {/* Privacy Policy link */}
+          <TouchableOpacity onPress={() => Linking.openURL('https://www.freeprivacypolicy.com/live/ca9ad14a-e9c1-431c-b219-faebbbae4074')} style={{ marginTop: 20 }}>
+            <Text style={{ color: '#3b82f6', textDecorationLine: 'underline' }}>Privacy Policy</Text>
+          </TouchableOpacity>
+       
+
+        {/* App version at the bottom */}
+        <Text style={{ color: '#94a3b8', textAlign: 'center', marginTop: 'auto' }}>
+          Version {Constants.expoConfig?.version || '1.0.0'}
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,341 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import { Client } from '@/lib/clients';
+import { Delivery } from '@/lib/deliveries';
+import { currency, currencySymbol, dateLabel } from '@/lib/format';
+import { fetchInvoices, Invoice } from '@/lib/invoices';
+import { autoAllocate, balancesByClient, deletePayment, DueState, emptyPayment, methodLabel, Payment, PAYMENT_METHODS, PaymentDraft, Receivable, receivables, unallocated, upsertPayment } from '@/lib/payments';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, Modal, Pressable, SafeAreaView, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const STATE_COLOR: Record<DueState, string> = { not_due: '#94a3b8', due_soon: '#fbbf24', overdue: '#f87171' };
+const STATE_LABEL: Record<DueState, string> = { not_due: 'due', due_soon: 'due soon', overdue: 'overdue since' };
+
+// -----------------------
+// Receivables
+// -----------------------
+// What each client still owes, by when, and the payments recorded against
+// it. Saving or removing a payment hands the jobs it touched to `onSettle`,
+// which moves fully paid ones to paid (and back) through the outbox.
+export default function ReceivablesModal({ visible, onClose, userId, deliveries, clients, payments, onChange, onSettle }: {
+  visible: boolean;
+  onClose: () => void;
+  userId: string | null;
+  deliveries: Delivery[];
+  clients: Client[];
+  payments: Payment[];
+  onChange: (list: Payment[]) => void;
+  onSettle: (deliveryIds: string[], payments: Payment[]) => Promise<void>;
+}) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [draft, setDraft] = useState<PaymentDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Invoice dates start the payment terms; offline, terms run from the job date
+  useEffect(() => {
+    if (!visible || !userId) return;
+    setDraft(null);
+    fetchInvoices(userId).then(setInvoices).catch(() => {});
+  }, [visible, userId]);
+
+  const invoiceDates = useMemo(() => Object.fromEntries(invoices.map((i) => [i.id, i.issueDateISO])), [invoices]);
+  const items = useMemo(() => receivables(deliveries, payments, clients, { invoiceDates }), [deliveries, payments, clients, invoiceDates]);
+  const groups = useMemo(() => balancesByClient(items, payments), [items, payments]);
+  const sum = (k: 'outstanding' | 'dueSoon' | 'overdue' | 'onAccount') => groups.reduce((acc, g) => acc + g[k], 0);
+
+  function clientName(id: string | null) { return clients.find((c) => c.id === id)?.name ?? 'No client'; }
+
+  function startPayment(clientId: string | null) { setDraft({ ...emptyPayment(), clientId }); }
+
+  async function save(input: PaymentDraft, before: string[]) {
+    if (!userId) return;
+    try {
+      setBusy(true);
+      const list = await upsertPayment(userId, input);
+      onChange(list);
+      await onSettle([...new Set([...before, ...input.allocations.map((a) => a.deliveryId)])], list);
+      setDraft(null);
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message ?? 'Unable to save the payment');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function confirmRemove(p: Payment) {
+    Alert.alert('Delete this payment?', 'Jobs it settled go back to owing what it covered.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete', style: 'destructive', onPress: async () => {
+          if (!userId) return;
+          try {
+            const list = await deletePayment(userId, p.id);
+            onChange(list);
+            await onSettle(p.allocations.map((a) => a.deliveryId), list);
+            setDraft(null);
+          } catch (e: any) {
+            Alert.alert('Delete failed', e?.message ?? 'Unable to delete the payment');
+          }
+        },
+      },
+    ]);
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{draft ? (draft.id ? 'Edit Payment' : 'Record Payment') : 'Receivables'}</Text>
+          <TouchableOpacity onPress={draft ? () => setDraft(null) : onClose}>
+            <Text style={styles.btnGhostText}>{draft ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {!userId ? (
+          <Text style={{ color: '#94a3b8', padding: 16 }}>Sign in to record payments.</Text>
+        ) : draft ? (
+          <PaymentForm
+            draft={draft}
+            setDraft={setDraft}
+            deliveries={deliveries}
+            clients={clients}
+            payments={payments}
+            invoices={invoices}
+            invoiceDates={invoiceDates}
+            busy={busy}
+            onSave={save}
+            onRemove={confirmRemove}
+          />
+        ) : (
+          <FlatList
+            data={groups}
+            keyExtractor={(g) => g.clientId ?? 'none'}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+            ListHeaderComponent={
+              <View style={{ gap: 12, marginBottom: 12 }}>
+                <TouchableOpacity onPress={() => startPayment(null)} style={[styles.btnPrimary, { alignItems: 'center' }]}>
+                  <Text style={styles.btnPrimaryText}>＋ Record Payment</Text>
+                </TouchableOpacity>
+                <View style={styles.statGrid}>
+                  <Tile label="Owed to you" value={currency(sum('outstanding'))} />
+                  <Tile label="Due soon" value={currency(sum('dueSoon'))} />
+                  <Tile label="Overdue" value={currency(sum('overdue'))} />
+                  <Tile label="On account" value={currency(sum('onAccount'))} />
+                </View>
+              </View>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyWrap}>
+                <Text style={styles.emptyTitle}>Nothing owed</Text>
+                <Text style={styles.emptySub}>Delivered jobs show here until they are paid.</Text>
+              </View>
+            }
+            renderItem={({ item: g }) => (
+              <Pressable onPress={() => startPayment(g.clientId)} style={styles.card}>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                  <Text style={styles.cardTitle}>{clientName(g.clientId)}</Text>
+                  <Text style={{ color: 'white' }}>{currency(g.outstanding)}</Text>
+                </View>
+                <Text style={styles.cardSub}>
+                  {[g.overdue ? `${currency(g.overdue)} overdue` : '', g.dueSoon ? `${currency(g.dueSoon)} due soon` : '', g.onAccount ? `${currency(g.onAccount)} on account` : ''].filter(Boolean).join(' · ') || 'Nothing due yet'}
+                </Text>
+                {g.items.map((r) => <ReceivableRow key={r.delivery.id} item={r} />)}
+              </Pressable>
+            )}
+            ListFooterComponent={
+              payments.length ? (
+                <View style={{ marginTop: 12 }}>
+                  <Text style={styles.formLabel}>Payments received</Text>
+                  {payments.map((p) => (
+                    <Pressable key={p.id} onPress={() => setDraft({ ...p })} style={styles.card}>
+                      <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                        <Text style={styles.cardTitle}>{clientName(p.clientId)}</Text>
+                        <Text style={{ color: '#22c55e' }}>{currency(p.amount)}</Text>
+                      </View>
+                      <Text style={styles.cardSub}>
+                        {dateLabel(p.dateISO)} · {methodLabel(p.method)}{p.reference ? ` · ${p.reference}` : ''} · {p.allocations.length} job{p.allocations.length === 1 ? '' : 's'}
+                        {unallocated(p) > 0 ? ` · ${currency(unallocated(p))} unmatched` : ''}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              ) : null
+            }
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.statTile}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={styles.statValue}>{value}</Text>
+    </View>
+  );
+}
+
+function ReceivableRow({ item }: { item: Receivable }) {
+  const d = item.delivery;
+  return (
+    <View style={[styles.rateLine, { alignItems: 'center', marginTop: 6 }]}>
+      <View style={{ flex: 1 }}>
+        <Text style={{ color: 'white' }}>{dateLabel(d.dateISO)} · {d.reg}</Text>
+        <Text style={[styles.cardSub, { color: STATE_COLOR[item.state] }]}>
+          {STATE_LABEL[item.state]} {dateLabel(item.dueISO)}{item.paid ? ` · ${currency(item.paid)} of ${currency(item.amount)} paid` : ''}
+        </Text>
+      </View>
+      <Text style={{ color: 'white' }}>{currency(item.balance)}</Text>
+    </View>
+  );
+}
+
+// One payment: who paid, how much, and which jobs it covers. Picking an
+// invoice matches the payment across that invoice's jobs.
+function PaymentForm({ draft, setDraft, deliveries, clients, payments, invoices, invoiceDates, busy, onSave, onRemove }: {
+  draft: PaymentDraft;
+  setDraft: (d: PaymentDraft) => void;
+  deliveries: Delivery[];
+  clients: Client[];
+  payments: Payment[];
+  invoices: Invoice[];
+  invoiceDates: Record<string, string>;
+  busy: boolean;
+  onSave: (input: PaymentDraft, before: string[]) => void | Promise<void>;
+  onRemove: (p: Payment) => void;
+}) {
+  // Balances as they'd be without this payment, so editing one shows what it can cover
+  const original = useMemo(() => payments.find((p) => p.id === draft.id) ?? null, [payments, draft.id]);
+  const before = useMemo(() => original?.allocations.map((a) => a.deliveryId) ?? [], [original]);
+  const others = useMemo(() => payments.filter((p) => p.id !== draft.id), [payments, draft.id]);
+  const rows = useMemo(
+    () => receivables(deliveries.filter((d) => (d.clientId ?? null) === draft.clientId), others, clients, { invoiceDates, reopen: before }),
+    [deliveries, others, clients, invoiceDates, before, draft.clientId],
+  );
+  const openInvoices = invoices.filter((i) => i.kind === 'invoice' && i.status === 'issued' && i.clientId === draft.clientId && rows.some((r) => i.deliveryIds.includes(r.delivery.id)));
+
+  const amountOf = (id: string) => draft.allocations.find((a) => a.deliveryId === id)?.amount ?? 0;
+  const allocated = draft.allocations.reduce((acc, a) => acc + (Number(a.amount) || 0), 0);
+  const left = Math.round((Number(draft.amount) - allocated) * 100) / 100;
+  const set = (k: keyof PaymentDraft, v: any) => setDraft({ ...draft, [k]: v });
+
+  function pickClient(id: string | null) { setDraft({ ...draft, clientId: id, invoiceId: null, allocations: [] }); }
+
+  function pickInvoice(inv: Invoice | null) {
+    const scope = inv ? rows.filter((r) => inv.deliveryIds.includes(r.delivery.id)) : rows;
+    const owed = scope.reduce((acc, r) => acc + r.balance, 0);
+    const amount = Number(draft.amount) || owed;
+    setDraft({ ...draft, invoiceId: inv?.id ?? null, amount, reference: draft.reference || inv?.number || '', allocations: autoAllocate(amount, scope) });
+  }
+
+  // Oldest due first across the client's jobs, or the chosen invoice's
+  function autoMatch() {
+    const inv = invoices.find((i) => i.id === draft.invoiceId);
+    set('allocations', autoAllocate(Number(draft.amount) || 0, inv ? rows.filter((r) => inv.deliveryIds.includes(r.delivery.id)) : rows));
+  }
+
+  function setAllocation(id: string, amount: number) {
+    const rest = draft.allocations.filter((a) => a.deliveryId !== id);
+    set('allocations', amount > 0 ? [...rest, { deliveryId: id, amount }] : rest);
+  }
+
+  function toggle(r: Receivable) {
+    if (amountOf(r.delivery.id)) return setAllocation(r.delivery.id, 0);
+    setAllocation(r.delivery.id, Math.max(0, Math.min(r.balance, left > 0 ? left : r.balance)));
+  }
+
+  function submit() {
+    if (!(Number(draft.amount) > 0)) return Alert.alert('Missing amount', 'Enter how much was paid.');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.dateISO)) return Alert.alert('Missing date', 'Enter the date it was paid (YYYY-MM-DD).');
+    if (left < 0) return Alert.alert('Over-allocated', `The jobs add up to ${currency(allocated)}, more than the ${currency(Number(draft.amount))} paid.`);
+    const over = draft.allocations.find((a) => a.amount > (rows.find((r) => r.delivery.id === a.deliveryId)?.balance ?? 0) + 0.005);
+    if (over) return Alert.alert('Too much on one job', 'A job can\'t be paid more than it still owes.');
+    onSave(draft, before);
+  }
+
+  return (
+    <FlatList
+      data={rows}
+      keyExtractor={(r) => r.delivery.id}
+      contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+      keyboardShouldPersistTaps="handled"
+      ListHeaderComponent={
+        <View style={[styles.form, { paddingHorizontal: 0, marginBottom: 12 }]}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { flexWrap: 'nowrap' }]}>
+            {[...clients, null].map((c) => (
+              <Pressable key={c?.id ?? 'none'} onPress={() => pickClient(c?.id ?? null)} style={[styles.chip, draft.clientId === (c?.id ?? null) && styles.chipActive]}>
+                <Text style={[styles.chipText, draft.clientId === (c?.id ?? null) && styles.chipTextActive]}>{c?.name ?? 'NO CLIENT'}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+          <View style={styles.customRange}>
+            <TextInput keyboardType="decimal-pad" value={draft.amount ? String(draft.amount) : ''} onChangeText={(v) => set('amount', Number(v) || 0)} style={[styles.input, { flex: 1 }]} placeholder={`Amount (${currencySymbol()})`} />
+            <TextInput value={draft.dateISO} onChangeText={(v) => set('dateISO', v)} style={[styles.input, { flex: 1 }]} placeholder="Paid on (YYYY-MM-DD)" />
+          </View>
+          <View style={styles.chips}>
+            {PAYMENT_METHODS.map((m) => (
+              <Pressable key={m.key} onPress={() => set('method', m.key)} style={[styles.chip, draft.method === m.key && styles.chipActive]}>
+                <Text style={[styles.chipText, draft.method === m.key && styles.chipTextActive]}>{m.label.toUpperCase()}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <FormRow label="Remittance reference">
+            <TextInput value={draft.reference} onChangeText={(v) => set('reference', v)} style={styles.input} placeholder="e.g. BACS 004512 or INV-0007" autoCapitalize="characters" />
+          </FormRow>
+          {openInvoices.length ? (
+            <FormRow label="Against invoice">
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chips, { flexWrap: 'nowrap' }]}>
+                {[null, ...openInvoices].map((i) => (
+                  <Pressable key={i?.id ?? 'jobs'} onPress={() => pickInvoice(i)} style={[styles.chip, draft.invoiceId === (i?.id ?? null) && styles.chipActive]}>
+                    <Text style={[styles.chipText, draft.invoiceId === (i?.id ?? null) && styles.chipTextActive]}>{i?.number ?? 'JOBS'}</Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </FormRow>
+          ) : null}
+          <View style={[styles.rateLine, { alignItems: 'center' }]}>
+            <Text style={{ color: left < 0 ? '#f87171' : '#94a3b8', flex: 1 }}>
+              {currency(allocated)} matched · {left >= 0 ? `${currency(left)} on account` : `${currency(-left)} too much`}
+            </Text>
+            <TouchableOpacity onPress={autoMatch} style={styles.btnGhost}><Text style={styles.btnGhostText}>Auto-match</Text></TouchableOpacity>
+          </View>
+        </View>
+      }
+      ListEmptyComponent={<Text style={styles.emptySub}>Nothing owed by this client. The payment is kept on account.</Text>}
+      renderItem={({ item: r }) => {
+        const amount = amountOf(r.delivery.id);
+        return (
+          <View style={styles.exportRow}>
+            <Pressable onPress={() => toggle(r)}>
+              <Ionicons name={amount ? 'checkbox' : 'square-outline'} size={20} color={amount ? '#22c55e' : '#64748b'} />
+            </Pressable>
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: 'white' }}>{dateLabel(r.delivery.dateISO)} · {r.delivery.reg}</Text>
+              <Text style={[styles.cardSub, { color: STATE_COLOR[r.state] }]}>{currency(r.balance)} owed · {STATE_LABEL[r.state]} {dateLabel(r.dueISO)}</Text>
+            </View>
+            <TextInput
+              keyboardType="decimal-pad"
+              value={amount ? String(amount) : ''}
+              onChangeText={(v) => setAllocation(r.delivery.id, Number(v) || 0)}
+              style={[styles.input, { width: 90 }]}
+              placeholder="0"
+            />
+          </View>
+        );
+      }}
+      ListFooterComponent={
+        <View style={[styles.cardActions, { marginTop: 16 }]}>
+          <TouchableOpacity disabled={busy} onPress={submit} style={styles.btnPrimary}>
+            <Text style={styles.btnPrimaryText}>{busy ? 'Saving…' : draft.id ? 'Save Changes' : 'Record Payment'}</Text>
+          </TouchableOpacity>
+          {original ? (
+            <TouchableOpacity onPress={() => onRemove(original)} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete</Text></TouchableOpacity>
+          ) : null}
+        </View>
+      }
+    />
+  );
+}
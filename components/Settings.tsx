@@ -0,0 +1,130 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import UnitInput from '@/components/UnitInput';
+import { useSettings } from '@/hooks/useSettings';
+import { DATE_FILTERS } from '@/lib/filters';
+import { currency, currencySymbol, dateLabel, distance, distanceUnit, iso, rate } from '@/lib/format';
+import { START_STATUSES, statusLabel } from '@/lib/lifecycle';
+import { CURRENCIES, DistanceUnit, LOCALES, saveSettings, STAT_TILES, WEEKDAYS } from '@/lib/settings';
+import { RETENTION_DAYS } from '@/lib/trash';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Pressable, SafeAreaView, ScrollView, StatusBar, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const chip = (active: boolean, label: string, onPress: () => void) => (
+  <Pressable key={label} onPress={onPress} style={[styles.chip, active && styles.chipActive]}>
+    <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+  </Pressable>
+);
+
+// -----------------------
+// Settings
+// -----------------------
+// Every change saves on the spot: to this device first, then to the account.
+export default function SettingsScreen({ onBack }: { onBack: () => void }) {
+  const settings = useSettings();
+  const [fee, setFee] = useState(String(settings.defaultFixedFee));
+
+  useEffect(() => { setFee(String(settings.defaultFixedFee)); }, [settings.defaultFixedFee]);
+
+  const toggleTile = (key: typeof STAT_TILES[number]['key'], on: boolean) =>
+    saveSettings({ statTiles: on ? STAT_TILES.map((t) => t.key).filter((k) => k === key || settings.statTiles.includes(k)) : settings.statTiles.filter((k) => k !== key) });
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <StatusBar backgroundColor="#0f172a" barStyle="light-content" />
+      <View style={styles.modalHeader}>
+        <TouchableOpacity onPress={onBack} style={styles.avatar}>
+          <Ionicons name="chevron-back" size={20} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.modalTitle}>Settings</Text>
+        <View style={{ width: 36 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={[styles.form, { paddingBottom: 32 }]}>
+        <Text style={styles.cardTitle}>Units & formatting</Text>
+        <DisplaySettingsForm />
+
+        <Text style={[styles.cardTitle, { marginTop: 12 }]}>New job defaults</Text>
+        <FormRow label={`Rate (${currencySymbol()}/${distanceUnit()})`}>
+          <UnitInput kind="rate" value={settings.defaultRatePerKm} onChange={(v) => saveSettings({ defaultRatePerKm: v ?? 0 })} placeholder="0.75" />
+        </FormRow>
+        <FormRow label={`Fixed Fee (${currencySymbol()})`}>
+          <TextInput
+            keyboardType="decimal-pad"
+            value={fee}
+            onChangeText={setFee}
+            onBlur={() => saveSettings({ defaultFixedFee: Number(fee) || 0 })}
+            style={styles.input}
+            placeholder="10"
+          />
+        </FormRow>
+        <FormRow label="Status">
+          <View style={styles.chips}>
+            {START_STATUSES.map((st) => chip(settings.defaultStatus === st, statusLabel(st).toUpperCase(), () => saveSettings({ defaultStatus: st })))}
+          </View>
+        </FormRow>
+        <Text style={styles.cardSub}>A client&apos;s own rates still replace these when you pick one.</Text>
+
+        <Text style={[styles.cardTitle, { marginTop: 12 }]}>Job list</Text>
+        <FormRow label="Week starts on">
+          <View style={styles.chips}>
+            {WEEKDAYS.map((day, i) => chip(settings.weekStartsOn === i, day.slice(0, 3).toUpperCase(), () => saveSettings({ weekStartsOn: i })))}
+          </View>
+        </FormRow>
+        <FormRow label="Show on opening">
+          <View style={styles.chips}>
+            {DATE_FILTERS.filter((k) => k !== 'custom').map((k) => chip(settings.defaultDateFilter === k, k.toUpperCase(), () => saveSettings({ defaultDateFilter: k })))}
+          </View>
+        </FormRow>
+        <FormRow label="Totals bar">
+          <View style={styles.rateBox}>
+            {STAT_TILES.map((t) => (
+              <View key={t.key} style={[styles.rateLine, { alignItems: 'center' }]}>
+                <Text style={{ color: 'white', flex: 1 }}>{t.label}</Text>
+                <Switch value={settings.statTiles.includes(t.key)} onValueChange={(on) => { toggleTile(t.key, on); }} />
+              </View>
+            ))}
+          </View>
+        </FormRow>
+        {settings.statTiles.length > 4 ? <Text style={styles.cardSub}>More than four tiles may be cramped on a phone.</Text> : null}
+
+        <Text style={[styles.cardTitle, { marginTop: 12 }]}>Trash</Text>
+        <FormRow label="Keep deleted jobs for">
+          <View style={styles.chips}>
+            {RETENTION_DAYS.map((n) => chip(settings.trashRetentionDays === n, n === 365 ? '1 YEAR' : `${n} DAYS`, () => saveSettings({ trashRetentionDays: n })))}
+          </View>
+        </FormRow>
+        <Text style={styles.cardSub}>After that they are deleted for good, on every device.</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// A preview line shows what the current choices look like
+function DisplaySettingsForm() {
+  const settings = useSettings();
+
+  return (
+    <View style={{ gap: 12 }}>
+      <FormRow label="Currency">
+        <View style={styles.chips}>
+          {CURRENCIES.map((c) => chip(settings.currency === c, c, () => saveSettings({ currency: c })))}
+        </View>
+      </FormRow>
+      <FormRow label="Distance">
+        <View style={styles.chips}>
+          {([['km', 'KILOMETRES'], ['mi', 'MILES']] as [DistanceUnit, string][]).map(([u, label]) => chip(settings.distanceUnit === u, label, () => saveSettings({ distanceUnit: u })))}
+        </View>
+      </FormRow>
+      <FormRow label="Number & date format">
+        <View style={styles.chips}>
+          {LOCALES.map((l) => chip(settings.locale === l.key, l.label, () => saveSettings({ locale: l.key })))}
+        </View>
+      </FormRow>
+      <Text style={styles.cardSub}>
+        e.g. {dateLabel(iso(new Date()))} · {distance(160.9344)} at {rate(0.5)} · {currency(1234.5)}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,116 @@
+import FormRow from '@/components/FormRow';
+import { styles } from '@/components/styles';
+import { hasSignature, Proof, signatureUri } from '@/lib/proof';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Modal, Platform, SafeAreaView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { WebView } from 'react-native-webview';
+
+// Minimal canvas pad; the page posts back a PNG data URL ('' when blank)
+const PAD_HTML = `<!DOCTYPE html><html><head>
+<meta name="viewport" content="width=device-width,initial-scale=1,maximum-scale=1,user-scalable=no"/>
+<style>html,body{margin:0;height:100%;background:#fff;touch-action:none;overflow:hidden}canvas{width:100%;height:100%;display:block}</style>
+</head><body><canvas id="c"></canvas><script>
+var c=document.getElementById('c'),x=c.getContext('2d'),down=false,dirty=false;
+function fit(){var r=window.devicePixelRatio||1;c.width=c.clientWidth*r;c.height=c.clientHeight*r;x.setTransform(r,0,0,r,0,0);x.lineWidth=2.5;x.lineCap='round';x.lineJoin='round';x.strokeStyle='#111';}
+fit();
+function at(e){var t=e.touches?e.touches[0]:e,b=c.getBoundingClientRect();return[t.clientX-b.left,t.clientY-b.top];}
+function start(e){e.preventDefault();down=true;var p=at(e);x.beginPath();x.moveTo(p[0],p[1]);}
+function move(e){if(!down)return;e.preventDefault();var p=at(e);x.lineTo(p[0],p[1]);x.stroke();dirty=true;}
+function end(){down=false;}
+c.addEventListener('touchstart',start,{passive:false});c.addEventListener('touchmove',move,{passive:false});c.addEventListener('touchend',end);
+c.addEventListener('mousedown',start);c.addEventListener('mousemove',move);window.addEventListener('mouseup',end);
+window.clearPad=function(){x.clearRect(0,0,c.width,c.height);dirty=false;};
+window.readPad=function(){window.ReactNativeWebView.postMessage(dirty?c.toDataURL('image/png'):'');};
+</script></body></html>`;
+
+// -----------------------
+// Capture
+// -----------------------
+// The WebView isn't available on web, where only the recipient's name is taken.
+export default function SignatureSheet({ visible, title, onClose, onCapture }: {
+  visible: boolean;
+  title: string;
+  onClose: () => void;
+  onCapture: (recipientName: string, signature: string | null) => void | Promise<void>;
+}) {
+  const pad = useRef<WebView>(null);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const canSign = Platform.OS !== 'web';
+
+  useEffect(() => { if (visible) setName(''); }, [visible]);
+
+  async function finish(signature: string | null) {
+    if (!name.trim()) return Alert.alert('Missing name', 'Enter the name of the person receiving the car.');
+    if (canSign && !signature) return Alert.alert('Missing signature', 'Ask the recipient to sign in the box.');
+    try { setBusy(true); await onCapture(name, signature); }
+    finally { setBusy(false); }
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{title}</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <View style={styles.form}>
+          <FormRow label="Received by">
+            <TextInput value={name} onChangeText={setName} style={styles.input} placeholder="Full name" autoCapitalize="words" />
+          </FormRow>
+          {canSign ? (
+            <>
+              <Text style={styles.formLabel}>Signature</Text>
+              <View style={styles.signaturePad}>
+                <WebView
+                  ref={pad}
+                  source={{ html: PAD_HTML }}
+                  originWhitelist={['*']}
+                  scrollEnabled={false}
+                  onMessage={(e) => finish(e.nativeEvent.data || null)}
+                />
+              </View>
+              <TouchableOpacity onPress={() => pad.current?.injectJavaScript('clearPad(); true;')} style={[styles.btnGhost, { alignSelf: 'flex-start' }]}>
+                <Text style={styles.btnGhostText}>Clear</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <Text style={styles.cardSub}>Signatures can be captured in the mobile app; on the web only the recipient&apos;s name is recorded.</Text>
+          )}
+          <TouchableOpacity
+            disabled={busy}
+            onPress={() => (canSign ? pad.current?.injectJavaScript('readPad(); true;') : finish(null))}
+            style={[styles.btnPrimary, { marginTop: 16, alignItems: 'center' }]}
+          >
+            <Text style={styles.btnPrimaryText}>{busy ? 'Saving…' : 'Confirm Handover'}</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+// -----------------------
+// Job details summary
+// -----------------------
+export function ProofSummary({ proof }: { proof: Proof }) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    setUri(null);
+    if (!hasSignature(proof)) return;
+    setLoading(true);
+    signatureUri(proof).then((u) => { if (live) setUri(u); }).catch(() => {}).finally(() => { if (live) setLoading(false); });
+    return () => { live = false; };
+  }, [proof]);
+
+  return (
+    <View style={styles.rateBox}>
+      <Text style={{ color: 'white' }}>Received by {proof.recipientName}</Text>
+      <Text style={styles.cardSub}>{new Date(proof.signedAt).toLocaleString()}</Text>
+      {loading ? <ActivityIndicator /> : uri ? <Image source={{ uri }} style={styles.signatureImage} resizeMode="contain" /> : null}
+    </View>
+  );
+}
@@ -0,0 +1,129 @@
+import { styles } from '@/components/styles';
+import { Delivery, fetchRange, upsertById } from '@/lib/deliveries';
+import { currency, iso, isWithin } from '@/lib/format';
+import { emptyBusiness, fetchBusinessDetails } from '@/lib/invoices';
+import { buildTaxReport, shareTaxReportPdf, taxYear, taxYearOf, taxYearsIn } from '@/lib/tax';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Pressable, SafeAreaView, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+// -----------------------
+// Tax year report
+// -----------------------
+// The list only holds the pages loaded so far, so a signed-in user gets the
+// whole year from the server; unsynced local edits still win over it.
+export default function TaxReportModal({ visible, onClose, userId, deliveries }: {
+  visible: boolean;
+  onClose: () => void;
+  userId: string | null;
+  deliveries: Delivery[];
+}) {
+  const today = iso(new Date());
+  const years = useMemo(() => taxYearsIn(deliveries, today), [deliveries, today]);
+  const [start, setStart] = useState(() => taxYearOf(today));
+  const [remote, setRemote] = useState<Delivery[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  const year = useMemo(() => taxYear(start), [start]);
+
+  useEffect(() => {
+    if (!visible || !userId) return;
+    let live = true;
+    setRemote(null);
+    setLoading(true);
+    fetchRange(userId, year.startISO, year.endISO)
+      .then((list) => { if (live) setRemote(list); })
+      .catch(() => {})
+      .finally(() => { if (live) setLoading(false); });
+    return () => { live = false; };
+  }, [visible, userId, year]);
+
+  const report = useMemo(() => {
+    const local = deliveries.filter((d) => isWithin(d.dateISO, year.startISO, year.endISO));
+    return buildTaxReport(remote ? upsertById(remote, local) : local, year);
+  }, [deliveries, remote, year]);
+
+  async function exportPdf() {
+    try {
+      setSharing(true);
+      const business = userId ? await fetchBusinessDetails(userId).catch(() => emptyBusiness()) : emptyBusiness();
+      await shareTaxReportPdf(report, business);
+    } catch (e: any) {
+      Alert.alert('Export failed', e?.message ?? 'Unable to create the PDF');
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>Tax Year {year.label}</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <ScrollView contentContainerStyle={[styles.form, { paddingBottom: 32 }]}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            {years.map((y) => (
+              <Pressable key={y.start} onPress={() => setStart(y.start)} style={[styles.chip, start === y.start && styles.chipActive]}>
+                <Text style={[styles.chipText, start === y.start && styles.chipTextActive]}>{y.label}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.cardSub}>
+            6 Apr {year.start} – 5 Apr {year.start + 1} · {report.totals.totalJobs} jobs
+            {report.pendingExcluded ? ` · ${report.pendingExcluded} pending excluded` : ''}
+          </Text>
+          {loading ? <ActivityIndicator style={{ marginTop: 8 }} />
+            : !remote ? <Text style={styles.cardSub}>{userId ? 'Offline — showing jobs saved on this device only.' : 'Sign in to include jobs not loaded on this device.'}</Text>
+              : null}
+
+          <Text style={styles.formLabel}>Income</Text>
+          <View style={styles.rateBox}>
+            <Row label="Delivery fees" value={report.totals.totalEarnings} />
+            <Row label="Reimbursed expenses" value={report.totals.totalExpenses} />
+            <Row label="Total turnover" value={report.totals.net} strong />
+          </View>
+
+          <Text style={styles.formLabel}>Allowable expenses</Text>
+          <View style={styles.rateBox}>
+            {report.categories.length ? report.categories.map((c) => (
+              <Row key={c.category} label={`${c.label}${c.own ? ` (${currency(c.own)} paid by you)` : ''}`} value={c.reimbursed + c.own} />
+            )) : <Text style={styles.cardSub}>No expenses recorded</Text>}
+            <Row label="Total allowable" value={report.allowableExpenses} strong />
+          </View>
+
+          <Text style={styles.formLabel}>Estimated profit</Text>
+          <View style={styles.rateBox}>
+            <Row label="Turnover less allowable expenses" value={report.profit} strong />
+          </View>
+
+          <Text style={styles.formLabel}>By month</Text>
+          <View style={styles.rateBox}>
+            {report.months.map((m) => (
+              <View key={m.month} style={styles.rateLine}>
+                <Text style={{ color: m.jobs ? '#cbd5e1' : '#64748b', flex: 1 }}>{m.label} · {m.jobs} jobs</Text>
+                <Text style={{ color: m.jobs ? '#cbd5e1' : '#64748b' }}>{currency(m.fees)} / {currency(m.expenses)}</Text>
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity disabled={sharing || loading} onPress={exportPdf} style={[styles.btnPrimary, { marginTop: 16, alignItems: 'center' }]}>
+            <Text style={styles.btnPrimaryText}>{sharing ? 'Preparing…' : 'Export PDF Summary'}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+function Row({ label, value, strong }: { label: string; value: number; strong?: boolean }) {
+  const text = { color: strong ? 'white' : '#cbd5e1', fontWeight: strong ? '700' : 'normal' } as const;
+  return (
+    <View style={styles.rateLine}>
+      <Text style={[text, { flex: 1 }]}>{label}</Text>
+      <Text style={text}>{currency(value)}</Text>
+    </View>
+  );
+}
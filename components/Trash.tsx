@@ -0,0 +1,84 @@
+import { styles } from '@/components/styles';
+import { Delivery } from '@/lib/deliveries';
+import { currency, dateLabel } from '@/lib/format';
+import { purgeAt } from '@/lib/trash';
+import React, { useState } from 'react';
+import { Alert, FlatList, Modal, Platform, SafeAreaView, Text, TouchableOpacity, View } from 'react-native';
+
+function confirmPurge(title: string, onYes: () => void) {
+  const body = 'They cannot be restored afterwards.';
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n${body}`)) onYes();
+    return;
+  }
+  Alert.alert(title, body, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Delete', style: 'destructive', onPress: onYes },
+  ]);
+}
+
+// -----------------------
+// Trash
+// -----------------------
+// Deleted jobs, newest first, until the retention period purges them.
+// Restoring puts a job back as it was; purging removes it for good.
+export default function TrashModal({ visible, onClose, trash, retentionDays, clientName, onRestore, onPurge }: {
+  visible: boolean;
+  onClose: () => void;
+  trash: Delivery[];
+  retentionDays: number;
+  clientName: (id?: string | null) => string;
+  onRestore: (ids: string[]) => Promise<void>;
+  onPurge: (ids: string[]) => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  async function run(action: () => Promise<void>) {
+    try {
+      setBusy(true);
+      await action();
+    } catch (e: any) {
+      Alert.alert('Trash', e?.message ?? 'Please try again');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalSafe}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>Trash</Text>
+          <TouchableOpacity onPress={onClose}><Text style={styles.btnGhostText}>Close</Text></TouchableOpacity>
+        </View>
+        <FlatList
+          data={trash}
+          keyExtractor={(d) => d.id}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
+          ListHeaderComponent={
+            <View style={{ gap: 8, marginBottom: 12 }}>
+              <Text style={{ color: '#94a3b8' }}>Deleted jobs are kept for {retentionDays} days, then removed for good.</Text>
+              {trash.length ? (
+                <TouchableOpacity disabled={busy} onPress={() => confirmPurge(`Empty the trash (${trash.length})?`, () => run(() => onPurge(trash.map((d) => d.id))))} style={[styles.btnGhostDanger, { alignSelf: 'flex-start' }]}>
+                  <Text style={styles.btnGhostDangerText}>Empty Trash</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          }
+          ListEmptyComponent={<Text style={styles.emptySub}>Nothing in the trash.</Text>}
+          renderItem={({ item: d }) => (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{d.carMake} {d.carModel} · {d.reg}</Text>
+              <Text style={styles.cardSub}>{dateLabel(d.dateISO)} · {d.pickup} → {d.dropoff}{d.clientId ? ` · ${clientName(d.clientId)}` : ''} · {currency(Number(d.earnings) || 0)}</Text>
+              <Text style={styles.cardNotes}>Deleted {new Date(d.deletedAt!).toLocaleDateString()} · removed for good {purgeAt(d, retentionDays).toLocaleDateString()}</Text>
+              <View style={styles.cardActions}>
+                <TouchableOpacity disabled={busy} onPress={() => run(() => onRestore([d.id]))} style={styles.btnGhost}><Text style={styles.btnGhostText}>Restore</Text></TouchableOpacity>
+                <TouchableOpacity disabled={busy} onPress={() => confirmPurge('Delete this job for good?', () => run(() => onPurge([d.id])))} style={styles.btnGhostDanger}><Text style={styles.btnGhostDangerText}>Delete Forever</Text></TouchableOpacity>
+              </View>
+            </View>
+          )}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -0,0 +1,46 @@
+import { styles } from '@/components/styles';
+import { useSettings } from '@/hooks/useSettings';
+import { fromDisplayDistance, fromDisplayRate, toDisplayDistance, toDisplayRate } from '@/lib/format';
+import React, { useState } from 'react';
+import { StyleProp, TextInput, TextStyle } from 'react-native';
+
+const CONVERT = {
+  distance: { show: toDisplayDistance, read: fromDisplayDistance },
+  rate: { show: toDisplayRate, read: fromDisplayRate },
+};
+
+// A numeric field that shows a km-based value in the user's unit. It keeps the
+// typed text so "0." or "12.50" survive editing, and only rewrites it when the
+// stored value or the unit changes underneath.
+export default function UnitInput({ kind, value, onChange, allowEmpty, placeholder, style }: {
+  kind: keyof typeof CONVERT;
+  value: number | null | undefined;
+  onChange: (km: number | null) => void;
+  allowEmpty?: boolean; // blank means null rather than 0
+  placeholder?: string;
+  style?: StyleProp<TextStyle>;
+}) {
+  const { distanceUnit } = useSettings();
+  const { show, read } = CONVERT[kind];
+  const shown = (v: number | null | undefined) => (v === null || v === undefined ? '' : String(show(v)));
+  const [text, setText] = useState(() => shown(value));
+  const [seen, setSeen] = useState({ value, distanceUnit });
+
+  // Checked while rendering rather than in an effect, so the field never shows
+  // a stale figure for a frame
+  if (seen.value !== value || seen.distanceUnit !== distanceUnit) {
+    setSeen({ value, distanceUnit });
+    const parsed = text.trim() ? read(Number(text) || 0) : allowEmpty ? null : 0;
+    if (parsed !== (value ?? (allowEmpty ? null : 0))) setText(shown(value));
+  }
+
+  return (
+    <TextInput
+      keyboardType="decimal-pad"
+      value={text}
+      onChangeText={(v) => { setText(v); onChange(v.trim() ? read(Number(v) || 0) : allowEmpty ? null : 0); }}
+      style={style ?? styles.input}
+      placeholder={placeholder}
+    />
+  );
+}
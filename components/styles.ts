@@ -0,0 +1,105 @@
+import { StyleSheet } from 'react-native';
+
+// -----------------------
+// Styles
+// -----------------------
+export const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: '#0f172a' },
+  container: { flex: 1, padding: 16 },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 },
+  headerActions: { flexDirection: 'row', gap: 8 },
+  h1: { color: 'white', fontSize: 20, fontWeight: '700' },
+  h2: { color: '#94a3b8', fontSize: 12, marginTop: 2 },
+  avatar: { width: 36, height: 36, borderRadius: 18, backgroundColor: '#1f2937', alignItems: 'center', justifyContent: 'center', borderWidth: 1, borderColor: '#334155' },
+  btnPrimary: { backgroundColor: '#22c55e', paddingHorizontal: 14, paddingVertical: 10, borderRadius: 12 },
+  btnPrimaryText: { color: '#052e16', fontSize: 14, fontWeight: '700' },
+  filters: { backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, padding: 12, borderRadius: 16, marginBottom: 12 },
+  searchWrap: { marginBottom: 8 },
+  input: { backgroundColor: '#0a0f1c', borderColor: '#1f2937', borderWidth: 1, color: 'white', paddingHorizontal: 12, paddingVertical: 10, borderRadius: 10 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { borderWidth: 1, borderColor: '#334155', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999 },
+  chipActive: { backgroundColor: '#334155' },
+  chipText: { color: '#9ca3af', fontSize: 12, fontWeight: '600' },
+  chipTextActive: { color: 'white' },
+  customRange: { flexDirection: 'row', gap: 8, marginTop: 8 },
+  card: { backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, borderRadius: 16, padding: 12, marginBottom: 10 },
+  cardPicked: { borderColor: '#22c55e' },
+  cardTitle: { color: 'white', fontWeight: '700' },
+  cardSub: { color: '#94a3b8', marginTop: 4 },
+  cardNotes: { color: '#cbd5e1', marginTop: 6 },
+  pendingBadge: { flexDirection: 'row', alignItems: 'center', gap: 4, alignSelf: 'flex-start', marginTop: 4, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 999, borderWidth: 1, borderColor: '#78350f' },
+  invoicedText: { color: '#94a3b8', fontSize: 11, fontWeight: '600' },
+  pendingText: { color: '#fbbf24', fontSize: 11, fontWeight: '600' },
+  importRowInvalid: { borderColor: '#7f1d1d', opacity: 0.8 },
+  exportRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: '#1f2937' },
+  exportToggle: { flex: 1, flexDirection: 'row', alignItems: 'center', gap: 8 },
+  rateBox: { borderWidth: 1, borderColor: '#1f2937', borderRadius: 10, padding: 10, gap: 4 },
+  rateLine: { flexDirection: 'row', gap: 8 },
+  rateStruck: { textDecorationLine: 'line-through', color: '#64748b' },
+  inspectGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  inspectTile: { width: '31%', aspectRatio: 1, borderWidth: 1, borderColor: '#1f2937', borderRadius: 10, alignItems: 'center', justifyContent: 'center', padding: 4, gap: 4, overflow: 'hidden' },
+  inspectThumb: { width: '100%', flex: 1, borderRadius: 6 },
+  inspectTileText: { color: '#94a3b8', fontSize: 10, textAlign: 'center' },
+  carDiagram: { alignSelf: 'center', marginVertical: 8 },
+  carFront: { color: '#64748b', fontSize: 10, fontWeight: '700', textAlign: 'center' },
+  carBody: { position: 'absolute', left: '12%', right: '12%', top: '6%', bottom: '2%', borderWidth: 2, borderColor: '#475569', borderRadius: 40 },
+  carGlass: { position: 'absolute', left: '10%', right: '10%', borderWidth: 1, borderColor: '#334155', borderRadius: 8, backgroundColor: '#0f172a' },
+  carWheel: { position: 'absolute', width: '15%', height: '13%', borderRadius: 6, backgroundColor: '#334155' },
+  damageDot: { position: 'absolute', width: 20, height: 20, borderRadius: 10, backgroundColor: '#dc2626', alignItems: 'center', justifyContent: 'center' },
+  damageDotStatic: { width: 20, height: 20, borderRadius: 10, backgroundColor: '#dc2626', alignItems: 'center', justifyContent: 'center' },
+  damageDotText: { color: 'white', fontSize: 11, fontWeight: '700' },
+  signaturePad: { height: 200, borderRadius: 10, overflow: 'hidden', borderWidth: 1, borderColor: '#1f2937' },
+  signatureImage: { height: 90, width: '100%', backgroundColor: 'white', borderRadius: 6 },
+  statGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  statTile: { flexBasis: '47%', flexGrow: 1, backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, borderRadius: 12, padding: 10 },
+  chartBars: { flexDirection: 'row', alignItems: 'flex-end', gap: 4, height: 140 },
+  chartCol: { flex: 1, alignItems: 'center', height: '100%' },
+  chartBar: { width: '100%', borderTopLeftRadius: 4, borderTopRightRadius: 4, backgroundColor: '#22c55e' },
+  chartBarStack: { width: '100%', backgroundColor: '#0ea5e9' },
+  chartLabel: { color: '#64748b', fontSize: 9, marginTop: 4 },
+  splitBar: { flexDirection: 'row', height: 14, borderRadius: 7, overflow: 'hidden', backgroundColor: '#1f2937' },
+  legendDot: { width: 10, height: 10, borderRadius: 5 },
+  suggestBox: { marginTop: 4, borderWidth: 1, borderColor: '#1f2937', borderRadius: 10, backgroundColor: '#0b1220', overflow: 'hidden' },
+  suggestRow: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 10, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: '#1f2937' },
+  conflictBanner: { flexDirection: 'row', alignItems: 'center', gap: 8, backgroundColor: '#1c1917', borderColor: '#78350f', borderWidth: 1, borderRadius: 12, padding: 10, marginBottom: 12 },
+  conflictBannerText: { color: '#fbbf24', fontWeight: '600', flex: 1 },
+  conflictRow: { flexDirection: 'row', alignItems: 'stretch', gap: 6, paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: '#1f2937' },
+  conflictRowClash: { backgroundColor: '#1c1917' },
+  conflictHead: { color: '#94a3b8', fontSize: 12, fontWeight: '700' },
+  conflictLabel: { color: '#9ca3af', fontSize: 12, width: 90 },
+  conflictCell: { flex: 1, borderRadius: 8, paddingHorizontal: 6, paddingVertical: 4 },
+  conflictPicked: { borderWidth: 1, borderColor: '#22c55e' },
+  conflictValue: { color: 'white' },
+  table: { flex: 1, borderWidth: 1, borderColor: '#1f2937', borderRadius: 12, overflow: 'hidden' },
+  tableRow: { flexDirection: 'row', borderBottomWidth: 1, borderBottomColor: '#1f2937' },
+  tableHead: { backgroundColor: '#0b1220' },
+  tableRowSelected: { backgroundColor: '#1e293b' },
+  tableCell: { paddingHorizontal: 8, paddingVertical: 8, justifyContent: 'center' },
+  tableText: { color: '#e5e7eb', fontSize: 13 },
+  tableHeadText: { color: '#94a3b8', fontSize: 12, fontWeight: '700' },
+  tableInput: { color: 'white', backgroundColor: '#0a0f1c', borderColor: '#22c55e', borderWidth: 1, borderRadius: 6, paddingHorizontal: 6, paddingVertical: 4, fontSize: 13 },
+  sidePanel: { width: 420, marginLeft: 12, backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, borderRadius: 16, overflow: 'hidden' },
+  cardActions: { flexDirection: 'row', gap: 12, marginTop: 8 },
+  btnGhost: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999, borderWidth: 1, borderColor: '#334155' },
+  btnGhostText: { color: '#e5e7eb', fontWeight: '600' },
+  btnGhostDanger: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999, borderWidth: 1, borderColor: '#7f1d1d' },
+  btnGhostDangerText: { color: '#fecaca', fontWeight: '700' },
+  emptyWrap: { alignItems: 'center', paddingVertical: 32 },
+  emptyTitle: { color: 'white', fontSize: 16, fontWeight: '700' },
+  emptySub: { color: '#94a3b8', marginTop: 6 },
+  statsBar: { position: 'absolute', left: 16, right: 16, bottom: 16, backgroundColor: '#0b1220', borderColor: '#1f2937', borderWidth: 1, padding: 12, borderRadius: 16, flexDirection: 'row', justifyContent: 'space-between', gap: 12 },
+  stat: { flex: 1, alignItems: 'center' },
+  statLabel: { color: '#94a3b8', fontSize: 12 },
+  statValue: { color: 'white', fontSize: 16, fontWeight: '700', marginTop: 2 },
+  modalSafe: { flex: 1, backgroundColor: '#0f172a' },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12 },
+  modalTitle: { color: 'white', fontSize: 18, fontWeight: '700' },
+  form: { paddingHorizontal: 16, paddingBottom: 24, gap: 12 },
+  formRow: { gap: 6 },
+  formLabel: { color: '#9ca3af', fontSize: 12 },
+  snackbar: { position: 'absolute', left: 16, right: 84, bottom: 92, zIndex: 1000, flexDirection: 'row', alignItems: 'center', gap: 12, backgroundColor: '#1e293b', borderRadius: 10, paddingVertical: 12, paddingHorizontal: 14, elevation: 6 },
+  snackbarText: { color: 'white', flex: 1 },
+  snackbarAction: { color: '#22c55e', fontWeight: '700' },
+  fab: { position: 'absolute', right: 16, bottom: 92, width: 56, height: 56, borderRadius: 28, backgroundColor: '#22c55e', alignItems: 'center', justifyContent: 'center', shadowColor: '#000', shadowOpacity: 0.3, shadowRadius: 8, elevation: 6 },
+  fabText: { color: '#052e16', fontSize: 28, fontWeight: '900', marginTop: -2 },
+});
@@ -0,0 +1,7 @@
+import { getSettings, subscribeSettings } from '@/lib/settings';
+import { useSyncExternalStore } from 'react';
+
+// Re-renders the caller whenever display settings change
+export function useSettings() {
+  return useSyncExternalStore(subscribeSettings, getSettings);
+}
@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+
+// Single-key shortcuts on web, keyed by KeyboardEvent#key. Ignored while a
+// field has focus or a modifier is held, so typing and browser shortcuts
+// behave as usual. Re-subscribes every render to see the latest handlers.
+export function useShortcuts(keys: Record<string, () => void>, enabled = true) {
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !enabled) return;
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (e.metaKey || e.ctrlKey || e.altKey || el?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el?.tagName ?? '')) return;
+      const run = keys[e.key];
+      if (!run) return;
+      e.preventDefault();
+      run();
+    };
+    document.addEventListener('keydown', onKey);
+    return () => document.removeEventListener('keydown', onKey);
+  });
+}
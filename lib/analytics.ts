@@ -0,0 +1,111 @@
+import { Delivery } from '@/lib/deliveries';
+import { getWeekRange } from '@/lib/format';
+import { isOpen, STATUSES } from '@/lib/lifecycle';
+import { getSettings } from '@/lib/settings';
+import { durationMinutes, waitingMinutes } from '@/lib/times';
+import { computeTotals } from '@/lib/totals';
+
+// -----------------------
+// Trends
+// -----------------------
+// Everything here works on whatever list it's given (the local cache in
+// practice) so the screen renders the same offline.
+export type Period = 'week' | 'month';
+
+export type Bucket = { key: string; label: string; jobs: number; earnings: number; expenses: number };
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Only jobs still under way are left out of money figures; a cancelled job can still carry a fee
+const earned = (list: Delivery[]) => list.filter((d) => !isOpen(d.status));
+
+function bucketOf(dateISO: string, period: Period, weekStartsOn: number) {
+  if (period === 'month') return dateISO.slice(0, 7);
+  return getWeekRange(new Date(`${dateISO}T12:00:00`), weekStartsOn).startISO;
+}
+
+function bucketLabel(key: string, period: Period) {
+  const [y, m, d] = key.split('-');
+  return period === 'month' ? `${MONTHS[Number(m) - 1]} ${y.slice(2)}` : `${Number(d)} ${MONTHS[Number(m) - 1]}`;
+}
+
+// Oldest first, most recent `limit` periods that have jobs
+export function earningsByPeriod(list: Delivery[], period: Period, weekStartsOn = getSettings().weekStartsOn, limit = 12): Bucket[] {
+  const groups = new Map<string, Delivery[]>();
+  for (const d of earned(list)) {
+    if (!d.dateISO) continue;
+    const key = bucketOf(d.dateISO, period, weekStartsOn);
+    groups.set(key, [...(groups.get(key) ?? []), d]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-limit)
+    .map(([key, jobs]) => {
+      const t = computeTotals(jobs);
+      return { key, label: bucketLabel(key, period), jobs: jobs.length, earnings: t.totalEarnings, expenses: t.totalExpenses };
+    });
+}
+
+// Jobs per weekday from the user's first day of the week, plus the average
+// over days that had any work
+export function jobsPerDay(list: Delivery[], first = getSettings().weekStartsOn) {
+  const byDay = DAYS.map((_, i) => ({ label: DAYS[(first + i) % 7], jobs: 0 }));
+  const days = new Set<string>();
+  for (const d of list) {
+    if (!d.dateISO) continue;
+    days.add(d.dateISO);
+    byDay[(new Date(`${d.dateISO}T12:00:00`).getDay() - first + 7) % 7].jobs += 1;
+  }
+  return { byDay, activeDays: days.size, average: days.size ? list.length / days.size : 0 };
+}
+
+export function statusSplit(list: Delivery[]) {
+  return STATUSES.map((s) => ({ status: s.key, label: s.label, color: s.color, jobs: list.filter((d) => d.status === s.key).length }));
+}
+
+// Only jobs stamped at both ends count towards hours, so one forgotten tap
+// doesn't drag the hourly figure down
+export function timeStats(list: Delivery[]) {
+  const waiting = list.reduce((acc, d) => acc + waitingMinutes(d), 0);
+  const timed = earned(list).filter((d) => durationMinutes(d) > 0);
+  const minutes = timed.reduce((acc, d) => acc + durationMinutes(d), 0);
+  return { waiting, timedJobs: timed.length, minutes, perHour: minutes ? computeTotals(timed).net / (minutes / 60) : 0 };
+}
+
+// -----------------------
+// Routes
+// -----------------------
+// Profit here is what's left after every expense, reimbursed or not.
+export type RouteStat = { key: string; pickup: string; dropoff: string; jobs: number; profit: number; perJob: number; perKm: number };
+
+const place = (s: string) => s.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function routeStats(list: Delivery[]): RouteStat[] {
+  const groups = new Map<string, Delivery[]>();
+  for (const d of earned(list)) {
+    if (!d.pickup.trim() || !d.dropoff.trim()) continue;
+    const key = `${place(d.pickup)}→${place(d.dropoff)}`;
+    groups.set(key, [...(groups.get(key) ?? []), d]);
+  }
+  return [...groups.entries()].map(([key, jobs]) => {
+    const t = computeTotals(jobs);
+    return {
+      key,
+      pickup: jobs[0].pickup.trim(),
+      dropoff: jobs[0].dropoff.trim(),
+      jobs: jobs.length,
+      profit: t.profit,
+      perJob: t.profit / jobs.length,
+      perKm: t.totalKm > 0 ? t.profit / t.totalKm : 0,
+    };
+  });
+}
+
+// Ranked by profit per job; the worst list never repeats a route from the best
+export function rankRoutes(list: Delivery[], n = 5) {
+  const ranked = routeStats(list).sort((a, b) => b.perJob - a.perJob || b.jobs - a.jobs);
+  const best = ranked.slice(0, n);
+  const worst = ranked.slice(Math.max(best.length, ranked.length - n)).reverse();
+  return { best, worst };
+}
@@ -0,0 +1,141 @@
+import { ClientTerms, normaliseRateCard, RateCard } from '@/lib/rates';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+// The agency or dealership a job is done for. Its rates pre-fill new jobs.
+export type Client = ClientTerms & {
+  id: string;
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  ratePerKm: number; // default £ per km
+  fixedFee: number; // default base fee per job
+  paymentTermsDays: number; // invoice due after this many days
+  rateCard: RateCard | null; // null = price by the job's own £/km and fee
+  requireProof: boolean; // jobs can't be completed without a recipient signature
+};
+
+export type ClientDraft = Omit<Client, 'id'> & { id?: string };
+
+const CLIENTS_KEY = 'car_delivery_tracker__clients_v1';
+
+export function emptyClient(): ClientDraft {
+  return { name: '', contactName: '', email: '', phone: '', address: '', ratePerKm: 0, fixedFee: 0, paymentTermsDays: 30, rateCard: null, requireProof: false, waitingRatePerHour: 0, waitingFreeMinutes: 30, abortFee: 0, abortPct: 0 };
+}
+
+// -----------------------
+// Local cache
+// -----------------------
+export async function loadClients(): Promise<Client[]> {
+  const raw = await AsyncStorage.getItem(CLIENTS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed: Client[] = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map((c) => ({ ...c, rateCard: normaliseRateCard(c.rateCard), waitingRatePerHour: c.waitingRatePerHour ?? 0, waitingFreeMinutes: c.waitingFreeMinutes ?? 30, abortFee: c.abortFee ?? 0, abortPct: c.abortPct ?? 0 })) : [];
+  } catch { return []; }
+}
+async function saveClients(list: Client[]) { await AsyncStorage.setItem(CLIENTS_KEY, JSON.stringify(list)); }
+
+const byName = (a: Client, b: Client) => a.name.localeCompare(b.name);
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `clients` (snake_case): id, user_id, name, contact_name, email, phone,
+// address, rate_per_km, fixed_fee, payment_terms_days, rate_card (jsonb), require_proof,
+// waiting_rate_per_hour, waiting_free_minutes, abort_fee, abort_pct.
+// `deliveries.client_id` links jobs.
+
+type ClientRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  rate_per_km: number | string | null;
+  fixed_fee: number | string | null;
+  payment_terms_days: number | null;
+  rate_card: Partial<RateCard> | null;
+  require_proof: boolean | null;
+  waiting_rate_per_hour: number | string | null;
+  waiting_free_minutes: number | null;
+  abort_fee: number | string | null;
+  abort_pct: number | string | null;
+};
+
+function rowToClient(r: ClientRow): Client {
+  return {
+    id: r.id,
+    name: r.name,
+    contactName: r.contact_name || '',
+    email: r.email || '',
+    phone: r.phone || '',
+    address: r.address || '',
+    ratePerKm: Number(r.rate_per_km ?? 0),
+    fixedFee: Number(r.fixed_fee ?? 0),
+    paymentTermsDays: Number(r.payment_terms_days ?? 30),
+    rateCard: normaliseRateCard(r.rate_card),
+    requireProof: !!r.require_proof,
+    waitingRatePerHour: Number(r.waiting_rate_per_hour ?? 0),
+    waitingFreeMinutes: Number(r.waiting_free_minutes ?? 30),
+    abortFee: Number(r.abort_fee ?? 0),
+    abortPct: Number(r.abort_pct ?? 0),
+  };
+}
+
+// Pulls the server list and refreshes the cache; falls back to the cache offline.
+export async function syncClients(userId: string): Promise<Client[]> {
+  const { data, error } = await supabase.from('clients').select('*').eq('user_id', userId);
+  if (error) return loadClients();
+  const list = (data as ClientRow[]).map(rowToClient).sort(byName);
+  await saveClients(list);
+  return list;
+}
+
+export async function upsertClient(userId: string, input: ClientDraft): Promise<Client[]> {
+  const id = input.id ?? uuidv4();
+  const { data, error } = await supabase
+    .from('clients')
+    .upsert({
+      id,
+      user_id: userId,
+      name: input.name.trim(),
+      contact_name: input.contactName,
+      email: input.email,
+      phone: input.phone,
+      address: input.address,
+      rate_per_km: Number(input.ratePerKm) || 0,
+      fixed_fee: Number(input.fixedFee) || 0,
+      payment_terms_days: Number(input.paymentTermsDays) || 0,
+      rate_card: normaliseRateCard(input.rateCard),
+      require_proof: input.requireProof,
+      waiting_rate_per_hour: Number(input.waitingRatePerHour) || 0,
+      waiting_free_minutes: Number(input.waitingFreeMinutes) || 0,
+      abort_fee: Number(input.abortFee) || 0,
+      abort_pct: Number(input.abortPct) || 0,
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+  if (error) throw error;
+  const saved = rowToClient(data as ClientRow);
+  const list = [saved, ...(await loadClients()).filter((c) => c.id !== id)].sort(byName);
+  await saveClients(list);
+  return list;
+}
+
+export async function deleteClient(userId: string, id: string): Promise<Client[]> {
+  const { error } = await supabase.from('clients').delete().eq('id', id).eq('user_id', userId);
+  if (error) throw error;
+  const list = (await loadClients()).filter((c) => c.id !== id);
+  await saveClients(list);
+  return list;
+}
@@ -0,0 +1,41 @@
+// -----------------------
+// CSV parsing
+// -----------------------
+// RFC 4180: quoted fields may contain commas, quotes ("") and line breaks.
+// Accepts \r\n, \n or \r line endings and strips a leading BOM.
+
+export function parseCSV(text: string, delimiter = ','): string[][] {
+  const src = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+      continue;
+    }
+    if (ch === '"' && field === '') quoted = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field !== '' || row.length) { row.push(field); rows.push(row); }
+
+  // Drop blank lines (a row of one empty field)
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// Agency statements are sometimes semicolon- or tab-separated; pick whichever
+// splits the header line into the most columns.
+export function sniffDelimiter(text: string) {
+  const first = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map((d) => ({ d, n: first.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
@@ -0,0 +1,320 @@
+import { ExpenseItem, legacyExpenses, reimbursedTotal } from '@/lib/expenses';
+import { normaliseStatus, Status, StatusChange } from '@/lib/lifecycle';
+import type { Proof } from '@/lib/proof';
+import { RateLine } from '@/lib/rates';
+import { supabase } from '@/lib/supabase';
+import { JobTimes, normaliseTimes } from '@/lib/times';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// -----------------------
+// Types
+// -----------------------
+export type Delivery = {
+  id: string;
+  dateISO: string; // e.g., '2025-08-10'
+  startTime?: string | null; // 'HH:MM', scheduled start; drives night premiums
+  times?: JobTimes | null; // other scheduled times and the actual ones stamped on the day
+  carMake: string;
+  carModel: string;
+  reg: string;
+  pickup: string;
+  dropoff: string;
+  distanceKm: number; // numeric km
+  distanceEstimated?: boolean; // true while distanceKm is an estimate nobody has checked
+  ratePerKm: number; // £ per km
+  fixedFee: number; // base fee per job
+  expenses: ExpenseItem[]; // itemised costs; reimbursable ones count toward income
+  earnings: number; // computed or manual override
+  earningsManual?: boolean; // true when earnings was typed in rather than priced by the rate card
+  rateLines?: RateLine[]; // how the rate card reached its figure, kept even when overridden
+  status: Status; // only changed through `transition` in lib/lifecycle
+  statusHistory?: StatusChange[]; // every move, oldest first
+  notes?: string;
+  clientId?: string | null; // agency or dealership the job was for
+  invoiceId?: string | null; // set once billed; the job is locked until credited
+  proof?: Proof | null; // recipient name and signature taken at handover
+  deletedAt?: string | null; // set while in the trash (see lib/trash); purged later for good
+  version: number; // bumped on every accepted write; 0 until first saved
+  updatedAt: string; // ISO timestamp of the last write
+};
+
+export type Draft = Omit<Delivery, 'id' | 'version' | 'updatedAt'> & { id?: string; version?: number; updatedAt?: string };
+
+const STORAGE_KEY = 'car_delivery_tracker__deliveries_v1';
+
+// -----------------------
+// Local cache
+// -----------------------
+export async function loadCache(): Promise<Delivery[]> {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    // Entries cached before itemised expenses carry a single transportExpense
+    const parsed: (Delivery & { transportExpense?: number })[] = JSON.parse(raw);
+    // Entries cached before version tracking have neither field
+    return Array.isArray(parsed) ? parsed.map((d) => ({
+      ...d,
+      version: d.version ?? 0,
+      status: normaliseStatus(d.status, d.invoiceId),
+      updatedAt: d.updatedAt ?? '',
+      earningsManual: d.earningsManual ?? wasOverridden(d),
+      expenses: d.expenses ?? legacyExpenses(Number(d.transportExpense) || 0),
+    })) : [];
+  } catch { return []; }
+}
+export async function saveCache(list: Delivery[]) { await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(list)); }
+
+// Before rate cards, any earnings that didn't match distance × rate + fee had been typed in by hand
+function wasOverridden(d: Pick<Delivery, 'distanceKm' | 'ratePerKm' | 'fixedFee' | 'earnings'>) {
+  const r2 = (n: number) => Math.round(n * 100) / 100;
+  return r2((Number(d.distanceKm) || 0) * (Number(d.ratePerKm) || 0) + (Number(d.fixedFee) || 0)) !== r2(Number(d.earnings) || 0);
+}
+
+export function sortByDateDesc(list: Delivery[]) {
+  return [...list].sort((a, b) => (a.dateISO < b.dateISO ? 1 : a.dateISO > b.dateISO ? -1 : 0));
+}
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table columns expected (snake_case): see your SQL migration
+// id, user_id, date_iso, car_make, car_model, reg, pickup, dropoff,
+// distance_km, rate_per_km, fixed_fee, transport_expense, earnings, status, status_history (jsonb), notes,
+// start_time (text), times (jsonb), earnings_manual (bool), distance_estimated (bool), rate_lines (jsonb), expenses (jsonb;
+// transport_expense is still written as the reimbursed total for older readers), proof (jsonb),
+// client_id (uuid, references clients), invoice_id (uuid, references invoices), deleted_at (timestamptz, null unless trashed), version (int, default 1), updated_at (timestamptz, set to now() by a trigger on every write)
+
+export type DeliveryRow = {
+  id: string;
+  user_id: string;
+  date_iso: string;
+  start_time: string | null;
+  times: Partial<JobTimes> | null;
+  car_make: string | null;
+  car_model: string | null;
+  reg: string | null;
+  pickup: string | null;
+  dropoff: string | null;
+  distance_km: number | string | null;
+  distance_estimated: boolean | null;
+  rate_per_km: number | string | null;
+  fixed_fee: number | string | null;
+  transport_expense: number | string | null;
+  expenses: ExpenseItem[] | null;
+  earnings: number | string | null;
+  earnings_manual: boolean | null;
+  rate_lines: RateLine[] | null;
+  status: string | null; // rows written before the lifecycle hold 'pending' or 'completed'
+  status_history: StatusChange[] | null;
+  notes: string | null;
+  client_id: string | null;
+  invoice_id: string | null;
+  proof: Proof | null;
+  deleted_at: string | null;
+  version: number | null;
+  updated_at: string | null;
+};
+
+export function rowToDelivery(r: DeliveryRow): Delivery {
+  const d: Delivery = {
+    id: r.id,
+    dateISO: r.date_iso,
+    startTime: r.start_time ?? null,
+    times: normaliseTimes(r.times),
+    carMake: r.car_make || '',
+    carModel: r.car_model || '',
+    reg: r.reg || '',
+    pickup: r.pickup || '',
+    dropoff: r.dropoff || '',
+    distanceKm: Number(r.distance_km ?? 0),
+    distanceEstimated: !!r.distance_estimated,
+    ratePerKm: Number(r.rate_per_km ?? 0),
+    fixedFee: Number(r.fixed_fee ?? 0),
+    expenses: r.expenses ?? legacyExpenses(Number(r.transport_expense ?? 0)),
+    earnings: Number(r.earnings ?? 0),
+    earningsManual: !!r.earnings_manual,
+    rateLines: r.rate_lines ?? [],
+    status: normaliseStatus(r.status, r.invoice_id),
+    statusHistory: r.status_history ?? [],
+    notes: r.notes || '',
+    clientId: r.client_id ?? null,
+    invoiceId: r.invoice_id ?? null,
+    proof: r.proof ?? null,
+    deletedAt: r.deleted_at ?? null,
+    version: Number(r.version ?? 0),
+    updatedAt: r.updated_at || '',
+  };
+  if (r.earnings_manual === null || r.earnings_manual === undefined) d.earningsManual = wasOverridden(d);
+  return d;
+}
+export function draftToRow(input: Draft, userId: string, computed: number, id?: string): Partial<DeliveryRow> & { user_id: string } {
+  return {
+    ...(id ? { id } : {}),
+    user_id: userId,
+    date_iso: input.dateISO,
+    start_time: input.startTime || null,
+    times: input.times ? normaliseTimes(input.times) : null,
+    car_make: input.carMake,
+    car_model: input.carModel,
+    reg: input.reg,
+    pickup: input.pickup,
+    dropoff: input.dropoff,
+    distance_km: Number(input.distanceKm) || 0,
+    distance_estimated: !!input.distanceEstimated,
+    rate_per_km: Number(input.ratePerKm) || 0,
+    fixed_fee: Number(input.fixedFee) || 0,
+    transport_expense: reimbursedTotal(input),
+    expenses: input.expenses ?? [],
+    earnings: computed,
+    earnings_manual: !!input.earningsManual,
+    rate_lines: input.rateLines ?? [],
+    status: input.status || 'booked',
+    status_history: input.statusHistory ?? [],
+    notes: input.notes || '',
+    client_id: input.clientId ?? null,
+    invoice_id: input.invoiceId ?? null,
+    proof: input.proof ?? null,
+    deleted_at: input.deletedAt ?? null,
+    ...(input.version ? { version: input.version } : {}),
+    updated_at: input.updatedAt || new Date().toISOString(),
+  } as any;
+}
+
+export const PAGE_SIZE = 50;
+
+// Newest-first page of history, keyed on (date_iso, id) so pages never overlap.
+// Trashed rows are left out; the trash screen fetches those itself.
+export async function fetchHistoryPage(userId: string, before: { dateISO: string; id: string } | null): Promise<Delivery[]> {
+  let q = supabase
+    .from('deliveries')
+    .select('*')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+  if (before) q = q.or(`date_iso.lt.${before.dateISO},and(date_iso.eq.${before.dateISO},id.lt.${before.id})`);
+  const { data, error } = await q
+    .order('date_iso', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE);
+  if (error) throw error;
+  return (data as DeliveryRow[]).map(rowToDelivery);
+}
+
+// Every row written after the `since` watermark, oldest change first. This
+// includes rows trashed since, so a delete on another device comes through.
+export async function fetchChangedSince(userId: string, since: string): Promise<Delivery[]> {
+  const out: Delivery[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .gt('updated_at', since)
+      .order('updated_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    out.push(...(data as DeliveryRow[]).map(rowToDelivery));
+    if (data.length < PAGE_SIZE) return out;
+  }
+}
+
+// Specific jobs wherever they sit in the history, for invoices and payments
+// that point at jobs older than the pages loaded so far.
+export async function fetchByIds(userId: string, ids: string[]): Promise<Delivery[]> {
+  const out: Delivery[] = [];
+  for (let from = 0; from < ids.length; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', ids.slice(from, from + PAGE_SIZE));
+    if (error) throw error;
+    out.push(...(data as DeliveryRow[]).map(rowToDelivery));
+  }
+  return out;
+}
+
+// Every live job that may still be owed on, however old, so what's owed never
+// depends on how far the list has been scrolled. Open and paid jobs, and ones
+// that earned nothing (most cancellations), are left out. Only read where the
+// receivables need it, not on every sync.
+export async function fetchUnpaid(userId: string): Promise<Delivery[]> {
+  const out: Delivery[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .not('status', 'in', '(booked,en_route,collected,paid)')
+      .or('earnings.gt.0,transport_expense.gt.0')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    out.push(...(data as DeliveryRow[]).map(rowToDelivery));
+    if (data.length < PAGE_SIZE) return out;
+  }
+}
+
+// Ids of rows deleted for good after the `since` watermark. A purged row never
+// shows up in fetchChangedSince, so a trigger on delete leaves a tombstone:
+// delivery_tombstones (id uuid, user_id uuid, purged_at timestamptz default now()).
+export async function fetchPurgedSince(userId: string, since: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('delivery_tombstones')
+    .select('id')
+    .eq('user_id', userId)
+    .gt('purged_at', since);
+  if (error) throw error;
+  return (data as { id: string }[]).map((r) => r.id);
+}
+
+// Every job dated within [fromISO, toISO], for reports that can't rely on the
+// history pages loaded so far.
+export async function fetchRange(userId: string, fromISO: string, toISO: string): Promise<Delivery[]> {
+  const out: Delivery[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('date_iso', fromISO)
+      .lte('date_iso', toISO)
+      .order('date_iso', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    out.push(...(data as DeliveryRow[]).map(rowToDelivery));
+    if (data.length < PAGE_SIZE) return out;
+  }
+}
+
+// -----------------------
+// Sync cursor
+// -----------------------
+// `since` is the newest updated_at pulled so far (the delta watermark);
+// `oldest` is where history paging resumes; `exhausted` once it reaches the end.
+export type SyncCursor = { since: string | null; oldest: { dateISO: string; id: string } | null; exhausted: boolean };
+
+const CURSOR_KEY = 'car_delivery_tracker__sync_cursor_v1';
+
+export async function loadSyncCursor(userId: string): Promise<SyncCursor> {
+  const empty: SyncCursor = { since: null, oldest: null, exhausted: false };
+  const raw = await AsyncStorage.getItem(`${CURSOR_KEY}:${userId}`);
+  if (!raw) return empty;
+  try { return { ...empty, ...JSON.parse(raw) }; } catch { return empty; }
+}
+export async function saveSyncCursor(userId: string, c: SyncCursor) { await AsyncStorage.setItem(`${CURSOR_KEY}:${userId}`, JSON.stringify(c)); }
+
+export function latestUpdate(rows: Delivery[], since: string | null) {
+  return rows.reduce<string | null>((acc, d) => (d.updatedAt && (!acc || d.updatedAt > acc) ? d.updatedAt : acc), since);
+}
+export function oldestOf(rows: Delivery[]) {
+  const last = rows[rows.length - 1];
+  return last ? { dateISO: last.dateISO, id: last.id } : null;
+}
+
+export function upsertById(list: Delivery[], rows: Delivery[]) {
+  const ids = new Set(rows.map((d) => d.id));
+  return [...rows, ...list.filter((d) => !ids.has(d.id))];
+}
@@ -0,0 +1,94 @@
+import { AREA_CENTROIDS, DISTRICT_CENTROIDS } from '@/lib/postcodes';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// -----------------------
+// Providers
+// -----------------------
+// Anything that can turn a pickup and drop-off into road km. The form only
+// talks to `estimateDistance`, so a routing API can replace the offline
+// provider with a single `setDistanceProvider` call at startup.
+export type DistanceProvider = {
+  id: string; // part of the cache key, so switching provider never reuses old figures
+  label: string; // shown next to an estimate, e.g. "postcode centres"
+  estimate: (pickup: string, dropoff: string) => Promise<number | null>; // km, or null when it can't tell
+};
+
+export type DistanceEstimate = { km: number; source: string };
+
+// -----------------------
+// Offline: postcode centres
+// -----------------------
+// Straight-line distance between postcode district centres, stretched by a
+// road factor. UK road distance averages roughly 1.2–1.4× the crow-fly figure.
+export const ROAD_FACTOR = 1.3;
+
+const POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?)\s*\d[A-Z]{2}\b/g;
+const OUTWARD = /\b([A-Z]{1,2}\d[A-Z\d]?)$/;
+
+// The outward code of the last full postcode in the text, else a bare one at the end ("Croydon CR0")
+export function outwardCode(text: string) {
+  const t = text.toUpperCase().trim();
+  const full = [...t.matchAll(POSTCODE)].pop();
+  return full ? full[1] : t.match(OUTWARD)?.[1] ?? null;
+}
+
+type Centroid = { at: [number, number]; precise: boolean };
+
+function centroid(outward: string): Centroid | null {
+  // SW1A and W1K share their parent district's centre
+  const district = DISTRICT_CENTROIDS[outward] ?? DISTRICT_CENTROIDS[outward.replace(/[A-Z]$/, '')];
+  if (district) return { at: district, precise: true };
+  const area = AREA_CENTROIDS[outward.match(/^[A-Z]+/)?.[0] ?? ''];
+  return area ? { at: area, precise: false } : null;
+}
+
+function haversineKm([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]) {
+  const rad = (n: number) => (n * Math.PI) / 180;
+  const a = Math.sin(rad(lat2 - lat1) / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(rad(lng2 - lng1) / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+export const postcodeProvider: DistanceProvider = {
+  id: 'postcode-v1',
+  label: 'postcode centres',
+  async estimate(pickup, dropoff) {
+    const [a, b] = [outwardCode(pickup), outwardCode(dropoff)].map((o) => (o ? centroid(o) : null));
+    if (!a || !b) return null;
+    // Two ends in the same area known only by its centre would read as zero
+    if (!a.precise && !b.precise && a.at === b.at) return null;
+    return Math.round(haversineKm(a.at, b.at) * ROAD_FACTOR * 10) / 10;
+  },
+};
+
+let provider: DistanceProvider = postcodeProvider;
+
+export function getDistanceProvider() { return provider; }
+export function setDistanceProvider(p: DistanceProvider) { provider = p; }
+
+// -----------------------
+// Local cache
+// -----------------------
+// One entry per provider and route pair; a routing API is only asked once per run.
+const CACHE_KEY = 'car_delivery_tracker__distances_v1';
+
+type CacheEntry = { km: number; at: string };
+
+const norm = (s: string) => s.trim().replace(/\s+/g, ' ').toLowerCase();
+const pairKey = (p: DistanceProvider, pickup: string, dropoff: string) => `${p.id}|${norm(pickup)}→${norm(dropoff)}`;
+
+async function loadDistanceCache(): Promise<Record<string, CacheEntry>> {
+  const raw = await AsyncStorage.getItem(CACHE_KEY);
+  try { return raw ? JSON.parse(raw) : {}; } catch { return {}; }
+}
+
+export async function estimateDistance(pickup: string, dropoff: string): Promise<DistanceEstimate | null> {
+  if (!pickup.trim() || !dropoff.trim()) return null;
+  const p = provider;
+  const key = pairKey(p, pickup, dropoff);
+  const cache = await loadDistanceCache();
+  if (cache[key]) return { km: cache[key].km, source: p.label };
+  const km = await p.estimate(pickup, dropoff).catch(() => null);
+  if (km === null || !(km > 0)) return null;
+  await AsyncStorage.setItem(CACHE_KEY, JSON.stringify({ ...cache, [key]: { km, at: new Date().toISOString() } }));
+  return { km, source: p.label };
+}
@@ -0,0 +1,65 @@
+import { pickAndUpload, PhotoSource, signedUrl } from '@/lib/storage';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+export type ExpenseCategory = 'train' | 'bus' | 'taxi' | 'fuel' | 'toll' | 'congestion' | 'parking' | 'other';
+
+export const EXPENSE_CATEGORIES: { key: ExpenseCategory; label: string }[] = [
+  { key: 'train', label: 'Train' },
+  { key: 'bus', label: 'Bus' },
+  { key: 'taxi', label: 'Taxi' },
+  { key: 'fuel', label: 'Fuel' },
+  { key: 'toll', label: 'Toll' },
+  { key: 'congestion', label: 'Congestion charge' },
+  { key: 'parking', label: 'Parking' },
+  { key: 'other', label: 'Other' },
+];
+
+// One cost on a job. Reimbursable items are billed to the client and count
+// toward income; the rest come out of the driver's pocket.
+export type ExpenseItem = {
+  id: string;
+  category: ExpenseCategory;
+  amount: number;
+  reimbursable: boolean;
+  note?: string;
+  receiptPath?: string | null; // object path in the private `receipts` bucket
+};
+
+export function newExpense(category: ExpenseCategory = 'train'): ExpenseItem {
+  return { id: uuidv4(), category, amount: 0, reimbursable: true, note: '', receiptPath: null };
+}
+
+export function categoryLabel(c: ExpenseCategory) { return EXPENSE_CATEGORIES.find((x) => x.key === c)?.label ?? 'Other'; }
+
+// Jobs saved before the ledger only had a single reimbursed `transport_expense` figure
+export function legacyExpenses(amount: number): ExpenseItem[] {
+  return amount ? [{ ...newExpense('other'), amount, note: 'Transport expense' }] : [];
+}
+
+// -----------------------
+// Totals
+// -----------------------
+type WithExpenses = { expenses?: ExpenseItem[] };
+
+export function reimbursedTotal(d: WithExpenses) {
+  return (d.expenses ?? []).reduce((acc, e) => acc + (e.reimbursable ? Number(e.amount) || 0 : 0), 0);
+}
+export function ownCostTotal(d: WithExpenses) {
+  return (d.expenses ?? []).reduce((acc, e) => acc + (e.reimbursable ? 0 : Number(e.amount) || 0), 0);
+}
+
+// -----------------------
+// Receipts
+// -----------------------
+const BUCKET = 'receipts';
+
+export function captureReceipt(userId: string, expenseId: string, source: PhotoSource) {
+  return pickAndUpload(BUCKET, `${userId}/${expenseId}`, source);
+}
+
+// The bucket is never public; receipts are viewed through short-lived links
+export function receiptUrl(path: string) { return signedUrl(BUCKET, path); }
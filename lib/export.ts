@@ -0,0 +1,151 @@
+import { Delivery } from '@/lib/deliveries';
+import { ownCostTotal, reimbursedTotal } from '@/lib/expenses';
+import { currencySymbol, distanceUnit, toDisplayDistance, toDisplayRate } from '@/lib/format';
+import { statusLabel } from '@/lib/lifecycle';
+import { actualAt, durationMinutes, scheduledAt, TIME_POINTS, waitingMinutes } from '@/lib/times';
+import { buildXlsx, Cell } from '@/lib/xlsx';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+// -----------------------
+// Spreadsheet export
+// -----------------------
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Lookups a column needs beyond the delivery itself
+export type ExportContext = { clientName: (id?: string | null) => string };
+
+// `unit` columns get the user's currency or distance unit appended to the header;
+// `optional` ones start switched off
+export type ExportColumn = { key: string; label: string; unit?: 'money' | 'distance' | 'rate'; optional?: boolean; value: (d: Delivery, ctx: ExportContext) => Cell };
+
+// Local wall-clock time, with the date for actual stamps since a job can run past midnight
+const pad = (n: number) => String(n).padStart(2, '0');
+const clock = (t: Date | null) => (t ? `${pad(t.getHours())}:${pad(t.getMinutes())}` : '');
+const stamp = (t: Date | null) => (t ? `${t.getFullYear()}-${pad(t.getMonth() + 1)}-${pad(t.getDate())} ${clock(t)}` : '');
+
+const TIME_COLUMNS: ExportColumn[] = TIME_POINTS.flatMap(({ key, label }) => [
+  { key: `scheduled_${key}`, label: `${label} (scheduled)`, optional: true, value: (d: Delivery) => clock(scheduledAt(d, key)) },
+  { key: `actual_${key}`, label: `${label} (actual)`, optional: true, value: (d: Delivery) => stamp(actualAt(d, key)) },
+]);
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'dateISO', label: 'Date', value: (d) => d.dateISO },
+  { key: 'carMake', label: 'Make', value: (d) => d.carMake },
+  { key: 'carModel', label: 'Model', value: (d) => d.carModel },
+  { key: 'reg', label: 'Reg', value: (d) => d.reg },
+  { key: 'client', label: 'Client', value: (d, ctx) => ctx.clientName(d.clientId) },
+  { key: 'pickup', label: 'Pickup', value: (d) => d.pickup },
+  { key: 'dropoff', label: 'Drop-off', value: (d) => d.dropoff },
+  { key: 'distanceKm', label: 'Distance', unit: 'distance', value: (d) => toDisplayDistance(d.distanceKm) },
+  { key: 'distanceEstimated', label: 'Distance Estimated', value: (d) => (d.distanceEstimated ? 'yes' : '') },
+  { key: 'ratePerKm', label: 'Rate', unit: 'rate', value: (d) => toDisplayRate(d.ratePerKm) },
+  { key: 'fixedFee', label: 'Fixed Fee', unit: 'money', value: (d) => Number(d.fixedFee) || 0 },
+  { key: 'earnings', label: 'Earnings', unit: 'money', value: (d) => Number(d.earnings) || 0 },
+  { key: 'transportExpense', label: 'Reimbursed Expenses', unit: 'money', value: (d) => reimbursedTotal(d) },
+  { key: 'ownCosts', label: 'Unreimbursed Expenses', unit: 'money', value: (d) => ownCostTotal(d) },
+  { key: 'income', label: 'Income', unit: 'money', value: (d) => (Number(d.earnings) || 0) + reimbursedTotal(d) },
+  ...TIME_COLUMNS,
+  { key: 'waitingMinutes', label: 'Waiting (min)', value: (d) => waitingMinutes(d) },
+  { key: 'durationMinutes', label: 'Duration (min)', value: (d) => durationMinutes(d) },
+  { key: 'status', label: 'Status', value: (d) => statusLabel(d.status) },
+  { key: 'notes', label: 'Notes', value: (d) => d.notes ?? '' },
+  { key: 'id', label: 'ID', optional: true, value: (d) => d.id },
+];
+
+export function columnLabel(c: ExportColumn) {
+  if (!c.unit) return c.label;
+  const unit = c.unit === 'money' ? currencySymbol() : c.unit === 'distance' ? distanceUnit() : `${currencySymbol()}/${distanceUnit()}`;
+  return `${c.label} (${unit})`;
+}
+
+// Saved as an ordered list of { key, enabled } so the user's column order sticks.
+export type ColumnPref = { key: string; enabled: boolean };
+
+const COLUMNS_KEY = 'car_delivery_tracker__export_columns_v1';
+
+// Keeps the saved order, drops columns that no longer exist, appends new ones at the end
+export function mergeColumnPrefs(raw: string | null, defaults: ColumnPref[]): ColumnPref[] {
+  if (!raw) return defaults;
+  try {
+    const saved: ColumnPref[] = JSON.parse(raw);
+    if (!Array.isArray(saved)) return defaults;
+    const known = saved.filter((p) => EXPORT_COLUMNS.some((c) => c.key === p.key));
+    return [...known, ...defaults.filter((d) => !known.some((p) => p.key === d.key))];
+  } catch { return defaults; }
+}
+
+export async function loadColumnPrefs(): Promise<ColumnPref[]> {
+  return mergeColumnPrefs(await AsyncStorage.getItem(COLUMNS_KEY), EXPORT_COLUMNS.map((c) => ({ key: c.key, enabled: !c.optional })));
+}
+export async function saveColumnPrefs(prefs: ColumnPref[]) { await AsyncStorage.setItem(COLUMNS_KEY, JSON.stringify(prefs)); }
+
+function pick(prefs: ColumnPref[]) {
+  return prefs.filter((p) => p.enabled).map((p) => EXPORT_COLUMNS.find((c) => c.key === p.key)!).filter(Boolean);
+}
+
+// Text starting like a formula gets a leading apostrophe so a spreadsheet
+// shows it rather than running it (CSV injection); real numbers pass as is.
+const FORMULA = /^[=+\-@\t\r]/;
+
+function csvCell(v: Cell) {
+  const raw = v === null || v === undefined ? '' : String(v);
+  const s = typeof v !== 'number' && FORMULA.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(list: Delivery[], prefs: ColumnPref[], ctx: ExportContext) {
+  const cols = pick(prefs);
+  const lines = [cols.map((c) => csvCell(columnLabel(c))).join(','), ...list.map((d) => cols.map((c) => csvCell(c.value(d, ctx))).join(','))];
+  return lines.join('\r\n');
+}
+
+export function toXLSX(list: Delivery[], prefs: ColumnPref[], ctx: ExportContext) {
+  const cols = pick(prefs);
+  return buildXlsx([cols.map(columnLabel), ...list.map((d) => cols.map((c) => c.value(d, ctx)))], 'Deliveries');
+}
+
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+function toBase64(bytes: Uint8Array) {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? B64[(n >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? B64[n & 63] : '=';
+  }
+  return out;
+}
+
+const MIME: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Writes the file to the cache directory and hands it to the native share sheet
+// (or downloads it on web, where neither is available).
+export async function shareExport(list: Delivery[], prefs: ColumnPref[], format: ExportFormat, ctx: ExportContext, baseName = 'deliveries') {
+  const name = `${baseName}.${format}`;
+  // The BOM tells Excel the CSV is UTF-8, or "£" in the headers comes out garbled
+  const body = format === 'csv' ? `\uFEFF${toCSV(list, prefs, ctx)}` : toXLSX(list, prefs, ctx);
+
+  if (Platform.OS === 'web') {
+    const blob = new Blob([body], { type: MIME[format] });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = name;
+    a.click();
+    // Revoking straight away can cancel the download before the browser starts it
+    setTimeout(() => URL.revokeObjectURL(a.href), 60000);
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${name}`;
+  if (typeof body === 'string') await FileSystem.writeAsStringAsync(uri, body, { encoding: FileSystem.EncodingType.UTF8 });
+  else await FileSystem.writeAsStringAsync(uri, toBase64(body), { encoding: FileSystem.EncodingType.Base64 });
+
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  await Sharing.shareAsync(uri, { mimeType: MIME[format], dialogTitle: 'Export deliveries', UTI: format === 'csv' ? 'public.comma-separated-values-text' : 'org.openxmlformats.spreadsheetml.sheet' });
+}
@@ -0,0 +1,32 @@
+import { Delivery } from '@/lib/deliveries';
+import { getWeekRange, iso, isWithin } from '@/lib/format';
+
+// -----------------------
+// List filters
+// -----------------------
+// Shared by the job list and the analytics screen so both cover the same jobs.
+export type DateFilter = 'all' | 'today' | 'week' | 'month' | 'custom';
+
+export const DATE_FILTERS: DateFilter[] = ['today', 'week', 'month', 'all', 'custom'];
+
+export function isDateFilter(v: unknown): v is DateFilter { return DATE_FILTERS.includes(v as DateFilter); }
+
+// The dates a filter covers, or null for all time. A custom range open at one
+// end runs to the start or end of the calendar.
+export function filterRange(filter: DateFilter, customFrom = '', customTo = '', now = new Date()): { startISO: string; endISO: string } | null {
+  if (filter === 'today') return { startISO: iso(now), endISO: iso(now) };
+  if (filter === 'week') return getWeekRange(now);
+  if (filter === 'month') return { startISO: iso(new Date(now.getFullYear(), now.getMonth(), 1)), endISO: iso(new Date(now.getFullYear(), now.getMonth() + 1, 0)) };
+  if (filter === 'custom' && (customFrom || customTo)) return { startISO: customFrom || '0000-01-01', endISO: customTo || '9999-12-31' };
+  return null;
+}
+
+export function filterByDate(list: Delivery[], filter: DateFilter, customFrom = '', customTo = '', now = new Date()) {
+  const range = filterRange(filter, customFrom, customTo, now);
+  return range ? list.filter((d) => isWithin(d.dateISO, range.startISO, range.endISO)) : list;
+}
+
+export function filterLabel(filter: DateFilter, customFrom = '', customTo = '') {
+  if (filter !== 'custom') return { all: 'All time', today: 'Today', week: 'This week', month: 'This month' }[filter];
+  return `${customFrom || '…'} to ${customTo || '…'}`;
+}
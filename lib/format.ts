@@ -0,0 +1,70 @@
+import { getSettings } from '@/lib/settings';
+
+// -----------------------
+// Formatting & date helpers
+// -----------------------
+// Intl formatters are slow to build, so keep one per settings combination
+const formatters = new Map<string, Intl.NumberFormat>();
+function formatter(key: string, make: () => Intl.NumberFormat) {
+  if (!formatters.has(key)) formatters.set(key, make());
+  return formatters.get(key)!;
+}
+
+export function currency(n: number) {
+  const { locale, currency: code } = getSettings();
+  const f = formatter(`${locale}|${code}`, () => new Intl.NumberFormat(locale, { style: 'currency', currency: code }));
+  return f.format(isNaN(n) ? 0 : n);
+}
+export function currencySymbol() { return currency(0).replace(/[\d\s.,]/g, ''); }
+
+export function number(n: number, maxDecimals = 1) {
+  const { locale } = getSettings();
+  return formatter(`${locale}|${maxDecimals}`, () => new Intl.NumberFormat(locale, { maximumFractionDigits: maxDecimals })).format(isNaN(n) ? 0 : n);
+}
+
+// Display only; form fields and stored values stay YYYY-MM-DD
+export function dateLabel(dateISO: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateISO)) return dateISO;
+  return new Date(`${dateISO}T12:00:00`).toLocaleDateString(getSettings().locale, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+export function dateTimeLabel(at: string) { return new Date(at).toLocaleString(getSettings().locale, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }); }
+export function timeLabel(d: Date | null) { return d ? d.toLocaleTimeString(getSettings().locale, { hour: '2-digit', minute: '2-digit' }) : '—'; }
+export function iso(d: Date) { return d.toISOString().slice(0, 10); }
+export function getWeekRange(date = new Date(), weekStartsOn = getSettings().weekStartsOn) {
+  const d = new Date(date);
+  const day = (d.getDay() - weekStartsOn + 7) % 7; // days since the week began
+  const first = new Date(d);
+  first.setDate(d.getDate() - day);
+  const last = new Date(first);
+  last.setDate(first.getDate() + 6);
+  return { startISO: iso(first), endISO: iso(last) };
+}
+export function isWithin(dateISO: string, startISO: string, endISO: string) { return dateISO >= startISO && dateISO <= endISO; }
+
+// -----------------------
+// Distance units
+// -----------------------
+// Distances are stored in km and rates per km; these convert to and from the
+// unit the user works in. Display values are rounded so a rate typed per mile
+// reads back exactly as entered.
+export const KM_PER_MILE = 1.609344;
+
+const perUnit = () => (getSettings().distanceUnit === 'mi' ? KM_PER_MILE : 1);
+const tidy = (n: number) => Math.round(n * 1e6) / 1e6;
+
+export function distanceUnit() { return getSettings().distanceUnit; }
+export function toDisplayDistance(km: number) { return tidy((Number(km) || 0) / perUnit()); }
+export function fromDisplayDistance(v: number) { return (Number(v) || 0) * perUnit(); }
+export function toDisplayRate(perKm: number) { return tidy((Number(perKm) || 0) * perUnit()); }
+export function fromDisplayRate(v: number) { return (Number(v) || 0) / perUnit(); }
+
+export function distance(km: number) { return `${number(toDisplayDistance(km))} ${distanceUnit()}`; }
+export function rate(perKm: number) { return `${currency(toDisplayRate(perKm))}/${distanceUnit()}`; }
+
+// -----------------------
+// HTML (PDF templates)
+// -----------------------
+export function esc(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+export const br = (s: string) => esc(s).replace(/\n/g, '<br/>');
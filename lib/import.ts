@@ -0,0 +1,160 @@
+import { parseCSV, sniffDelimiter } from '@/lib/csv';
+import { Delivery, Draft } from '@/lib/deliveries';
+import { legacyExpenses } from '@/lib/expenses';
+import { currencySymbol, KM_PER_MILE } from '@/lib/format';
+import type { DistanceUnit } from '@/lib/settings';
+
+// -----------------------
+// Agency CSV import
+// -----------------------
+export type ImportField = 'dateISO' | 'reg' | 'carMake' | 'carModel' | 'pickup' | 'dropoff' | 'distanceKm' | 'ratePerKm' | 'fixedFee' | 'transportExpense' | 'notes';
+
+// `unit` fields get the currency or distance unit appended to their label
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; unit?: 'money' | 'distance' | 'rate' }[] = [
+  { key: 'dateISO', label: 'Date', required: true },
+  { key: 'reg', label: 'Reg', required: true },
+  { key: 'carMake', label: 'Make' },
+  { key: 'carModel', label: 'Model' },
+  { key: 'pickup', label: 'Pickup' },
+  { key: 'dropoff', label: 'Drop-off' },
+  { key: 'distanceKm', label: 'Distance', unit: 'distance' },
+  { key: 'ratePerKm', label: 'Rate', unit: 'rate' },
+  { key: 'fixedFee', label: 'Fee', unit: 'money' },
+  { key: 'transportExpense', label: 'Expense', unit: 'money' },
+  { key: 'notes', label: 'Notes' },
+];
+
+// Column index in the CSV for each field; -1 means not mapped.
+export type ColumnMapping = Record<ImportField, number>;
+
+export type ImportRow = {
+  line: number; // 1-based line in the file, header included
+  draft: Draft;
+  errors: string[];
+  duplicate: boolean; // same reg + date already logged, or earlier in this file
+};
+
+const SYNONYMS: Record<ImportField, string[]> = {
+  dateISO: ['date', 'jobdate', 'deliverydate', 'collectiondate', 'day'],
+  reg: ['reg', 'registration', 'regno', 'regplate', 'vrm', 'plate', 'numberplate'],
+  carMake: ['make', 'manufacturer', 'carmake', 'vehiclemake'],
+  carModel: ['model', 'carmodel', 'vehiclemodel', 'vehicle'],
+  pickup: ['pickup', 'from', 'collection', 'collectfrom', 'origin', 'pickuplocation'],
+  dropoff: ['dropoff', 'to', 'delivery', 'deliverto', 'destination', 'dropofflocation'],
+  distanceKm: ['distance', 'distancekm', 'distancemiles', 'km', 'kms', 'miles', 'mileage'],
+  ratePerKm: ['rate', 'rateperkm', 'ratepermile', 'perkm', 'permile'],
+  fixedFee: ['fee', 'fixedfee', 'price', 'amount', 'pay', 'jobfee'],
+  transportExpense: ['expense', 'expenses', 'transport', 'transportexpense', 'travel'],
+  notes: ['notes', 'note', 'comments', 'reference', 'ref'],
+};
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function readCSV(text: string): { headers: string[]; rows: string[][] } {
+  const [headers = [], ...rows] = parseCSV(text, sniffDelimiter(text));
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+// The unit a distance or rate column is in: its header when that names one
+// ("Mileage", "Rate per km"), otherwise the unit the user works in.
+export function columnUnit(header: string, fallback: DistanceUnit): DistanceUnit {
+  const h = norm(header);
+  if (/mile|mi$/.test(h)) return 'mi';
+  if (/km|kilomet/.test(h)) return 'km';
+  return fallback;
+}
+
+export function fieldLabel(f: typeof IMPORT_FIELDS[number], unit: DistanceUnit) {
+  if (!f.unit) return f.label;
+  const u = f.unit === 'money' ? currencySymbol() : f.unit === 'distance' ? unit : `${currencySymbol()}/${unit}`;
+  return `${f.label} (${u})`;
+}
+
+// Best guess from the header names; the user can correct it before importing.
+export function guessMapping(headers: string[]): ColumnMapping {
+  const keys = headers.map(norm);
+  const used = new Set<number>();
+  const out = {} as ColumnMapping;
+  for (const { key } of IMPORT_FIELDS) {
+    const i = keys.findIndex((h, idx) => !used.has(idx) && SYNONYMS[key].includes(h));
+    out[key] = i;
+    if (i >= 0) used.add(i);
+  }
+  return out;
+}
+
+// Accepts ISO dates plus the UK day-first forms agencies export (10/08/2025, 10-08-25).
+export function parseDate(v: string): string | null {
+  const s = v.trim();
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return check(+m[1], +m[2], +m[3]);
+  m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) return check(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[2], +m[1]);
+  return null;
+
+  function check(y: number, mo: number, d: number) {
+    const dt = new Date(Date.UTC(y, mo - 1, d));
+    if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== mo - 1 || dt.getUTCDate() !== d) return null;
+    return dt.toISOString().slice(0, 10);
+  }
+}
+
+export function parseAmount(v: string): number | null {
+  const s = v.trim().replace(/[£$€,\s]/g, '');
+  if (!s) return 0;
+  const n = Number(s);
+  return isFinite(n) ? n : null;
+}
+
+// A distance in km. A unit written in the cell ("12 mi", "20km") wins over the column's.
+export function parseDistance(v: string, unit: DistanceUnit): number | null {
+  const m = v.trim().match(/^(.*?)\s*(km|kms|kilometres?|kilometers?|mi|miles?)?$/i);
+  const n = parseAmount(m?.[1] ?? v);
+  if (n === null) return null;
+  const inMiles = m?.[2] ? /^mi/i.test(m[2]) : unit === 'mi';
+  return inMiles ? n * KM_PER_MILE : n;
+}
+
+export const dupKey = (reg: string, dateISO: string) => `${reg.replace(/\s+/g, '').toUpperCase()}|${dateISO}`;
+
+// `units` says what the distance and rate columns are in (see columnUnit);
+// both are stored per km.
+export function buildRows(rows: string[][], mapping: ColumnMapping, existing: Delivery[], units: { distance: DistanceUnit; rate: DistanceUnit }): ImportRow[] {
+  const seen = new Set(existing.map((d) => dupKey(d.reg, d.dateISO)));
+  return rows.map((cells, idx) => {
+    const errors: string[] = [];
+    const cell = (k: ImportField) => (mapping[k] >= 0 ? (cells[mapping[k]] ?? '').trim() : '');
+    const num = (k: ImportField, label: string, parse: (v: string) => number | null = parseAmount) => {
+      const n = parse(cell(k));
+      if (n === null) { errors.push(`${label} "${cell(k)}" is not a number`); return 0; }
+      if (n < 0) { errors.push(`${label} cannot be negative`); return 0; }
+      return n;
+    };
+
+    const dateISO = parseDate(cell('dateISO'));
+    if (!dateISO) errors.push(cell('dateISO') ? `Date "${cell('dateISO')}" not recognised` : 'Missing date');
+    const reg = cell('reg').toUpperCase();
+    if (!reg) errors.push('Missing reg');
+
+    const draft: Draft = {
+      dateISO: dateISO ?? '',
+      reg,
+      carMake: cell('carMake'),
+      carModel: cell('carModel'),
+      pickup: cell('pickup'),
+      dropoff: cell('dropoff'),
+      distanceKm: num('distanceKm', 'Distance', (v) => parseDistance(v, units.distance)),
+      ratePerKm: num('ratePerKm', 'Rate') / (units.rate === 'mi' ? KM_PER_MILE : 1),
+      fixedFee: num('fixedFee', 'Fee'),
+      expenses: legacyExpenses(num('transportExpense', 'Expense')), // statements give one total per job
+      earnings: 0,
+      status: 'booked',
+      notes: cell('notes'),
+    };
+
+    const key = dupKey(reg, draft.dateISO);
+    const duplicate = !!reg && !!dateISO && seen.has(key);
+    if (reg && dateISO) seen.add(key);
+    return { line: idx + 2, draft, errors, duplicate };
+  });
+}
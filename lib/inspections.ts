@@ -0,0 +1,195 @@
+import { pickAndUpload, PhotoSource, signedUrls } from '@/lib/storage';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+export type InspectionStage = 'pickup' | 'dropoff';
+
+export type PhotoSlot =
+  | 'frontLeft' | 'frontRight' | 'rearLeft' | 'rearRight'
+  | 'wheelFrontLeft' | 'wheelFrontRight' | 'wheelRearLeft' | 'wheelRearRight'
+  | 'interior' | 'dashboard';
+
+// The guided set, in the order a walk-round takes them
+export const PHOTO_SLOTS: { key: PhotoSlot; label: string }[] = [
+  { key: 'frontLeft', label: 'Front left corner' },
+  { key: 'frontRight', label: 'Front right corner' },
+  { key: 'rearRight', label: 'Rear right corner' },
+  { key: 'rearLeft', label: 'Rear left corner' },
+  { key: 'wheelFrontLeft', label: 'Front left wheel' },
+  { key: 'wheelFrontRight', label: 'Front right wheel' },
+  { key: 'wheelRearRight', label: 'Rear right wheel' },
+  { key: 'wheelRearLeft', label: 'Rear left wheel' },
+  { key: 'interior', label: 'Interior' },
+  { key: 'dashboard', label: 'Dashboard (odometer & warnings)' },
+];
+
+export type InspectionPhoto = { path: string; takenAt: string };
+
+// Position on the top-down car outline, as fractions of its width and height
+export type DamageMarker = { id: string; x: number; y: number; note: string; createdAt: string };
+
+export type Inspection = {
+  id: string;
+  deliveryId: string;
+  stage: InspectionStage;
+  photos: Partial<Record<PhotoSlot, InspectionPhoto>>;
+  markers: DamageMarker[];
+  odometer: number | null; // miles or km as shown on the dash
+  fuelEighths: number | null; // 0 = empty, 8 = full
+  notes: string;
+  startedAt: string;
+  completedAt: string | null;
+  updatedAt: string; // last save; the newer copy wins when two exist for a stage
+};
+
+export function newInspection(deliveryId: string, stage: InspectionStage): Inspection {
+  return { id: uuidv4(), deliveryId, stage, photos: {}, markers: [], odometer: null, fuelEighths: null, notes: '', startedAt: new Date().toISOString(), completedAt: null, updatedAt: '' };
+}
+
+export function newMarker(x: number, y: number): DamageMarker {
+  return { id: uuidv4(), x, y, note: '', createdAt: new Date().toISOString() };
+}
+
+export const FUEL_LABELS = ['E', '⅛', '¼', '⅜', '½', '⅝', '¾', '⅞', 'F'];
+
+export function missingPhotos(i: Inspection) { return PHOTO_SLOTS.filter((s) => !i.photos[s.key]); }
+
+// -----------------------
+// Local cache
+// -----------------------
+// Keeps inspections readable offline and keeps one that failed to save.
+const INSPECTIONS_KEY = 'car_delivery_tracker__inspections_v1';
+
+async function loadAll(): Promise<Inspection[]> {
+  const raw = await AsyncStorage.getItem(INSPECTIONS_KEY);
+  if (!raw) return [];
+  try { const parsed: Inspection[] = JSON.parse(raw); return Array.isArray(parsed) ? parsed : []; } catch { return []; }
+}
+async function saveAll(list: Inspection[]) { await AsyncStorage.setItem(INSPECTIONS_KEY, JSON.stringify(list)); }
+
+async function cacheFor(deliveryId: string) { return (await loadAll()).filter((i) => i.deliveryId === deliveryId); }
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `inspections` (snake_case): id, user_id, delivery_id, stage, photos (jsonb),
+// markers (jsonb), odometer, fuel_eighths, notes, started_at, completed_at,
+// updated_at, unique (delivery_id, stage). Photos live in the private `inspections` bucket.
+
+type InspectionRow = {
+  id: string;
+  user_id: string;
+  delivery_id: string;
+  stage: InspectionStage;
+  photos: Inspection['photos'] | null;
+  markers: DamageMarker[] | null;
+  odometer: number | string | null;
+  fuel_eighths: number | null;
+  notes: string | null;
+  started_at: string;
+  completed_at: string | null;
+  updated_at: string | null;
+};
+
+function rowToInspection(r: InspectionRow): Inspection {
+  return {
+    id: r.id,
+    deliveryId: r.delivery_id,
+    stage: r.stage,
+    photos: r.photos ?? {},
+    markers: r.markers ?? [],
+    odometer: r.odometer === null ? null : Number(r.odometer),
+    fuelEighths: r.fuel_eighths,
+    notes: r.notes || '',
+    startedAt: r.started_at,
+    completedAt: r.completed_at,
+    updatedAt: r.updated_at ?? '',
+  };
+}
+
+// The copy to keep when this device and the server both hold one for a stage.
+// Edits to the same inspection: the newer wins. Two separate captures (one
+// started offline, say): the newer wins but keeps the other's photos and
+// damage markers, so no evidence is dropped. Saved under the server's id,
+// since there is one inspection per (delivery, stage).
+function combine(cached: Inspection, remote: Inspection): Inspection {
+  const [newer, older] = (cached.updatedAt ?? '') > remote.updatedAt ? [cached, remote] : [remote, cached];
+  if (cached.id === remote.id) return newer;
+  return {
+    ...newer,
+    id: remote.id,
+    updatedAt: new Date().toISOString(), // a new version, so it still wins if this upload fails
+    photos: { ...older.photos, ...newer.photos },
+    markers: [...newer.markers, ...older.markers.filter((m) => !newer.markers.some((n) => n.id === m.id))],
+  };
+}
+
+// Server copy for one delivery, falling back to the cache offline. Cached
+// inspections the server hasn't got, or has an older copy of (a save that
+// failed), are merged by stage and sent again.
+export async function fetchInspections(userId: string, deliveryId: string): Promise<Inspection[]> {
+  const { data, error } = await supabase.from('inspections').select('*').eq('user_id', userId).eq('delivery_id', deliveryId);
+  const cached = await cacheFor(deliveryId);
+  if (error) return cached;
+  const remote = (data as InspectionRow[]).map(rowToInspection);
+  const list: Inspection[] = [];
+  for (const stage of ['pickup', 'dropoff'] as const) {
+    const r = remote.find((i) => i.stage === stage);
+    const c = cached.find((i) => i.stage === stage);
+    // Nothing local, or the local copy is what the server already has
+    if (!c || (r && c.id === r.id && (c.updatedAt ?? '') <= r.updatedAt)) {
+      if (r) list.push(r);
+      continue;
+    }
+    const next = r ? combine(c, r) : c;
+    list.push(await saveInspection(userId, next).catch(() => next));
+  }
+  await saveAll([...list, ...(await loadAll()).filter((i) => i.deliveryId !== deliveryId)]);
+  return list;
+}
+
+export async function saveInspection(userId: string, input: Inspection): Promise<Inspection> {
+  const insp = { ...input, updatedAt: new Date().toISOString() };
+  // Cache first so nothing captured at the roadside is lost if the upsert fails
+  await saveAll([insp, ...(await loadAll()).filter((i) => i.id !== insp.id)]);
+  const { data, error } = await supabase
+    .from('inspections')
+    .upsert({
+      id: insp.id,
+      user_id: userId,
+      delivery_id: insp.deliveryId,
+      stage: insp.stage,
+      photos: insp.photos,
+      markers: insp.markers,
+      odometer: insp.odometer,
+      fuel_eighths: insp.fuelEighths,
+      notes: insp.notes,
+      started_at: insp.startedAt,
+      completed_at: insp.completedAt,
+      updated_at: insp.updatedAt,
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return rowToInspection(data as InspectionRow);
+}
+
+// -----------------------
+// Photos
+// -----------------------
+const BUCKET = 'inspections';
+
+export async function capturePhoto(userId: string, insp: Inspection, slot: PhotoSlot, source: PhotoSource): Promise<InspectionPhoto | null> {
+  const path = await pickAndUpload(BUCKET, `${userId}/${insp.deliveryId}/${insp.stage}-${slot}`, source);
+  return path ? { path, takenAt: new Date().toISOString() } : null;
+}
+
+export function photoUrls(insp: Inspection) {
+  const photos = Object.values(insp.photos).filter((p): p is InspectionPhoto => !!p);
+  return signedUrls(BUCKET, photos.map((p) => p.path));
+}
@@ -0,0 +1,315 @@
+import { Delivery } from '@/lib/deliveries';
+import { categoryLabel } from '@/lib/expenses';
+import { br, currency, distance, distanceUnit, esc, toDisplayDistance, toDisplayRate } from '@/lib/format';
+import { supabase } from '@/lib/supabase';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+export type BusinessDetails = {
+  businessName: string;
+  businessAddress: string;
+  businessEmail: string;
+  businessPhone: string;
+  bankName: string;
+  sortCode: string;
+  accountNumber: string;
+  vatNumber: string;
+};
+
+export type InvoiceLine = {
+  deliveryId: string;
+  description: string;
+  kind: 'fee' | 'distance' | 'expense' | 'charge';
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+};
+
+export type Invoice = {
+  id: string;
+  kind: 'invoice' | 'credit_note';
+  seq: number; // per user and kind, starting at 1
+  number: string; // e.g. 'INV-0007' or 'CN-0002'
+  status: 'issued' | 'credited';
+  creditsInvoiceId: string | null; // credit notes only: the invoice being cancelled
+  clientId: string | null;
+  clientName: string;
+  clientAddress: string;
+  issueDateISO: string;
+  periodFrom: string;
+  periodTo: string;
+  lines: InvoiceLine[];
+  total: number;
+  deliveryIds: string[];
+  business: BusinessDetails; // snapshot at issue time so later profile edits don't rewrite old invoices
+  createdAt: string;
+};
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `invoices` (snake_case): id, user_id, kind, seq, number, status,
+// credits_invoice_id, client_id, client_name, client_address, issue_date_iso, period_from,
+// period_to, lines (jsonb), total, delivery_ids (uuid[]), business (jsonb), created_at
+// with a unique (user_id, kind, seq) constraint. `deliveries.invoice_id` links back.
+
+type InvoiceRow = {
+  id: string;
+  user_id: string;
+  kind: Invoice['kind'];
+  seq: number;
+  number: string;
+  status: Invoice['status'];
+  credits_invoice_id: string | null;
+  client_id: string | null;
+  client_name: string | null;
+  client_address: string | null;
+  issue_date_iso: string;
+  period_from: string;
+  period_to: string;
+  lines: InvoiceLine[] | null;
+  total: number | string | null;
+  delivery_ids: string[] | null;
+  business: BusinessDetails | null;
+  created_at: string;
+};
+
+function rowToInvoice(r: InvoiceRow): Invoice {
+  return {
+    id: r.id,
+    kind: r.kind,
+    seq: r.seq,
+    number: r.number,
+    status: r.status,
+    creditsInvoiceId: r.credits_invoice_id,
+    clientId: r.client_id ?? null,
+    clientName: r.client_name || '',
+    clientAddress: r.client_address || '',
+    issueDateISO: r.issue_date_iso,
+    periodFrom: r.period_from,
+    periodTo: r.period_to,
+    lines: r.lines ?? [],
+    total: Number(r.total ?? 0),
+    deliveryIds: r.delivery_ids ?? [],
+    business: { ...emptyBusiness(), ...(r.business ?? {}) },
+    createdAt: r.created_at,
+  };
+}
+
+export function emptyBusiness(): BusinessDetails {
+  return { businessName: '', businessAddress: '', businessEmail: '', businessPhone: '', bankName: '', sortCode: '', accountNumber: '', vatNumber: '' };
+}
+
+export async function fetchBusinessDetails(userId: string): Promise<BusinessDetails> {
+  const { data, error, status } = await supabase
+    .from('profiles')
+    .select('business_name, business_address, business_email, business_phone, bank_name, sort_code, account_number, vat_number')
+    .eq('id', userId)
+    .single();
+  if (error && status !== 406) throw error;
+  const p = (data ?? {}) as any;
+  return {
+    businessName: p.business_name || '',
+    businessAddress: p.business_address || '',
+    businessEmail: p.business_email || '',
+    businessPhone: p.business_phone || '',
+    bankName: p.bank_name || '',
+    sortCode: p.sort_code || '',
+    accountNumber: p.account_number || '',
+    vatNumber: p.vat_number || '',
+  };
+}
+
+export async function fetchInvoices(userId: string): Promise<Invoice[]> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as InvoiceRow[]).map(rowToInvoice);
+}
+
+// -----------------------
+// Line items
+// -----------------------
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function invoiceLines(d: Delivery): InvoiceLine[] {
+  const label = `${d.dateISO} · ${d.reg} · ${d.pickup} → ${d.dropoff}`;
+  const km = Number(d.distanceKm) || 0;
+  const rate = Number(d.ratePerKm) || 0;
+  const fee = Number(d.fixedFee) || 0;
+  const lines: InvoiceLine[] = [];
+  const earned = round2(Number(d.earnings) || 0);
+  const carded = !d.earningsManual && !!d.rateLines?.length && round2(d.rateLines.reduce((acc, l) => acc + l.amount, 0)) === earned;
+  if (!d.earningsManual && round2(km * rate + fee) === earned) {
+    if (fee) lines.push({ deliveryId: d.id, description: `${label} — fixed fee`, kind: 'fee', quantity: 1, unitPrice: fee, amount: round2(fee) });
+    if (km && rate) lines.push({ deliveryId: d.id, description: `${label} — ${distance(km)}`, kind: 'distance', quantity: toDisplayDistance(km), unitPrice: toDisplayRate(rate), amount: round2(km * rate) });
+  } else if (carded) {
+    // Bill the rate card's own steps so the client sees how the figure was reached
+    for (const l of d.rateLines!) lines.push({ deliveryId: d.id, description: `${label} — ${l.label}`, kind: 'charge', quantity: 1, unitPrice: l.amount, amount: round2(l.amount) });
+  } else {
+    // A manual earnings override can't be split into fee and mileage, so bill it as one charge
+    lines.push({ deliveryId: d.id, description: `${label} — delivery charge`, kind: 'charge', quantity: 1, unitPrice: d.earnings, amount: earned });
+  }
+  for (const e of d.expenses ?? []) {
+    const amount = Number(e.amount) || 0;
+    if (!e.reimbursable || !amount) continue;
+    lines.push({ deliveryId: d.id, description: `${label} — ${categoryLabel(e.category).toLowerCase()}${e.note ? ` (${e.note})` : ''}`, kind: 'expense', quantity: 1, unitPrice: amount, amount: round2(amount) });
+  }
+  return lines;
+}
+
+// -----------------------
+// Issuing
+// -----------------------
+const PREFIX: Record<Invoice['kind'], string> = { invoice: 'INV', credit_note: 'CN' };
+
+async function nextSeq(userId: string, kind: Invoice['kind']) {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('seq')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .order('seq', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return ((data?.[0] as { seq: number } | undefined)?.seq ?? 0) + 1;
+}
+
+// Numbers are allocated by reading the highest one; if another device takes the
+// same number first the unique constraint rejects ours and we try the next.
+async function insertNumbered(userId: string, row: Omit<InvoiceRow, 'seq' | 'number' | 'user_id'>): Promise<Invoice> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const seq = await nextSeq(userId, row.kind);
+    const number = `${PREFIX[row.kind]}-${String(seq).padStart(4, '0')}`;
+    const { data, error } = await supabase.from('invoices').insert({ ...row, user_id: userId, seq, number }).select().single();
+    if (!error) return rowToInvoice(data as InvoiceRow);
+    if (error.code !== '23505') throw error;
+  }
+  throw new Error('Could not allocate an invoice number, please try again');
+}
+
+export type InvoiceInput = { clientId: string | null; clientName: string; clientAddress: string; periodFrom: string; periodTo: string; deliveries: Delivery[] };
+
+export async function createInvoice(userId: string, input: InvoiceInput): Promise<Invoice> {
+  const lines = input.deliveries.flatMap(invoiceLines);
+  return insertNumbered(userId, {
+    id: uuidv4(),
+    kind: 'invoice',
+    status: 'issued',
+    credits_invoice_id: null,
+    client_id: input.clientId,
+    client_name: input.clientName,
+    client_address: input.clientAddress,
+    issue_date_iso: new Date().toISOString().slice(0, 10),
+    period_from: input.periodFrom,
+    period_to: input.periodTo,
+    lines,
+    total: round2(lines.reduce((acc, l) => acc + l.amount, 0)),
+    delivery_ids: input.deliveries.map((d) => d.id),
+    business: await fetchBusinessDetails(userId),
+    created_at: new Date().toISOString(),
+  });
+}
+
+// Cancels an issued invoice in full. The original stays on record, marked credited.
+export async function createCreditNote(userId: string, inv: Invoice): Promise<Invoice> {
+  if (inv.kind !== 'invoice' || inv.status !== 'issued') throw new Error(`${inv.number} has already been credited`);
+  const lines = inv.lines.map((l) => ({ ...l, unitPrice: -l.unitPrice, amount: -l.amount }));
+  const note = await insertNumbered(userId, {
+    id: uuidv4(),
+    kind: 'credit_note',
+    status: 'issued',
+    credits_invoice_id: inv.id,
+    client_id: inv.clientId,
+    client_name: inv.clientName,
+    client_address: inv.clientAddress,
+    issue_date_iso: new Date().toISOString().slice(0, 10),
+    period_from: inv.periodFrom,
+    period_to: inv.periodTo,
+    lines,
+    total: -inv.total,
+    delivery_ids: inv.deliveryIds,
+    business: inv.business,
+    created_at: new Date().toISOString(),
+  });
+  const { error } = await supabase.from('invoices').update({ status: 'credited' }).eq('id', inv.id).eq('user_id', userId);
+  if (error) throw error;
+  return note;
+}
+
+// -----------------------
+// Rendering
+// -----------------------
+export function renderInvoiceHtml(inv: Invoice, credits?: Invoice): string {
+  const b = inv.business;
+  const title = inv.kind === 'credit_note' ? 'Credit Note' : 'Invoice';
+  const rows = inv.lines.map((l) => `
+    <tr>
+      <td>${esc(l.description)}</td>
+      <td class="num">${l.kind === 'distance' ? l.quantity : ''}</td>
+      <td class="num">${l.kind === 'distance' ? currency(l.unitPrice) : ''}</td>
+      <td class="num">${currency(l.amount)}</td>
+    </tr>`).join('');
+  const sub = (kind: InvoiceLine['kind'][]) => inv.lines.filter((l) => kind.includes(l.kind)).reduce((acc, l) => acc + l.amount, 0);
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/><title>${title} ${esc(inv.number)}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; padding: 32px; font-size: 12px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  .row { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+  .muted { color: #64748b; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 4px; border-bottom: 1px solid #e2e8f0; text-align: left; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals td { border: none; }
+  .grand td { font-weight: 700; font-size: 14px; border-top: 2px solid #0f172a; }
+</style></head>
+<body>
+  <div class="row">
+    <div>
+      <h1>${title}</h1>
+      <div>${esc(inv.number)}</div>
+      <div class="muted">Issued ${esc(inv.issueDateISO)} · Period ${esc(inv.periodFrom)} to ${esc(inv.periodTo)}</div>
+      ${credits ? `<div class="muted">Credits invoice ${esc(credits.number)}</div>` : ''}
+    </div>
+    <div style="text-align:right">
+      <strong>${esc(b.businessName)}</strong><br/>
+      ${br(b.businessAddress)}<br/>
+      ${esc(b.businessEmail)}${b.businessPhone ? ` · ${esc(b.businessPhone)}` : ''}
+      ${b.vatNumber ? `<br/>VAT ${esc(b.vatNumber)}` : ''}
+    </div>
+  </div>
+  <div class="row">
+    <div><span class="muted">Bill to</span><br/><strong>${esc(inv.clientName)}</strong><br/>${br(inv.clientAddress)}</div>
+  </div>
+  <table>
+    <thead><tr><th>Description</th><th class="num">${distanceUnit() === 'mi' ? 'Miles' : 'Km'}</th><th class="num">Rate</th><th class="num">Amount</th></tr></thead>
+    <tbody>${rows}</tbody>
+    <tbody class="totals">
+      <tr><td colspan="3" class="num">Delivery fees</td><td class="num">${currency(sub(['fee', 'distance', 'charge']))}</td></tr>
+      <tr><td colspan="3" class="num">Reimbursed expenses</td><td class="num">${currency(sub(['expense']))}</td></tr>
+      <tr class="grand"><td colspan="3" class="num">Total</td><td class="num">${currency(inv.total)}</td></tr>
+    </tbody>
+  </table>
+  ${b.accountNumber ? `<p class="muted">Payment by bank transfer: ${esc(b.bankName)} · Sort code ${esc(b.sortCode)} · Account ${esc(b.accountNumber)} · Reference ${esc(inv.number)}</p>` : ''}
+</body></html>`;
+}
+
+// Renders to PDF and opens the share sheet; on web the browser's print dialog saves the PDF.
+export async function shareInvoicePdf(inv: Invoice, credits?: Invoice) {
+  const html = renderInvoiceHtml(inv, credits);
+  if (Platform.OS === 'web') { await Print.printAsync({ html }); return; }
+  const { uri } = await Print.printToFileAsync({ html });
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  await Sharing.shareAsync(uri, { mimeType: 'application/pdf', dialogTitle: `${inv.number}.pdf`, UTI: 'com.adobe.pdf' });
+}
@@ -0,0 +1,137 @@
+import type { Delivery } from '@/lib/deliveries';
+import { emptyTimes, TimePoint } from '@/lib/times';
+
+// -----------------------
+// Statuses
+// -----------------------
+// booked → en route → collected → delivered → invoiced → paid, with two
+// ways out: cancelled (called off before collection) and aborted (failed
+// after setting off). Invoiced is reached through billing, not by hand; paid
+// by recording a payment or marking it, with or without an invoice.
+export type Status = 'booked' | 'en_route' | 'collected' | 'delivered' | 'invoiced' | 'paid' | 'aborted' | 'cancelled';
+
+export type StatusChange = {
+  from: Status | null; // null for the status a job was created with
+  to: Status;
+  at: string; // ISO timestamp
+  reason?: string;
+};
+
+export const STATUSES: { key: Status; label: string; color: string }[] = [
+  { key: 'booked', label: 'Booked', color: '#94a3b8' },
+  { key: 'en_route', label: 'En route', color: '#38bdf8' },
+  { key: 'collected', label: 'Collected', color: '#fbbf24' },
+  { key: 'delivered', label: 'Delivered', color: '#22c55e' },
+  { key: 'invoiced', label: 'Invoiced', color: '#a78bfa' },
+  { key: 'paid', label: 'Paid', color: '#10b981' },
+  { key: 'aborted', label: 'Aborted', color: '#dc2626' },
+  { key: 'cancelled', label: 'Cancelled', color: '#64748b' },
+];
+
+const NEXT: Record<Status, Status[]> = {
+  booked: ['en_route', 'collected', 'delivered', 'cancelled'],
+  en_route: ['collected', 'cancelled', 'aborted'],
+  collected: ['delivered', 'aborted'],
+  delivered: ['invoiced', 'paid'],
+  invoiced: ['paid'],
+  paid: [],
+  aborted: ['invoiced', 'paid'],
+  cancelled: ['invoiced', 'paid'],
+};
+
+// What a new job can start as: planned ahead, or logged after the fact
+export const START_STATUSES: Status[] = ['booked', 'delivered'];
+
+// Moving into these asks why
+export const NEEDS_REASON: Status[] = ['aborted', 'cancelled'];
+
+// Work not finished yet; left out of money figures
+const OPEN: Status[] = ['booked', 'en_route', 'collected'];
+
+export function statusLabel(s: Status) { return STATUSES.find((x) => x.key === s)?.label ?? s; }
+export function statusColor(s: Status) { return STATUSES.find((x) => x.key === s)?.color ?? '#94a3b8'; }
+export function isOpen(s: Status) { return OPEN.includes(s); }
+export function canMove(from: Status, to: Status) { return NEXT[from].includes(to); }
+
+// Moves the user can make from a job's screen; billing owns `invoiced`
+export function nextStatuses(s: Status) { return NEXT[s].filter((to) => to !== 'invoiced'); }
+
+// Statuses stored before the lifecycle existed
+export function normaliseStatus(raw: string | null | undefined, invoiceId?: string | null): Status {
+  if (STATUSES.some((x) => x.key === raw)) return raw as Status;
+  if (raw === 'completed') return invoiceId ? 'invoiced' : 'delivered';
+  if (raw === 'aborted' || raw === 'cancelled') return raw;
+  return 'booked';
+}
+
+// -----------------------
+// Transitions
+// -----------------------
+// Arriving at these stamps the matching actual time, unless one was tapped already
+const STAMPS: Partial<Record<Status, TimePoint>> = { en_route: 'start', collected: 'collection', delivered: 'end' };
+
+type Lifecycle = Pick<Delivery, 'status' | 'statusHistory' | 'times'>;
+
+export function transition(d: Lifecycle, to: Status, reason?: string, at = new Date().toISOString()): Lifecycle {
+  if (!canMove(d.status, to)) throw new Error(`A ${statusLabel(d.status).toLowerCase()} job can't be marked ${statusLabel(to).toLowerCase()}.`);
+  const times = d.times ?? emptyTimes();
+  const point = STAMPS[to];
+  const stamped = point && !times.actual[point] ? { ...times, actual: { ...times.actual, [point]: at } } : d.times;
+  const change: StatusChange = { from: d.status, to, at, ...(reason?.trim() ? { reason: reason.trim() } : {}) };
+  return { status: to, statusHistory: [...(d.statusHistory ?? []), change], times: stamped };
+}
+
+// Jobs saved for the first time open their history with the status they start in
+export function withStartEntry<T extends Pick<Delivery, 'status' | 'statusHistory'>>(d: T, at = new Date().toISOString()): T {
+  return d.statusHistory?.length ? d : { ...d, statusHistory: [{ from: null, to: d.status, at }] };
+}
+
+// Crediting an invoice puts its jobs back where they were before billing
+export function uninvoice(d: Lifecycle, reason: string, at = new Date().toISOString()): Lifecycle {
+  if (d.status !== 'invoiced' && d.status !== 'paid') return d;
+  const before = [...(d.statusHistory ?? [])].reverse().find((c) => c.to === 'invoiced')?.from ?? 'delivered';
+  return { ...d, status: before, statusHistory: [...(d.statusHistory ?? []), { from: d.status, to: before, at, reason }] };
+}
+
+// Removing a payment a job was settled by puts it back where it was before
+export function unpay(d: Lifecycle, reason: string, at = new Date().toISOString()): Lifecycle {
+  if (d.status !== 'paid') return d;
+  const before = [...(d.statusHistory ?? [])].reverse().find((c) => c.to === 'paid')?.from ?? 'delivered';
+  return { ...d, status: before, statusHistory: [...(d.statusHistory ?? []), { from: 'paid', to: before, at, reason }] };
+}
+
+// -----------------------
+// Invoice lock
+// -----------------------
+// A billed job only moves along its lifecycle (paid, unpaid) or leaves its
+// invoice by a credit note; everything else is fixed. Checked where jobs are
+// written, so no screen can get round it.
+const BILLING_FIELDS = ['status', 'statusHistory', 'invoiceId', 'version', 'updatedAt'];
+// Unset, false and empty read alike, so a field a save only filled in with its default doesn't count
+const blank = (v: unknown) => v === undefined || v === null || v === '' || v === false || (Array.isArray(v) && !v.length);
+const same = (a: unknown, b: unknown) => (blank(a) && blank(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+export function assertUnlocked(before: Delivery | undefined, after: Partial<Delivery>) {
+  if (!before?.invoiceId) return;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)].filter((k) => !BILLING_FIELDS.includes(k)));
+  const changed = [...keys].some((k) => !same(before[k as keyof Delivery], after[k as keyof Delivery]));
+  if (changed) throw new Error(`${before.reg || 'This job'} is invoiced. Credit its invoice (Invoices → Credit) to change it.`);
+}
+
+// -----------------------
+// Abort fees
+// -----------------------
+// Set per client. A job called off before the driver set off costs the
+// client nothing; once under way it's charged the flat fee plus a share of
+// what the job would have paid.
+export type AbortTerms = {
+  abortFee: number; // flat
+  abortPct: number; // % of the full job price
+};
+
+// Whether a cancelled or aborted job had got under way
+export function wasUnderWay(d: { status?: Status; statusHistory?: StatusChange[] }) {
+  if (d.status === 'aborted') return true;
+  const last = [...(d.statusHistory ?? [])].reverse().find((c) => c.to === d.status);
+  return !!last?.from && last.from !== 'booked';
+}
@@ -0,0 +1,45 @@
+import type { Client } from '@/lib/clients';
+import type { Draft } from '@/lib/deliveries';
+import { KM_PER_MILE } from '@/lib/format';
+
+// -----------------------
+// Deep links
+// -----------------------
+// redoo://deliveries/new?reg=AB12CDE&pickup=…&dropoff=…&fee=…  job form, pre-filled
+// redoo://deliveries/<id>                                       job details
+// redoo://profile                                               profile
+// Each is a route under app/ rendering that screen, so back leaves it.
+export type LinkParams = Record<string, string | string[] | undefined>;
+
+// Query keys a new-job link understands. Distances come as km or mi, the
+// rate always per km, so a link means the same whatever the app's units.
+export const PREFILL_KEYS = ['reg', 'make', 'model', 'pickup', 'dropoff', 'date', 'time', 'km', 'mi', 'rate', 'fee', 'client', 'notes'] as const;
+
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v)?.trim() ?? '';
+const amount = (v: string | string[] | undefined) => { const n = Number(first(v)); return first(v) && isFinite(n) && n >= 0 ? n : null; };
+
+// Turns a link's query into draft fields; anything missing or malformed is
+// left to the form's defaults. `client` matches a saved client by id or name.
+export function prefillFromLink(params: LinkParams, clients: Client[]): Partial<Draft> {
+  const out: Partial<Draft> = {};
+  const text = (k: typeof PREFILL_KEYS[number]) => first(params[k]);
+  if (text('reg')) out.reg = text('reg').toUpperCase().replace(/\s+/g, '');
+  if (text('make')) out.carMake = text('make');
+  if (text('model')) out.carModel = text('model');
+  if (text('pickup')) out.pickup = text('pickup');
+  if (text('dropoff')) out.dropoff = text('dropoff');
+  if (text('notes')) out.notes = text('notes');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text('date'))) out.dateISO = text('date');
+  if (/^\d{1,2}:\d{2}$/.test(text('time'))) out.startTime = text('time').padStart(5, '0');
+
+  const name = text('client').toLowerCase();
+  const client = name ? clients.find((c) => c.id === text('client') || c.name.toLowerCase() === name) : undefined;
+  if (client) Object.assign(out, { clientId: client.id, ratePerKm: client.ratePerKm, fixedFee: client.fixedFee });
+
+  const km = amount(params.km), mi = amount(params.mi), rate = amount(params.rate), fee = amount(params.fee);
+  if (km !== null) out.distanceKm = km;
+  else if (mi !== null) out.distanceKm = Math.round(mi * KM_PER_MILE * 1000) / 1000;
+  if (rate !== null) out.ratePerKm = rate;
+  if (fee !== null) out.fixedFee = fee;
+  return out;
+}
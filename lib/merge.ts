@@ -0,0 +1,62 @@
+import { Delivery } from '@/lib/deliveries';
+import { currencySymbol, distanceUnit } from '@/lib/format';
+
+// -----------------------
+// Three-way merge
+// -----------------------
+// `base` is the server copy a local edit started from. Fields only one side
+// changed merge cleanly; a field both sides changed to different values is a
+// conflict the user has to settle.
+
+export type MergeField = Exclude<keyof Delivery, 'id' | 'version' | 'updatedAt'>;
+
+export const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'dateISO', label: 'Date' },
+  { key: 'startTime', label: 'Start time' },
+  { key: 'times', label: 'Job times' },
+  { key: 'carMake', label: 'Make' },
+  { key: 'carModel', label: 'Model' },
+  { key: 'reg', label: 'Reg' },
+  { key: 'pickup', label: 'Pickup' },
+  { key: 'dropoff', label: 'Drop-off' },
+  { key: 'distanceKm', label: 'Distance' },
+  { key: 'distanceEstimated', label: 'Distance estimated' },
+  { key: 'ratePerKm', label: 'Rate' },
+  { key: 'fixedFee', label: 'Fixed fee' },
+  { key: 'expenses', label: 'Expenses' },
+  { key: 'earnings', label: 'Earnings' },
+  { key: 'earningsManual', label: 'Manual earnings' },
+  { key: 'rateLines', label: 'Rate breakdown' },
+  { key: 'status', label: 'Status' },
+  { key: 'statusHistory', label: 'Status history' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'clientId', label: 'Client' },
+  { key: 'invoiceId', label: 'Invoice' },
+  { key: 'proof', label: 'Proof of delivery' },
+  { key: 'deletedAt', label: 'In trash since' },
+];
+
+// Distance and rate are labelled in the unit the user works in
+export function mergeFieldLabel({ key, label }: { key: MergeField; label: string }) {
+  if (key === 'distanceKm') return `${label} (${distanceUnit()})`;
+  if (key === 'ratePerKm') return `${label} (${currencySymbol()}/${distanceUnit()})`;
+  return label;
+}
+
+// Sets one field, keeping the key and its value's type tied together
+export function assignField<K extends MergeField>(target: Delivery, key: K, value: Delivery[K]) { target[key] = value; }
+
+// Structural, so a re-priced breakdown with the same lines doesn't count as an edit
+function same(a: unknown, b: unknown) { return JSON.stringify(a ?? '') === JSON.stringify(b ?? ''); }
+
+export function mergeDelivery(base: Delivery, local: Delivery, remote: Delivery): { merged: Delivery; conflicts: MergeField[] } {
+  const merged: Delivery = { ...remote };
+  const conflicts: MergeField[] = [];
+  for (const { key } of MERGE_FIELDS) {
+    const mine = !same(local[key], base[key]);
+    const theirs = !same(remote[key], base[key]);
+    if (mine && theirs && !same(local[key], remote[key])) conflicts.push(key);
+    else if (mine) assignField(merged, key, local[key]);
+  }
+  return { merged, conflicts };
+}
@@ -0,0 +1,271 @@
+import { Delivery, DeliveryRow, draftToRow, rowToDelivery } from '@/lib/deliveries';
+import { MergeField, mergeDelivery } from '@/lib/merge';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// -----------------------
+// Offline outbox
+// -----------------------
+// Every write is queued here first and replayed against Supabase in order.
+// An op only leaves the queue once the server has accepted it, so a failed
+// or offline write survives app restarts and the next syncFromRemote.
+// Ops queued together share a `batch` id and go up as one request.
+
+export type OutboxOp =
+  | {
+    kind: 'upsert'; id: string; userId: string; delivery: Delivery; queuedAt: string; batch?: string;
+    base?: Delivery; // server copy the edit started from; absent for new rows
+    conflict?: Delivery; // server copy that clashes with this edit, awaiting resolution
+  }
+  | { kind: 'delete'; id: string; userId: string; queuedAt: string; batch?: string };
+
+export type Conflict = { id: string; base: Delivery; local: Delivery; remote: Delivery; fields: MergeField[] };
+
+const OUTBOX_KEY = 'car_delivery_tracker__outbox_v1';
+
+export async function loadOutbox(): Promise<OutboxOp[]> {
+  const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+  if (!raw) return [];
+  try { const parsed: OutboxOp[] = JSON.parse(raw); return Array.isArray(parsed) ? parsed : []; } catch { return []; }
+}
+async function saveOutbox(ops: OutboxOp[]) { await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(ops)); }
+
+// Serialise every read-modify-write of the queue so enqueue and replay never race.
+let lock: Promise<unknown> = Promise.resolve();
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+// The version a write will carry once the server accepts it.
+function stamp(delivery: Delivery, base?: Delivery): Delivery {
+  return { ...delivery, version: (base?.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+}
+
+export function enqueue(op: OutboxOp): Promise<OutboxOp[]> { return enqueueAll([op]); }
+
+// Ops replayOutbox is sending right now. Set and cleared under the lock, so
+// enqueueAll never folds a new edit into a write the server may be accepting.
+let inFlight: OutboxOp[] = [];
+const isInFlight = (op: OutboxOp) => inFlight.some((o) => sameOp(o, op));
+
+export function enqueueAll(batch: OutboxOp[]): Promise<OutboxOp[]> {
+  return withLock(async () => {
+    let list = await loadOutbox();
+    for (const op of batch) {
+      // A later write to the same row supersedes any queued upsert for it but
+      // keeps that upsert's base; a delete is kept so ordering stays intact.
+      // An upsert being sent is left alone: the new edit queues behind it,
+      // based on the copy that send will leave on the server.
+      const prev = list.filter((o) => o.id === op.id && o.kind === 'upsert').pop();
+      const sending = !!prev && isInFlight(prev);
+      let next: OutboxOp = op;
+      if (op.kind === 'upsert') {
+        const base = prev?.kind !== 'upsert' ? op.base : sending ? prev.delivery : prev.base;
+        const conflict = prev?.kind === 'upsert' && !sending ? prev.conflict : undefined;
+        next = { ...op, base, conflict, delivery: stamp(op.delivery, base) };
+      }
+      list = [...list.filter((o) => !(o.id === op.id && o.kind === 'upsert' && (op.kind === 'delete' || !isInFlight(o)))), next];
+    }
+    await saveOutbox(list);
+    return list;
+  });
+}
+
+class VersionConflict extends Error {
+  constructor(public remote: Delivery) { super(`Delivery ${remote.id} changed on the server`); }
+}
+
+async function send(op: OutboxOp) {
+  if (op.kind === 'delete') {
+    const { error } = await supabase.from('deliveries').delete().eq('id', op.id).eq('user_id', op.userId);
+    if (error) throw error;
+    return;
+  }
+  const payload = draftToRow(op.delivery, op.userId, op.delivery.earnings, op.id);
+  const insert = async () => {
+    const { error } = await supabase.from('deliveries').upsert(payload, { onConflict: 'id' });
+    if (error) throw error;
+  };
+  if (!op.base) return insert();
+  // Only overwrite the row if nobody else has written it since our base
+  const { data, error } = await supabase
+    .from('deliveries')
+    .update(payload)
+    .eq('id', op.id)
+    .eq('user_id', op.userId)
+    .eq('version', op.base.version)
+    .select('id');
+  if (error) throw error;
+  if (data?.length) return;
+  const { data: current, error: readError } = await supabase.from('deliveries').select('*').eq('id', op.id).eq('user_id', op.userId).maybeSingle();
+  if (readError) throw readError;
+  // Deleted elsewhere: the local edit brings it back as a fresh insert
+  if (!current) return insert();
+  throw new VersionConflict(rowToDelivery(current as DeliveryRow));
+}
+
+// A batch is sent as one request when none of its rows has moved on since its
+// base; otherwise it returns false and the ops go one by one, so a clash is
+// caught per job. Versions are read just before the write, not locked.
+async function sendBatch(ops: OutboxOp[]): Promise<boolean> {
+  const userId = ops[0].userId;
+  const ids = ops.map((o) => o.id);
+  if (ops.every((o) => o.kind === 'delete')) {
+    const { error } = await supabase.from('deliveries').delete().in('id', ids).eq('user_id', userId);
+    if (error) throw error;
+    return true;
+  }
+  const upserts = ops.flatMap((o) => (o.kind === 'upsert' ? [o] : []));
+  if (upserts.length !== ops.length) return false;
+  const { data, error } = await supabase.from('deliveries').select('id, version').in('id', ids).eq('user_id', userId);
+  if (error) throw error;
+  const versions = new Map((data as { id: string; version: number }[]).map((r) => [r.id, r.version]));
+  if (upserts.some((o) => (versions.get(o.id) ?? null) !== (o.base?.version ?? null))) return false;
+  const rows = upserts.map((o) => draftToRow(o.delivery, o.userId, o.delivery.earnings, o.id));
+  const { error: writeError } = await supabase.from('deliveries').upsert(rows, { onConflict: 'id' });
+  if (writeError) throw writeError;
+  return true;
+}
+
+// Ops waiting on a conflict: the parked upsert and every later op for its row,
+// which would otherwise overtake it
+function heldBack(ops: OutboxOp[]) {
+  const parked = new Set<string>();
+  return ops.filter((o) => {
+    if (o.kind === 'upsert' && o.conflict) parked.add(o.id);
+    return parked.has(o.id);
+  });
+}
+
+// The head op and the rest of its batch queued straight after it
+function batchAt(ops: OutboxOp[], head: OutboxOp, held: OutboxOp[]) {
+  if (!head.batch) return [head];
+  const out: OutboxOp[] = [];
+  for (const o of ops.slice(ops.indexOf(head))) {
+    if (o.batch !== head.batch || o.userId !== head.userId || held.includes(o)) break;
+    out.push(o);
+  }
+  return out;
+}
+
+function sameOp(a: OutboxOp, b: OutboxOp) { return a.kind === b.kind && a.id === b.id && a.queuedAt === b.queuedAt; }
+
+// Replays queued ops oldest first and stops at the first failure so later
+// writes never overtake an earlier one. Ops waiting on a conflict, and later
+// ops for the same row, are held back until it is resolved. Resolves with whatever is still queued.
+let replaying: Promise<OutboxOp[]> | null = null;
+export function replayOutbox(userId: string): Promise<OutboxOp[]> {
+  // A replay already in flight may have passed ops queued after it started.
+  if (replaying) return replaying.then(() => replayOutbox(userId));
+  replaying = (async () => {
+    try {
+      while (true) {
+        const batch = await withLock(async () => {
+          const ops = await loadOutbox();
+          const held = heldBack(ops);
+          const head = ops.find((o) => o.userId === userId && !held.includes(o));
+          inFlight = head ? batchAt(ops, head, held) : [];
+          return inFlight;
+        });
+        const head = batch[0];
+        if (!head) break;
+        let done = [head];
+        try {
+          if (batch.length > 1 && (await sendBatch(batch))) done = batch;
+          else await send(head);
+        } catch (e) {
+          await withLock(async () => { inFlight = []; });
+          // Stale base: merge with the server copy and retry, or park it as a conflict.
+          // If the rebase left it as it was, sending it again would only fail again.
+          if (e instanceof VersionConflict) {
+            const after = (await rebaseOutbox(userId, [e.remote])).find((o) => sameOp(o, head));
+            if (!after || (after.kind === 'upsert' && (after.conflict || after.base?.version === e.remote.version))) continue;
+          }
+          break;
+        }
+        await withLock(async () => {
+          inFlight = [];
+          await saveOutbox((await loadOutbox()).filter((o) => !done.some((d) => sameOp(o, d))));
+        });
+      }
+      return await loadOutbox();
+    } finally {
+      replaying = null;
+    }
+  })();
+  return replaying;
+}
+
+// Reconciles queued edits with rows freshly read from the server. Edits whose
+// base is stale are merged field by field; clean merges are rebased onto the
+// remote copy, clashes are parked as conflicts. Rows not in `remote` are left
+// alone, and so are later edits queued behind another upsert for the same
+// row: their base is that edit, not the server. Resolves with the updated queue.
+export function rebaseOutbox(userId: string, remote: Delivery[]): Promise<OutboxOp[]> {
+  return withLock(async () => {
+    const byId = new Map(remote.map((d) => [d.id, d]));
+    const seen = new Set<string>();
+    const ops = (await loadOutbox()).map((op): OutboxOp => {
+      if (op.kind !== 'upsert' || seen.has(op.id)) return op;
+      seen.add(op.id);
+      if (op.userId !== userId || !op.base || op.conflict) return op;
+      const current = byId.get(op.id);
+      if (!current || current.version === op.base.version) return op;
+      const { merged, conflicts } = mergeDelivery(op.base, op.delivery, current);
+      if (conflicts.length) return { ...op, conflict: current };
+      return { ...op, base: current, delivery: stamp(merged, current) };
+    });
+    await saveOutbox(ops);
+    return ops;
+  });
+}
+
+export function listConflicts(ops: OutboxOp[]): Conflict[] {
+  const out: Conflict[] = [];
+  for (const op of ops) {
+    if (op.kind !== 'upsert' || !op.conflict || !op.base) continue;
+    const { conflicts } = mergeDelivery(op.base, op.delivery, op.conflict);
+    out.push({ id: op.id, base: op.base, local: op.delivery, remote: op.conflict, fields: conflicts });
+  }
+  return out;
+}
+
+// Settles a conflict with the user's chosen record, rebased onto the remote copy.
+// Edits queued behind it started from the copy it replaces, so they are merged
+// onto the settled record in turn; a field both changed parks that edit instead.
+export function resolveConflict(id: string, resolved: Delivery): Promise<OutboxOp[]> {
+  return withLock(async () => {
+    let prev: { from: Delivery; to: Delivery } | null = null;
+    const ops = (await loadOutbox()).map((op): OutboxOp => {
+      if (op.kind !== 'upsert' || op.id !== id) return op;
+      if (!prev) {
+        if (!op.conflict) return op;
+        const settled = stamp(resolved, op.conflict);
+        prev = { from: op.delivery, to: settled };
+        return { ...op, base: op.conflict, conflict: undefined, delivery: settled };
+      }
+      const { merged, conflicts } = mergeDelivery(prev.from, op.delivery, prev.to);
+      const next: OutboxOp = conflicts.length
+        ? { ...op, base: prev.from, conflict: prev.to }
+        : { ...op, base: prev.to, conflict: undefined, delivery: stamp(merged, prev.to) };
+      prev = { from: op.delivery, to: next.delivery };
+      return next;
+    });
+    await saveOutbox(ops);
+    return ops;
+  });
+}
+
+// Re-applies ops the server has not seen yet on top of a remote snapshot.
+export function applyPending(list: Delivery[], ops: OutboxOp[]): Delivery[] {
+  let next = list;
+  for (const op of ops) {
+    next = next.filter((d) => d.id !== op.id);
+    if (op.kind === 'upsert') next = [op.delivery, ...next];
+  }
+  return next;
+}
+
+export function pendingIds(ops: OutboxOp[]) { return new Set(ops.map((o) => o.id)); }
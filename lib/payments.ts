@@ -0,0 +1,252 @@
+import type { Client } from '@/lib/clients';
+import { Delivery } from '@/lib/deliveries';
+import { reimbursedTotal } from '@/lib/expenses';
+import { iso } from '@/lib/format';
+import { canMove, isOpen } from '@/lib/lifecycle';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+// Money received from a client. One remittance often covers several jobs,
+// or only part of one, so the amount is split across jobs by allocations;
+// anything left unallocated sits on the client's account.
+export type PaymentMethod = 'bank' | 'cheque' | 'card' | 'cash' | 'other';
+
+export const PAYMENT_METHODS: { key: PaymentMethod; label: string }[] = [
+  { key: 'bank', label: 'Bank transfer' },
+  { key: 'cheque', label: 'Cheque' },
+  { key: 'card', label: 'Card' },
+  { key: 'cash', label: 'Cash' },
+  { key: 'other', label: 'Other' },
+];
+
+export type Allocation = { deliveryId: string; amount: number };
+
+export type Payment = {
+  id: string;
+  clientId: string | null;
+  invoiceId: string | null; // set when the remittance quoted an invoice
+  dateISO: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string; // remittance or bank reference
+  allocations: Allocation[];
+  createdAt: string;
+};
+
+export type PaymentDraft = Omit<Payment, 'id' | 'createdAt'> & { id?: string };
+
+export function emptyPayment(): PaymentDraft {
+  return { clientId: null, invoiceId: null, dateISO: iso(new Date()), amount: 0, method: 'bank', reference: '', allocations: [] };
+}
+
+export function methodLabel(m: PaymentMethod) { return PAYMENT_METHODS.find((x) => x.key === m)?.label ?? m; }
+
+// -----------------------
+// Balances
+// -----------------------
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const DAY = 86400000;
+
+// Jobs falling due within this many days count as due soon
+export const DUE_SOON_DAYS = 7;
+
+// What the client owes for a job: its earnings plus the expenses they reimburse, as invoiced
+export function jobAmount(d: Delivery) { return round2((Number(d.earnings) || 0) + reimbursedTotal(d)); }
+
+export function allocatedTo(deliveryId: string, payments: Payment[]) {
+  return round2(payments.reduce((acc, p) => acc + p.allocations.filter((a) => a.deliveryId === deliveryId).reduce((s, a) => s + (Number(a.amount) || 0), 0), 0));
+}
+
+export function unallocated(p: Payment) { return round2(p.amount - p.allocations.reduce((acc, a) => acc + (Number(a.amount) || 0), 0)); }
+
+// Unfinished work isn't owed yet, and a job marked paid is settled whatever
+// was recorded against it, unless `reopen` (editing the payment that settled it)
+export function jobBalance(d: Delivery, payments: Payment[], reopen = false) {
+  if (isOpen(d.status) || (d.status === 'paid' && !reopen)) return 0;
+  return Math.max(0, round2(jobAmount(d) - allocatedTo(d.id, payments)));
+}
+
+export type DueState = 'not_due' | 'due_soon' | 'overdue';
+
+export type Receivable = {
+  delivery: Delivery;
+  amount: number;
+  paid: number;
+  balance: number;
+  dueISO: string;
+  state: DueState;
+};
+
+// Terms run from the invoice date once a job is billed, from the job date before
+export function dueDate(d: Delivery, termsDays: number, invoiceDates: Record<string, string> = {}) {
+  const from = (d.invoiceId && invoiceDates[d.invoiceId]) || d.dateISO;
+  return iso(new Date(new Date(`${from}T00:00:00Z`).getTime() + termsDays * DAY));
+}
+
+export function dueState(dueISO: string, today = iso(new Date())): DueState {
+  if (dueISO < today) return 'overdue';
+  const soon = iso(new Date(new Date(`${today}T00:00:00Z`).getTime() + DUE_SOON_DAYS * DAY));
+  return dueISO <= soon ? 'due_soon' : 'not_due';
+}
+
+// Every job with money still owed on it, oldest due first
+export function receivables(deliveries: Delivery[], payments: Payment[], clients: Client[], opts: { invoiceDates?: Record<string, string>; reopen?: string[] } = {}): Receivable[] {
+  const today = iso(new Date());
+  return deliveries
+    .map((d) => {
+      const balance = jobBalance(d, payments, opts.reopen?.includes(d.id));
+      const terms = clients.find((c) => c.id === d.clientId)?.paymentTermsDays ?? 30;
+      const dueISO = dueDate(d, terms, opts.invoiceDates);
+      return { delivery: d, amount: jobAmount(d), paid: allocatedTo(d.id, payments), balance, dueISO, state: dueState(dueISO, today) };
+    })
+    .filter((r) => r.balance > 0)
+    .sort((a, b) => a.dueISO.localeCompare(b.dueISO));
+}
+
+export type ClientBalance = {
+  clientId: string | null;
+  outstanding: number;
+  dueSoon: number;
+  overdue: number;
+  onAccount: number; // paid in but not matched to a job yet
+  items: Receivable[];
+};
+
+export function balancesByClient(items: Receivable[], payments: Payment[]): ClientBalance[] {
+  const byClient = new Map<string | null, ClientBalance>();
+  const get = (id: string | null) => {
+    if (!byClient.has(id)) byClient.set(id, { clientId: id, outstanding: 0, dueSoon: 0, overdue: 0, onAccount: 0, items: [] });
+    return byClient.get(id)!;
+  };
+  for (const r of items) {
+    const b = get(r.delivery.clientId ?? null);
+    b.items.push(r);
+    b.outstanding = round2(b.outstanding + r.balance);
+    if (r.state === 'due_soon') b.dueSoon = round2(b.dueSoon + r.balance);
+    if (r.state === 'overdue') b.overdue = round2(b.overdue + r.balance);
+  }
+  for (const p of payments) {
+    const left = unallocated(p);
+    if (left > 0) { const b = get(p.clientId); b.onAccount = round2(b.onAccount + left); }
+  }
+  return [...byClient.values()].sort((a, b) => b.overdue - a.overdue || b.outstanding - a.outstanding);
+}
+
+export function owedTotal(deliveries: Delivery[], payments: Payment[]) {
+  return round2(deliveries.reduce((acc, d) => acc + jobBalance(d, payments), 0));
+}
+
+// Spreads a payment over the chosen jobs, oldest due first, a job at a time
+export function autoAllocate(amount: number, items: Receivable[]): Allocation[] {
+  let left = round2(amount);
+  const out: Allocation[] = [];
+  for (const r of items) {
+    if (left <= 0) break;
+    const take = Math.min(left, r.balance);
+    out.push({ deliveryId: r.delivery.id, amount: take });
+    left = round2(left - take);
+  }
+  return out;
+}
+
+// Where a job's status should go after its payments changed: paid once
+// nothing is left on it, back again if a payment it relied on was removed
+export function settlement(d: Delivery, payments: Payment[]): 'paid' | 'unpaid' | null {
+  const paid = allocatedTo(d.id, payments);
+  if (d.status !== 'paid' && paid > 0 && paid >= jobAmount(d) && canMove(d.status, 'paid')) return 'paid';
+  if (d.status === 'paid' && paid < jobAmount(d)) return 'unpaid';
+  return null;
+}
+
+// -----------------------
+// Local cache
+// -----------------------
+const PAYMENTS_KEY = 'car_delivery_tracker__payments_v1';
+
+export async function loadPayments(): Promise<Payment[]> {
+  const raw = await AsyncStorage.getItem(PAYMENTS_KEY);
+  if (!raw) return [];
+  try { const parsed: Payment[] = JSON.parse(raw); return Array.isArray(parsed) ? parsed : []; } catch { return []; }
+}
+async function savePayments(list: Payment[]) { await AsyncStorage.setItem(PAYMENTS_KEY, JSON.stringify(list)); }
+
+const newestFirst = (a: Payment, b: Payment) => b.dateISO.localeCompare(a.dateISO) || b.createdAt.localeCompare(a.createdAt);
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `payments` (snake_case): id, user_id, client_id, invoice_id, date_iso,
+// amount, method, reference, allocations (jsonb), created_at.
+
+type PaymentRow = {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  invoice_id: string | null;
+  date_iso: string;
+  amount: number | string | null;
+  method: PaymentMethod | null;
+  reference: string | null;
+  allocations: Allocation[] | null;
+  created_at: string;
+};
+
+function rowToPayment(r: PaymentRow): Payment {
+  return {
+    id: r.id,
+    clientId: r.client_id ?? null,
+    invoiceId: r.invoice_id ?? null,
+    dateISO: r.date_iso,
+    amount: Number(r.amount ?? 0),
+    method: r.method ?? 'bank',
+    reference: r.reference || '',
+    allocations: (r.allocations ?? []).map((a) => ({ deliveryId: a.deliveryId, amount: Number(a.amount) || 0 })),
+    createdAt: r.created_at,
+  };
+}
+
+// Pulls the server list and refreshes the cache; falls back to the cache offline.
+export async function syncPayments(userId: string): Promise<Payment[]> {
+  const { data, error } = await supabase.from('payments').select('*').eq('user_id', userId);
+  if (error) return loadPayments();
+  const list = (data as PaymentRow[]).map(rowToPayment).sort(newestFirst);
+  await savePayments(list);
+  return list;
+}
+
+export async function upsertPayment(userId: string, input: PaymentDraft): Promise<Payment[]> {
+  const id = input.id ?? uuidv4();
+  const { data, error } = await supabase
+    .from('payments')
+    .upsert({
+      id,
+      user_id: userId,
+      client_id: input.clientId,
+      invoice_id: input.invoiceId,
+      date_iso: input.dateISO,
+      amount: round2(Number(input.amount) || 0),
+      method: input.method,
+      reference: input.reference.trim(),
+      allocations: input.allocations.filter((a) => Number(a.amount) > 0).map((a) => ({ deliveryId: a.deliveryId, amount: round2(Number(a.amount)) })),
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+  if (error) throw error;
+  const saved = rowToPayment(data as PaymentRow);
+  const list = [saved, ...(await loadPayments()).filter((p) => p.id !== id)].sort(newestFirst);
+  await savePayments(list);
+  return list;
+}
+
+export async function deletePayment(userId: string, id: string): Promise<Payment[]> {
+  const { error } = await supabase.from('payments').delete().eq('id', id).eq('user_id', userId);
+  if (error) throw error;
+  const list = (await loadPayments()).filter((p) => p.id !== id);
+  await savePayments(list);
+  return list;
+}
@@ -0,0 +1,196 @@
+import { Delivery } from '@/lib/deliveries';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+// A pickup or drop-off point used often enough to save: an auction site,
+// a dealership, a lease return centre.
+export type Place = {
+  id: string;
+  name: string; // what the job card shows, e.g. "Manheim Colnbrook"
+  address: string; // street and postcode, used for distance lookups
+};
+
+// A regular run with the distance and money it usually involves
+export type RouteTemplate = {
+  id: string;
+  name: string;
+  pickup: string;
+  dropoff: string;
+  distanceKm: number;
+  ratePerKm: number;
+  fixedFee: number;
+};
+
+export type PlaceDraft = Omit<Place, 'id'> & { id?: string };
+export type RouteDraft = Omit<RouteTemplate, 'id'> & { id?: string };
+
+export function emptyPlace(): PlaceDraft { return { name: '', address: '' }; }
+export function emptyRoute(): RouteDraft { return { name: '', pickup: '', dropoff: '', distanceKm: 0, ratePerKm: 0, fixedFee: 0 }; }
+
+// The text a job's Pickup or Drop-off gets when a saved place is chosen
+export function placeText(p: Pick<Place, 'name' | 'address'>) { return p.address.trim() ? `${p.name.trim()}, ${p.address.trim()}` : p.name.trim(); }
+
+// -----------------------
+// Local cache
+// -----------------------
+const PLACES_KEY = 'car_delivery_tracker__places_v1';
+const ROUTES_KEY = 'car_delivery_tracker__routes_v1';
+
+async function loadList<T>(key: string): Promise<T[]> {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return [];
+  try { const parsed: T[] = JSON.parse(raw); return Array.isArray(parsed) ? parsed : []; } catch { return []; }
+}
+
+export function loadPlaces() { return loadList<Place>(PLACES_KEY); }
+export function loadRoutes() { return loadList<RouteTemplate>(ROUTES_KEY); }
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `places`: id, user_id, name, address.
+// Table `route_templates`: id, user_id, name, pickup, dropoff, distance_km,
+// rate_per_km, fixed_fee.
+
+type PlaceRow = { id: string; user_id: string; name: string; address: string | null };
+type RouteRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  pickup: string;
+  dropoff: string;
+  distance_km: number | string | null;
+  rate_per_km: number | string | null;
+  fixed_fee: number | string | null;
+};
+
+const rowToPlace = (r: PlaceRow): Place => ({ id: r.id, name: r.name, address: r.address || '' });
+
+function rowToRoute(r: RouteRow): RouteTemplate {
+  return {
+    id: r.id,
+    name: r.name,
+    pickup: r.pickup,
+    dropoff: r.dropoff,
+    distanceKm: Number(r.distance_km ?? 0),
+    ratePerKm: Number(r.rate_per_km ?? 0),
+    fixedFee: Number(r.fixed_fee ?? 0),
+  };
+}
+
+// Pulls both server lists and refreshes the cache; falls back to the cache offline.
+export async function syncPlaces(userId: string): Promise<{ places: Place[]; routes: RouteTemplate[] }> {
+  const [p, r] = await Promise.all([
+    supabase.from('places').select('*').eq('user_id', userId),
+    supabase.from('route_templates').select('*').eq('user_id', userId),
+  ]);
+  const places = p.error ? await loadPlaces() : (p.data as PlaceRow[]).map(rowToPlace).sort(byName);
+  const routes = r.error ? await loadRoutes() : (r.data as RouteRow[]).map(rowToRoute).sort(byName);
+  if (!p.error) await AsyncStorage.setItem(PLACES_KEY, JSON.stringify(places));
+  if (!r.error) await AsyncStorage.setItem(ROUTES_KEY, JSON.stringify(routes));
+  return { places, routes };
+}
+
+export async function upsertPlace(userId: string, input: PlaceDraft): Promise<Place[]> {
+  const id = input.id ?? uuidv4();
+  const { data, error } = await supabase
+    .from('places')
+    .upsert({ id, user_id: userId, name: input.name.trim(), address: input.address.trim() }, { onConflict: 'id' })
+    .select()
+    .single();
+  if (error) throw error;
+  const list = [rowToPlace(data as PlaceRow), ...(await loadPlaces()).filter((p) => p.id !== id)].sort(byName);
+  await AsyncStorage.setItem(PLACES_KEY, JSON.stringify(list));
+  return list;
+}
+
+export async function deletePlace(userId: string, id: string): Promise<Place[]> {
+  const { error } = await supabase.from('places').delete().eq('id', id).eq('user_id', userId);
+  if (error) throw error;
+  const list = (await loadPlaces()).filter((p) => p.id !== id);
+  await AsyncStorage.setItem(PLACES_KEY, JSON.stringify(list));
+  return list;
+}
+
+export async function upsertRoute(userId: string, input: RouteDraft): Promise<RouteTemplate[]> {
+  const id = input.id ?? uuidv4();
+  const { data, error } = await supabase
+    .from('route_templates')
+    .upsert({
+      id,
+      user_id: userId,
+      name: input.name.trim() || `${input.pickup.trim()} → ${input.dropoff.trim()}`,
+      pickup: input.pickup.trim(),
+      dropoff: input.dropoff.trim(),
+      distance_km: Number(input.distanceKm) || 0,
+      rate_per_km: Number(input.ratePerKm) || 0,
+      fixed_fee: Number(input.fixedFee) || 0,
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+  if (error) throw error;
+  const list = [rowToRoute(data as RouteRow), ...(await loadRoutes()).filter((r) => r.id !== id)].sort(byName);
+  await AsyncStorage.setItem(ROUTES_KEY, JSON.stringify(list));
+  return list;
+}
+
+export async function deleteRoute(userId: string, id: string): Promise<RouteTemplate[]> {
+  const { error } = await supabase.from('route_templates').delete().eq('id', id).eq('user_id', userId);
+  if (error) throw error;
+  const list = (await loadRoutes()).filter((r) => r.id !== id);
+  await AsyncStorage.setItem(ROUTES_KEY, JSON.stringify(list));
+  return list;
+}
+
+// -----------------------
+// Autocomplete
+// -----------------------
+export type PlaceSuggestion = { key: string; label: string; detail: string; value: string; saved: boolean };
+
+const norm = (s: string) => s.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Saved places first, then places typed on past jobs, most used first
+export function suggestPlaces(query: string, places: Place[], history: Delivery[], limit = 6): PlaceSuggestion[] {
+  const q = norm(query);
+  if (!q) return [];
+  const saved = places
+    .filter((p) => norm(p.name).includes(q) || norm(p.address).includes(q))
+    .map((p) => ({ key: `p:${p.id}`, label: p.name, detail: p.address, value: placeText(p), saved: true }));
+
+  const counts = new Map<string, { text: string; n: number }>();
+  for (const d of history) {
+    for (const text of [d.pickup, d.dropoff]) {
+      const k = norm(text);
+      if (!k || !k.includes(q)) continue;
+      counts.set(k, { text: counts.get(k)?.text ?? text.trim(), n: (counts.get(k)?.n ?? 0) + 1 });
+    }
+  }
+  const taken = new Set(saved.map((s) => norm(s.value)));
+  const past = [...counts.entries()]
+    .filter(([k]) => !taken.has(k) && k !== q)
+    .sort((a, b) => b[1].n - a[1].n)
+    .map(([k, v]) => ({ key: `h:${k}`, label: v.text, detail: `${v.n} past job${v.n === 1 ? '' : 's'}`, value: v.text, saved: false }));
+
+  return [...saved, ...past].slice(0, limit);
+}
+
+// What a known route pre-fills: a template's figures, otherwise the latest
+// job that did the same run (its distance and rates as charged then, and
+// whether that distance was still an estimate)
+export function knownRoute(pickup: string, dropoff: string, routes: RouteTemplate[], history: Delivery[]): Pick<Delivery, 'distanceKm' | 'distanceEstimated' | 'ratePerKm' | 'fixedFee'> | null {
+  const p = norm(pickup), d = norm(dropoff);
+  if (!p || !d) return null;
+  const t = routes.find((r) => norm(r.pickup) === p && norm(r.dropoff) === d);
+  if (t) return { distanceKm: t.distanceKm, distanceEstimated: false, ratePerKm: t.ratePerKm, fixedFee: t.fixedFee };
+  const last = history
+    .filter((x) => norm(x.pickup) === p && norm(x.dropoff) === d && Number(x.distanceKm) > 0)
+    .sort((a, b) => b.dateISO.localeCompare(a.dateISO))[0];
+  return last ? { distanceKm: Number(last.distanceKm), distanceEstimated: !!last.distanceEstimated, ratePerKm: Number(last.ratePerKm) || 0, fixedFee: Number(last.fixedFee) || 0 } : null;
+}
@@ -0,0 +1,70 @@
+// -----------------------
+// Postcode centroids
+// -----------------------
+// Approximate [lat, lng] centres for UK postcode districts, used offline to
+// estimate job distances. Every postcode area has an entry so any valid
+// postcode resolves to something; districts are listed where an area is too
+// big for its centre to mean much (London so far). Add districts here as
+// they come up; lookups fall back from district to area on their own.
+
+export const AREA_CENTROIDS: Record<string, [number, number]> = {
+  AB: [57.2, -2.4], AL: [51.76, -0.3], B: [52.48, -1.9], BA: [51.3, -2.45], BB: [53.77, -2.38],
+  BD: [53.82, -1.85], BH: [50.75, -1.9], BL: [53.58, -2.4], BN: [50.85, -0.2], BR: [51.38, 0.05],
+  BS: [51.45, -2.6], BT: [54.6, -6.5], CA: [54.75, -3.0], CB: [52.2, 0.2], CF: [51.55, -3.3],
+  CH: [53.2, -3.0], CM: [51.8, 0.45], CO: [51.9, 0.9], CR: [51.35, -0.1], CT: [51.25, 1.2],
+  CV: [52.4, -1.5], CW: [53.15, -2.45], DA: [51.42, 0.25], DD: [56.55, -2.95], DE: [52.95, -1.5],
+  DG: [55.05, -3.9], DH: [54.8, -1.6], DL: [54.45, -1.7], DN: [53.55, -0.95], DT: [50.72, -2.5],
+  DY: [52.45, -2.15], E: [51.53, -0.03], EC: [51.517, -0.095], EH: [55.92, -3.2], EN: [51.67, -0.07],
+  EX: [50.75, -3.5], FK: [56.1, -3.9], FY: [53.85, -2.98], G: [55.86, -4.28], GL: [51.8, -2.2],
+  GU: [51.25, -0.7], GY: [49.45, -2.58], HA: [51.58, -0.35], HD: [53.63, -1.8], HG: [54.0, -1.55],
+  HP: [51.75, -0.65], HR: [52.1, -2.75], HS: [57.9, -6.9], HU: [53.8, -0.4], HX: [53.72, -1.9],
+  IG: [51.58, 0.08], IM: [54.2, -4.5], IP: [52.2, 1.1], IV: [57.5, -4.6], JE: [49.2, -2.13],
+  KA: [55.55, -4.6], KT: [51.37, -0.35], KW: [58.6, -3.3], KY: [56.2, -3.15], L: [53.42, -2.92],
+  LA: [54.15, -2.8], LD: [52.2, -3.4], LE: [52.62, -1.1], LL: [53.0, -3.8], LN: [53.2, -0.4],
+  LS: [53.82, -1.55], LU: [51.9, -0.45], M: [53.47, -2.25], ME: [51.33, 0.6], MK: [52.05, -0.75],
+  ML: [55.75, -3.9], N: [51.57, -0.12], NE: [55.0, -1.65], NG: [53.0, -1.1], NN: [52.3, -0.85],
+  NP: [51.65, -3.0], NR: [52.65, 1.25], NW: [51.56, -0.2], OL: [53.58, -2.1], OX: [51.8, -1.3],
+  PA: [56.0, -5.3], PE: [52.6, -0.1], PH: [56.6, -3.8], PL: [50.45, -4.3], PO: [50.8, -1.0],
+  PR: [53.75, -2.7], RG: [51.4, -1.1], RH: [51.15, -0.2], RM: [51.55, 0.2], S: [53.35, -1.45],
+  SA: [51.8, -4.1], SE: [51.46, -0.05], SG: [51.95, -0.15], SK: [53.35, -2.05], SL: [51.5, -0.65],
+  SM: [51.36, -0.18], SN: [51.5, -1.85], SO: [50.95, -1.35], SP: [51.1, -1.8], SR: [54.88, -1.42],
+  SS: [51.57, 0.6], ST: [52.95, -2.1], SW: [51.46, -0.17], SY: [52.6, -3.0], TA: [51.05, -3.0],
+  TD: [55.6, -2.6], TF: [52.7, -2.45], TN: [51.05, 0.4], TQ: [50.45, -3.65], TR: [50.2, -5.2],
+  TS: [54.57, -1.2], TW: [51.45, -0.4], UB: [51.53, -0.42], W: [51.51, -0.22], WA: [53.38, -2.55],
+  WC: [51.517, -0.12], WD: [51.65, -0.4], WF: [53.68, -1.45], WN: [53.55, -2.65], WR: [52.2, -2.2],
+  WS: [52.6, -1.95], WV: [52.6, -2.15], YO: [54.0, -0.9], ZE: [60.3, -1.25],
+};
+
+export const DISTRICT_CENTROIDS: Record<string, [number, number]> = {
+  // London East and City
+  E1: [51.517, -0.06], E2: [51.53, -0.06], E3: [51.527, -0.025], E4: [51.63, 0.0], E5: [51.56, -0.055],
+  E6: [51.53, 0.055], E7: [51.547, 0.027], E8: [51.543, -0.065], E9: [51.545, -0.04], E10: [51.567, -0.015],
+  E11: [51.568, 0.01], E12: [51.55, 0.05], E13: [51.528, 0.025], E14: [51.505, -0.02], E15: [51.54, 0.0],
+  E16: [51.51, 0.03], E17: [51.585, -0.02], E18: [51.592, 0.025], E20: [51.543, -0.015],
+  EC1: [51.524, -0.1], EC2: [51.518, -0.085], EC3: [51.512, -0.08], EC4: [51.513, -0.1],
+  WC1: [51.522, -0.12], WC2: [51.512, -0.122],
+  // London North and North West
+  N1: [51.538, -0.097], N2: [51.59, -0.165], N3: [51.6, -0.19], N4: [51.57, -0.1], N5: [51.553, -0.097],
+  N6: [51.57, -0.145], N7: [51.553, -0.117], N8: [51.585, -0.115], N9: [51.627, -0.06], N10: [51.595, -0.143],
+  N11: [51.613, -0.137], N12: [51.615, -0.175], N13: [51.62, -0.105], N14: [51.633, -0.13], N15: [51.58, -0.085],
+  N16: [51.562, -0.078], N17: [51.595, -0.07], N18: [51.613, -0.065], N19: [51.565, -0.13], N20: [51.63, -0.17],
+  N21: [51.635, -0.1], N22: [51.6, -0.11],
+  NW1: [51.535, -0.145], NW2: [51.557, -0.22], NW3: [51.553, -0.17], NW4: [51.59, -0.225], NW5: [51.553, -0.14],
+  NW6: [51.54, -0.195], NW7: [51.615, -0.235], NW8: [51.532, -0.172], NW9: [51.585, -0.255], NW10: [51.54, -0.25],
+  NW11: [51.578, -0.197],
+  // London South East
+  SE1: [51.5, -0.09], SE2: [51.49, 0.12], SE3: [51.47, 0.01], SE4: [51.46, -0.035], SE5: [51.475, -0.09],
+  SE6: [51.44, -0.015], SE7: [51.483, 0.035], SE8: [51.478, -0.03], SE9: [51.445, 0.055], SE10: [51.482, -0.005],
+  SE11: [51.488, -0.11], SE12: [51.443, 0.02], SE13: [51.46, -0.01], SE14: [51.475, -0.045], SE15: [51.47, -0.065],
+  SE16: [51.497, -0.05], SE17: [51.488, -0.093], SE18: [51.483, 0.07], SE19: [51.417, -0.085], SE20: [51.41, -0.055],
+  SE21: [51.44, -0.09], SE22: [51.455, -0.07], SE23: [51.443, -0.05], SE24: [51.453, -0.1], SE25: [51.397, -0.075],
+  SE26: [51.427, -0.055], SE27: [51.43, -0.1], SE28: [51.5, 0.12],
+  // London South West and West
+  SW1: [51.497, -0.14], SW2: [51.45, -0.12], SW3: [51.49, -0.168], SW4: [51.46, -0.14], SW5: [51.49, -0.19],
+  SW6: [51.475, -0.2], SW7: [51.495, -0.175], SW8: [51.475, -0.13], SW9: [51.47, -0.11], SW10: [51.483, -0.18],
+  SW11: [51.465, -0.165], SW12: [51.445, -0.15], SW13: [51.475, -0.245], SW14: [51.465, -0.265], SW15: [51.455, -0.22],
+  SW16: [51.42, -0.125], SW17: [51.43, -0.165], SW18: [51.45, -0.195], SW19: [51.42, -0.2], SW20: [51.41, -0.225],
+  W1: [51.515, -0.145], W2: [51.515, -0.18], W3: [51.51, -0.265], W4: [51.49, -0.26], W5: [51.51, -0.3],
+  W6: [51.495, -0.23], W7: [51.51, -0.33], W8: [51.5, -0.195], W9: [51.527, -0.19], W10: [51.52, -0.215],
+  W11: [51.513, -0.205], W12: [51.508, -0.235], W13: [51.515, -0.32], W14: [51.495, -0.21],
+};
@@ -0,0 +1,93 @@
+import type { Delivery } from '@/lib/deliveries';
+import { br, esc } from '@/lib/format';
+import { BusinessDetails } from '@/lib/invoices';
+import { downloadDataUrl, signedUrl, uploadDataUrl } from '@/lib/storage';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+// -----------------------
+// Proof of delivery
+// -----------------------
+// Who took the car and when, plus their signature. The signature image goes to
+// the private `signatures` bucket; if that upload fails (no signal at the
+// handover) the PNG is kept inline so the proof still syncs through the outbox.
+export type Proof = {
+  recipientName: string;
+  signedAt: string; // ISO timestamp
+  signaturePath: string | null;
+  signatureData: string | null; // data URL, only when the upload failed
+};
+
+const BUCKET = 'signatures';
+
+export async function makeProof(userId: string | null, deliveryId: string, recipientName: string, dataUrl: string | null): Promise<Proof> {
+  const proof: Proof = { recipientName: recipientName.trim(), signedAt: new Date().toISOString(), signaturePath: null, signatureData: null };
+  if (!dataUrl) return proof;
+  try {
+    if (!userId) throw new Error('Signed out');
+    return { ...proof, signaturePath: await uploadDataUrl(BUCKET, `${userId}/${deliveryId}-${Date.now()}.png`, dataUrl) };
+  } catch {
+    return { ...proof, signatureData: dataUrl };
+  }
+}
+
+export function hasSignature(p: Proof | null | undefined) { return !!(p?.signaturePath || p?.signatureData); }
+
+// Something an <Image> can show
+export async function signatureUri(p: Proof) {
+  return p.signatureData ?? (p.signaturePath ? signedUrl(BUCKET, p.signaturePath) : null);
+}
+
+// -----------------------
+// Handover receipt
+// -----------------------
+export function renderHandoverHtml(d: Delivery, p: Proof, business: BusinessDetails, clientName: string, signatureSrc: string | null): string {
+  const signed = new Date(p.signedAt);
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/><title>Handover receipt ${esc(d.reg)}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; padding: 32px; font-size: 12px; }
+  h1 { margin: 0 0 4px; font-size: 22px; }
+  .row { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+  .muted { color: #64748b; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+  th, td { padding: 6px 4px; border-bottom: 1px solid #e2e8f0; text-align: left; vertical-align: top; }
+  th { width: 30%; color: #64748b; font-weight: 500; }
+  .sig { border: 1px solid #e2e8f0; height: 140px; display: flex; align-items: center; justify-content: center; }
+  .sig img { max-height: 130px; max-width: 100%; }
+</style></head>
+<body>
+  <div class="row">
+    <div>
+      <h1>Vehicle Handover Receipt</h1>
+      <div class="muted">Delivered ${esc(signed.toLocaleString())}</div>
+    </div>
+    <div style="text-align:right">
+      <strong>${esc(business.businessName)}</strong><br/>
+      ${br(business.businessAddress)}<br/>
+      ${esc(business.businessEmail)}${business.businessPhone ? ` · ${esc(business.businessPhone)}` : ''}
+    </div>
+  </div>
+  <table>
+    <tr><th>Vehicle</th><td>${esc(`${d.carMake} ${d.carModel}`.trim())}</td></tr>
+    <tr><th>Registration</th><td>${esc(d.reg)}</td></tr>
+    <tr><th>Collected from</th><td>${esc(d.pickup)}</td></tr>
+    <tr><th>Delivered to</th><td>${esc(d.dropoff)}</td></tr>
+    ${clientName ? `<tr><th>On behalf of</th><td>${esc(clientName)}</td></tr>` : ''}
+    <tr><th>Received by</th><td>${esc(p.recipientName)}</td></tr>
+  </table>
+  <div class="sig">${signatureSrc ? `<img src="${signatureSrc}"/>` : '<span class="muted">No signature captured</span>'}</div>
+  <p class="muted">The recipient confirms the vehicle above was handed over at the time shown.</p>
+</body></html>`;
+}
+
+export async function shareHandoverReceipt(d: Delivery, business: BusinessDetails, clientName: string) {
+  if (!d.proof) throw new Error('No proof of delivery recorded for this job');
+  const src = d.proof.signatureData ?? (d.proof.signaturePath ? await downloadDataUrl(BUCKET, d.proof.signaturePath) : null);
+  const html = renderHandoverHtml(d, d.proof, business, clientName, src);
+  if (Platform.OS === 'web') { await Print.printAsync({ html }); return; }
+  const { uri } = await Print.printToFileAsync({ html });
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  await Sharing.shareAsync(uri, { mimeType: 'application/pdf', dialogTitle: `Handover ${d.reg}.pdf`, UTI: 'com.adobe.pdf' });
+}
@@ -0,0 +1,161 @@
+import { currency, distance, number, rate, toDisplayDistance } from '@/lib/format';
+import { AbortTerms, Status, StatusChange, wasUnderWay } from '@/lib/lifecycle';
+import { JobTimes, waitingMinutes } from '@/lib/times';
+
+// -----------------------
+// Types
+// -----------------------
+// A client's rate card. Evaluated in order: a matching route fee replaces the
+// distance charge, then the minimum charge, then the date uplift, then the
+// night premium. A card with no bands prices by the job's own £/km and fee.
+export type DistanceBand = {
+  upToKm: number | null; // null = everything beyond the previous band
+  flat: number; // charged once when the job falls in this band
+  ratePerKm: number; // charged on the whole distance
+};
+
+export type RouteFee = { pickup: string; dropoff: string; fee: number };
+
+export type RateCard = {
+  bands: DistanceBand[];
+  routes: RouteFee[];
+  minimumCharge: number;
+  weekendUpliftPct: number;
+  bankHolidayUpliftPct: number; // replaces the weekend uplift when both apply
+  nightPremium: number; // flat £ when the job starts inside the night window
+  nightFrom: string; // 'HH:MM'
+  nightTo: string; // 'HH:MM', may be earlier than nightFrom (window crosses midnight)
+};
+
+// Set per client, outside the rate card so a client priced by its plain
+// £/km still pays for waiting. Charged on top of everything else.
+export type WaitingTerms = {
+  waitingRatePerHour: number; // 0 = waiting isn't charged
+  waitingFreeMinutes: number; // grace period before the clock starts
+};
+
+// Everything a client sets outside its rate card
+export type ClientTerms = WaitingTerms & AbortTerms;
+
+// One step of the calculation, shown in job details and billed on invoices
+export type RateLine = { label: string; amount: number };
+
+export function emptyRateCard(): RateCard {
+  return { bands: [], routes: [], minimumCharge: 0, weekendUpliftPct: 0, bankHolidayUpliftPct: 0, nightPremium: 0, nightFrom: '22:00', nightTo: '06:00' };
+}
+
+// Fills gaps in cards saved before a field existed and puts bands in distance order
+export function normaliseRateCard(raw: Partial<RateCard> | null | undefined): RateCard | null {
+  if (!raw) return null;
+  const bands = [...(raw.bands ?? [])].sort((a, b) => (a.upToKm ?? Infinity) - (b.upToKm ?? Infinity));
+  return { ...emptyRateCard(), ...raw, bands, routes: raw.routes ?? [] };
+}
+
+// -----------------------
+// UK bank holidays (England & Wales)
+// -----------------------
+// Rule-based, so one-off proclamations (jubilees, state funerals) aren't included.
+const DAY = 86400000;
+const utc = (y: number, m: number, d: number) => Date.UTC(y, m, d);
+const dayOf = (t: number) => new Date(t).getUTCDay();
+const isoOf = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+function easterSunday(y: number) {
+  const a = y % 19, b = Math.floor(y / 100), c = y % 100;
+  const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25), g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30, i = Math.floor(c / 4), k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7, m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  return utc(y, month - 1, ((h + l - 7 * m + 114) % 31) + 1);
+}
+const firstMonday = (y: number, m: number) => { const t = utc(y, m, 1); return t + ((8 - dayOf(t)) % 7) * DAY; };
+const lastMonday = (y: number, m: number) => { const t = utc(y, m + 1, 0); return t - ((dayOf(t) + 6) % 7) * DAY; };
+
+const holidayCache = new Map<number, Set<string>>();
+
+export function bankHolidays(year: number): Set<string> {
+  const hit = holidayCache.get(year);
+  if (hit) return hit;
+  const easter = easterSunday(year);
+  const days = new Set([easter - 2 * DAY, easter + DAY, firstMonday(year, 4), lastMonday(year, 4), lastMonday(year, 7)].map(isoOf));
+  // Fixed dates falling on a weekend (or on another holiday) move to the next free weekday
+  for (const fixed of [utc(year, 0, 1), utc(year, 11, 25), utc(year, 11, 26)]) {
+    let t = fixed;
+    while (dayOf(t) === 0 || dayOf(t) === 6 || days.has(isoOf(t))) t += DAY;
+    days.add(isoOf(t));
+  }
+  holidayCache.set(year, days);
+  return days;
+}
+
+export function isBankHoliday(dateISO: string) { return bankHolidays(Number(dateISO.slice(0, 4))).has(dateISO); }
+export function isWeekend(dateISO: string) { const d = new Date(`${dateISO}T00:00:00Z`).getUTCDay(); return d === 0 || d === 6; }
+
+// -----------------------
+// Evaluation
+// -----------------------
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const norm = (s: string) => s.trim().toLowerCase();
+const minutes = (hhmm: string) => { const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim()); return m ? Number(m[1]) * 60 + Number(m[2]) : null; };
+
+export function isNight(startTime: string | null | undefined, card: RateCard) {
+  const t = minutes(startTime ?? ''), from = minutes(card.nightFrom), to = minutes(card.nightTo);
+  if (t === null || from === null || to === null || from === to) return false;
+  return from < to ? t >= from && t < to : t >= from || t < to;
+}
+
+type PriceInput = { dateISO: string; startTime?: string | null; times?: JobTimes | null; status?: Status; statusHistory?: StatusChange[]; pickup: string; dropoff: string; distanceKm: number; ratePerKm: number; fixedFee: number };
+
+export function priceJob(job: PriceInput, card: RateCard | null, terms: ClientTerms | null = null): { total: number; lines: RateLine[] } {
+  const km = Number(job.distanceKm) || 0;
+  const lines: RateLine[] = [];
+  const route = card?.routes.find((r) => norm(r.pickup) === norm(job.pickup) && norm(r.dropoff) === norm(job.dropoff));
+  const band = card?.bands.find((b) => b.upToKm === null || km <= b.upToKm);
+
+  if (route) {
+    lines.push({ label: `Route fee ${route.pickup} → ${route.dropoff}`, amount: round2(route.fee) });
+  } else if (band) {
+    const prev = card!.bands[card!.bands.indexOf(band) - 1]?.upToKm ?? 0;
+    const name = band.upToKm === null ? `over ${distance(prev)}` : `${number(toDisplayDistance(prev))}–${distance(band.upToKm)}`;
+    if (band.flat) lines.push({ label: `Band ${name} flat`, amount: round2(band.flat) });
+    if (band.ratePerKm) lines.push({ label: `${distance(km)} × ${rate(band.ratePerKm)} (band ${name})`, amount: round2(km * band.ratePerKm) });
+  } else {
+    const fee = Number(job.fixedFee) || 0, perKm = Number(job.ratePerKm) || 0;
+    if (fee) lines.push({ label: 'Fixed fee', amount: round2(fee) });
+    if (km && perKm) lines.push({ label: `${distance(km)} × ${rate(perKm)}`, amount: round2(km * perKm) });
+  }
+
+  let subtotal = lines.reduce((acc, l) => acc + l.amount, 0);
+  if (card && card.minimumCharge > subtotal) {
+    lines.push({ label: `Minimum charge ${currency(card.minimumCharge)}`, amount: round2(card.minimumCharge - subtotal) });
+    subtotal = card.minimumCharge;
+  }
+
+  if (card && job.dateISO) {
+    const pct = isBankHoliday(job.dateISO) && card.bankHolidayUpliftPct ? ['Bank holiday', card.bankHolidayUpliftPct] as const
+      : isWeekend(job.dateISO) && card.weekendUpliftPct ? ['Weekend', card.weekendUpliftPct] as const
+      : null;
+    if (pct) lines.push({ label: `${pct[0]} uplift ${pct[1]}%`, amount: round2((subtotal * pct[1]) / 100) });
+  }
+
+  if (card?.nightPremium && isNight(job.startTime, card)) lines.push({ label: `Night premium (${card.nightFrom}–${card.nightTo})`, amount: round2(card.nightPremium) });
+
+  // A job that didn't happen is billed its abort fee in place of the above
+  if (job.status === 'aborted' || job.status === 'cancelled') {
+    const full = lines.reduce((acc, l) => acc + l.amount, 0);
+    lines.splice(0, lines.length);
+    if (wasUnderWay(job)) {
+      if (terms?.abortFee) lines.push({ label: 'Abort fee', amount: round2(terms.abortFee) });
+      if (terms?.abortPct) lines.push({ label: `${terms.abortPct}% of ${currency(full)} job price`, amount: round2((full * terms.abortPct) / 100) });
+    }
+  }
+
+  const over = waitingMinutes(job) - (terms?.waitingFreeMinutes ?? 0);
+  if (terms?.waitingRatePerHour && over > 0) {
+    lines.push({ label: `Waiting ${over} min after ${terms.waitingFreeMinutes} free × ${currency(terms.waitingRatePerHour)}/h`, amount: round2((over / 60) * terms.waitingRatePerHour) });
+  }
+
+  return { total: round2(lines.reduce((acc, l) => acc + l.amount, 0)), lines };
+}
+
+export function describeLines(lines: RateLine[]) { return lines.map((l) => `${l.label}: ${currency(l.amount)}`).join('\n'); }
@@ -0,0 +1,199 @@
+import type { DateFilter } from '@/lib/filters';
+import { normaliseStatus, START_STATUSES, Status } from '@/lib/lifecycle';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// -----------------------
+// Settings
+// -----------------------
+// Display preferences plus the defaults new jobs and the list start from.
+// Stored data never changes with them: distances stay in km and rates in
+// currency per km, converted only on screen and in exports.
+export type DistanceUnit = 'km' | 'mi';
+
+export type StatTile = 'today' | 'week' | 'month' | 'expenses' | 'jobs' | 'profit' | 'perKm' | 'waiting' | 'owed';
+
+export type Settings = {
+  currency: string; // ISO 4217 code
+  distanceUnit: DistanceUnit;
+  locale: string; // BCP 47 tag for number and date formatting
+  defaultRatePerKm: number;
+  defaultFixedFee: number;
+  defaultStatus: Status; // one of START_STATUSES
+  weekStartsOn: number; // 0 = Sunday … 6 = Saturday, as Date#getDay
+  defaultDateFilter: DateFilter;
+  statTiles: StatTile[]; // in display order
+  trashRetentionDays: number; // deleted jobs are purged for good after this long
+  updatedAt: string; // newest edit wins when syncing
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  currency: 'GBP',
+  distanceUnit: 'km',
+  locale: 'en-GB',
+  defaultRatePerKm: 0,
+  defaultFixedFee: 0,
+  defaultStatus: 'booked',
+  weekStartsOn: 1,
+  defaultDateFilter: 'today',
+  statTiles: ['today', 'week', 'month', 'expenses'],
+  trashRetentionDays: 30,
+  updatedAt: '',
+};
+
+export const CURRENCIES = ['GBP', 'EUR', 'USD'];
+export const LOCALES: { key: string; label: string }[] = [
+  { key: 'en-GB', label: 'English (UK)' },
+  { key: 'en-IE', label: 'English (Ireland)' },
+  { key: 'en-US', label: 'English (US)' },
+  { key: 'de-DE', label: 'Deutsch' },
+  { key: 'fr-FR', label: 'Français' },
+];
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const STAT_TILES: { key: StatTile; label: string }[] = [
+  { key: 'today', label: 'Today (Income)' },
+  { key: 'week', label: 'This Week (Income)' },
+  { key: 'month', label: 'This Month (Income)' },
+  { key: 'expenses', label: 'Expenses' },
+  { key: 'jobs', label: 'Jobs' },
+  { key: 'profit', label: 'Profit' },
+  { key: 'perKm', label: 'Average rate' },
+  { key: 'waiting', label: 'Waiting time' },
+  { key: 'owed', label: 'Owed to you' },
+];
+
+const FILTERS: DateFilter[] = ['today', 'week', 'month', 'all', 'custom'];
+
+function normalise(s: Partial<Settings> | null | undefined): Settings {
+  const d = DEFAULT_SETTINGS;
+  const tiles = Array.isArray(s?.statTiles) ? s.statTiles.filter((t) => STAT_TILES.some((x) => x.key === t)) : d.statTiles;
+  return {
+    currency: typeof s?.currency === 'string' && /^[A-Z]{3}$/.test(s.currency) ? s.currency : d.currency,
+    distanceUnit: s?.distanceUnit === 'mi' ? 'mi' : 'km',
+    locale: typeof s?.locale === 'string' && s.locale ? s.locale : d.locale,
+    defaultRatePerKm: Number(s?.defaultRatePerKm) || 0,
+    defaultFixedFee: Number(s?.defaultFixedFee) || 0,
+    defaultStatus: START_STATUSES.includes(normaliseStatus(s?.defaultStatus)) ? normaliseStatus(s?.defaultStatus) : d.defaultStatus,
+    weekStartsOn: Number.isInteger(s?.weekStartsOn) && s!.weekStartsOn! >= 0 && s!.weekStartsOn! <= 6 ? s!.weekStartsOn! : d.weekStartsOn,
+    defaultDateFilter: FILTERS.includes(s?.defaultDateFilter as DateFilter) ? s!.defaultDateFilter! : d.defaultDateFilter,
+    statTiles: tiles,
+    trashRetentionDays: Number.isInteger(s?.trashRetentionDays) && s!.trashRetentionDays! > 0 ? s!.trashRetentionDays! : d.trashRetentionDays,
+    updatedAt: typeof s?.updatedAt === 'string' ? s.updatedAt : '',
+  };
+}
+
+// The formatters are plain functions called all over, so the active settings
+// live here and screens subscribe to re-render when they change.
+let current: Settings = DEFAULT_SETTINGS;
+const listeners = new Set<() => void>();
+
+export function getSettings() { return current; }
+
+export function subscribeSettings(fn: () => void) {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+}
+
+function publish(next: Settings) {
+  current = next;
+  listeners.forEach((fn) => fn());
+}
+
+// -----------------------
+// Local cache
+// -----------------------
+const SETTINGS_KEY = 'car_delivery_tracker__settings_v1';
+
+export async function loadSettings(): Promise<Settings> {
+  const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+  let saved: Partial<Settings> | null = null;
+  try { saved = raw ? JSON.parse(raw) : null; } catch {}
+  publish(normalise(saved));
+  return current;
+}
+
+async function cache(s: Settings) {
+  publish(s);
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+}
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `user_settings` (snake_case), one row per user keyed by user_id:
+// currency, distance_unit, locale, default_rate_per_km, default_fixed_fee,
+// default_status, week_starts_on, default_date_filter, stat_tiles (jsonb), trash_retention_days (int), updated_at.
+
+type SettingsRow = {
+  user_id: string;
+  currency: string | null;
+  distance_unit: DistanceUnit | null;
+  locale: string | null;
+  default_rate_per_km: number | string | null;
+  default_fixed_fee: number | string | null;
+  default_status: string | null;
+  week_starts_on: number | null;
+  default_date_filter: DateFilter | null;
+  stat_tiles: StatTile[] | null;
+  trash_retention_days: number | null;
+  updated_at: string;
+};
+
+function rowToSettings(r: SettingsRow): Settings {
+  return normalise({
+    currency: r.currency ?? undefined,
+    distanceUnit: r.distance_unit ?? undefined,
+    locale: r.locale ?? undefined,
+    defaultRatePerKm: Number(r.default_rate_per_km ?? 0),
+    defaultFixedFee: Number(r.default_fixed_fee ?? 0),
+    defaultStatus: r.default_status ? normaliseStatus(r.default_status) : undefined,
+    weekStartsOn: r.week_starts_on ?? undefined,
+    defaultDateFilter: r.default_date_filter ?? undefined,
+    statTiles: r.stat_tiles ?? undefined,
+    trashRetentionDays: r.trash_retention_days ?? undefined,
+    updatedAt: r.updated_at,
+  });
+}
+
+function settingsToRow(s: Settings, userId: string): SettingsRow {
+  return {
+    user_id: userId,
+    currency: s.currency,
+    distance_unit: s.distanceUnit,
+    locale: s.locale,
+    default_rate_per_km: s.defaultRatePerKm,
+    default_fixed_fee: s.defaultFixedFee,
+    default_status: s.defaultStatus,
+    week_starts_on: s.weekStartsOn,
+    default_date_filter: s.defaultDateFilter,
+    stat_tiles: s.statTiles,
+    trash_retention_days: s.trashRetentionDays,
+    updated_at: s.updatedAt,
+  };
+}
+
+async function push(userId: string, s: Settings) {
+  const { error } = await supabase.from('user_settings').upsert(settingsToRow(s, userId), { onConflict: 'user_id' });
+  if (error) throw error;
+}
+
+// Whichever side was edited last wins; an edit made offline is pushed here.
+// Falls back to the cache when the server can't be reached.
+export async function syncSettings(userId: string): Promise<Settings> {
+  const local = await loadSettings();
+  const { data, error } = await supabase.from('user_settings').select('*').eq('user_id', userId).maybeSingle();
+  if (error) return local;
+  const remote = data ? rowToSettings(data as SettingsRow) : null;
+  if (remote && remote.updatedAt >= local.updatedAt) { await cache(remote); return remote; }
+  if (local.updatedAt) await push(userId, local).catch(() => {});
+  return local;
+}
+
+// Applies at once and caches; the server copy follows when signed in and online.
+export async function saveSettings(patch: Partial<Settings>): Promise<Settings> {
+  const next = normalise({ ...current, ...patch, updatedAt: new Date().toISOString() });
+  await cache(next);
+  const { data } = await supabase.auth.getSession();
+  if (data.session?.user) await push(data.session.user.id, next).catch(() => {});
+  return next;
+}
@@ -0,0 +1,161 @@
+import { Delivery } from '@/lib/deliveries';
+import { isOpen } from '@/lib/lifecycle';
+import { supabase } from '@/lib/supabase';
+import { durationMinutes } from '@/lib/times';
+import { computeTotals } from '@/lib/totals';
+import type { Ionicons } from '@expo/vector-icons';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Types
+// -----------------------
+// A day run: the jobs of one day in the order they were driven, with the
+// unpaid positioning legs (train to the pickup, bus home) in between.
+export type LegMode = 'train' | 'bus' | 'tube' | 'taxi' | 'lift' | 'walk' | 'other';
+
+export const LEG_MODES: { key: LegMode; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: 'train', label: 'Train', icon: 'train-outline' },
+  { key: 'bus', label: 'Bus', icon: 'bus-outline' },
+  { key: 'tube', label: 'Tube', icon: 'subway-outline' },
+  { key: 'taxi', label: 'Taxi', icon: 'car-outline' },
+  { key: 'lift', label: 'Lift', icon: 'people-outline' },
+  { key: 'walk', label: 'Walk', icon: 'walk-outline' },
+  { key: 'other', label: 'Other', icon: 'ellipsis-horizontal' },
+];
+
+export type Leg = {
+  id: string;
+  mode: LegMode;
+  from: string;
+  to: string;
+  cost: number; // fares paid out of pocket
+  minutes: number;
+  distanceKm: number; // 0 when unknown
+};
+
+export type Stop = { kind: 'job'; deliveryId: string } | { kind: 'leg'; leg: Leg };
+
+export type Shift = {
+  id: string;
+  dateISO: string; // one run per day
+  stops: Stop[]; // in travel order
+  updatedAt: string; // newest edit wins when syncing
+};
+
+export function emptyLeg(): Leg { return { id: uuidv4(), mode: 'train', from: '', to: '', cost: 0, minutes: 0, distanceKm: 0 }; }
+
+// A new run starts with the day's jobs in scheduled order
+export function newShift(dateISO: string, jobs: Delivery[]): Shift {
+  const order = [...jobs].sort((a, b) => (a.startTime ?? '').localeCompare(b.startTime ?? ''));
+  return { id: uuidv4(), dateISO, stops: order.map((d) => ({ kind: 'job', deliveryId: d.id })), updatedAt: new Date().toISOString() };
+}
+
+export const stopKey = (s: Stop) => (s.kind === 'job' ? `job:${s.deliveryId}` : `leg:${s.leg.id}`);
+
+// -----------------------
+// Day totals
+// -----------------------
+// Paid distance and time come from the jobs (time only where start and finish
+// were stamped); unpaid from the legs. The hourly rate is what the day
+// earned after fares and own costs, over every minute of it.
+export type DayTotals = {
+  jobs: number;
+  paidKm: number;
+  unpaidKm: number;
+  paidMinutes: number;
+  unpaidMinutes: number;
+  legCosts: number;
+  income: number;
+  net: number; // income less unreimbursed expenses and fares
+  perHour: number; // 0 until any time is known
+};
+
+export function dayTotals(shift: Shift, deliveries: Delivery[]): DayTotals {
+  const jobs = shift.stops.flatMap((s) => (s.kind === 'job' ? deliveries.filter((d) => d.id === s.deliveryId) : []));
+  const legs = shift.stops.flatMap((s) => (s.kind === 'leg' ? [s.leg] : []));
+  const t = computeTotals(jobs.filter((d) => !isOpen(d.status)));
+  const paidMinutes = jobs.reduce((acc, d) => acc + durationMinutes(d), 0);
+  const unpaidMinutes = legs.reduce((acc, l) => acc + (Number(l.minutes) || 0), 0);
+  const legCosts = legs.reduce((acc, l) => acc + (Number(l.cost) || 0), 0);
+  const net = t.profit - legCosts;
+  const minutes = paidMinutes + unpaidMinutes;
+  return {
+    jobs: jobs.length,
+    paidKm: jobs.reduce((acc, d) => acc + (Number(d.distanceKm) || 0), 0),
+    unpaidKm: legs.reduce((acc, l) => acc + (Number(l.distanceKm) || 0), 0),
+    paidMinutes,
+    unpaidMinutes,
+    legCosts,
+    income: t.net,
+    net,
+    perHour: minutes ? net / (minutes / 60) : 0,
+  };
+}
+
+// -----------------------
+// Local cache
+// -----------------------
+// Runs are built on the move, so edits land in the cache first and reach the
+// server when they can, like settings.
+const SHIFTS_KEY = 'car_delivery_tracker__shifts_v1';
+
+export async function loadShifts(): Promise<Shift[]> {
+  const raw = await AsyncStorage.getItem(SHIFTS_KEY);
+  if (!raw) return [];
+  try { const parsed: Shift[] = JSON.parse(raw); return Array.isArray(parsed) ? parsed : []; } catch { return []; }
+}
+async function saveShifts(list: Shift[]) { await AsyncStorage.setItem(SHIFTS_KEY, JSON.stringify(list)); }
+
+// -----------------------
+// Supabase mapping
+// -----------------------
+// Table `shifts` (snake_case): id, user_id, date_iso, stops (jsonb), updated_at.
+
+type ShiftRow = { id: string; user_id: string; date_iso: string; stops: Stop[] | null; updated_at: string };
+
+const rowToShift = (r: ShiftRow): Shift => ({ id: r.id, dateISO: r.date_iso, stops: r.stops ?? [], updatedAt: r.updated_at });
+
+async function push(userId: string, s: Shift) {
+  const row: ShiftRow = { id: s.id, user_id: userId, date_iso: s.dateISO, stops: s.stops, updated_at: s.updatedAt };
+  const { error } = await supabase.from('shifts').upsert(row, { onConflict: 'id' });
+  if (error) throw error;
+}
+
+// Newest copy of each run wins; local edits made offline are pushed here.
+// Falls back to the cache when the server can't be reached.
+export async function syncShifts(userId: string): Promise<Shift[]> {
+  const local = await loadShifts();
+  const { data, error } = await supabase.from('shifts').select('*').eq('user_id', userId);
+  if (error) return local;
+  const byId = new Map((data as ShiftRow[]).map((r) => [r.id, rowToShift(r)]));
+  for (const s of local) {
+    const remote = byId.get(s.id);
+    if (remote && remote.updatedAt >= s.updatedAt) continue;
+    byId.set(s.id, s);
+    await push(userId, s).catch(() => {});
+  }
+  const list = [...byId.values()];
+  await saveShifts(list);
+  return list;
+}
+
+export async function saveShift(userId: string | null, shift: Shift): Promise<Shift[]> {
+  const next = { ...shift, updatedAt: new Date().toISOString() };
+  const list = [next, ...(await loadShifts()).filter((s) => s.id !== shift.id)];
+  await saveShifts(list);
+  if (userId) await push(userId, next).catch(() => {});
+  return list;
+}
+
+// Removing a run needs the server, or the next sync would bring it back
+export async function deleteShift(userId: string | null, id: string): Promise<Shift[]> {
+  if (userId) {
+    const { error } = await supabase.from('shifts').delete().eq('id', id).eq('user_id', userId);
+    if (error) throw error;
+  }
+  const list = (await loadShifts()).filter((s) => s.id !== id);
+  await saveShifts(list);
+  return list;
+}
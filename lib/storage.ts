@@ -0,0 +1,64 @@
+import { supabase } from '@/lib/supabase';
+import * as ImagePicker from 'expo-image-picker';
+
+// -----------------------
+// Photo uploads
+// -----------------------
+// Same approach as the avatar picker: read the picked image into an
+// ArrayBuffer and upload it. Buckets used here are private and keyed by user
+// (`<userId>/...`) so storage policies can restrict reads to the owner.
+export type PhotoSource = 'camera' | 'library';
+
+export async function pickAndUpload(bucket: string, pathPrefix: string, source: PhotoSource): Promise<string | null> {
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], allowsEditing: false, quality: 0.6, exif: false };
+  if (source === 'camera') {
+    const { granted } = await ImagePicker.requestCameraPermissionsAsync();
+    if (!granted) throw new Error('Camera access is needed to take photos.');
+  }
+  const result = source === 'camera' ? await ImagePicker.launchCameraAsync(options) : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled || !result.assets?.length) return null;
+
+  const image = result.assets[0];
+  if (!image.uri) throw new Error('No image uri!');
+  const arraybuffer = await fetch(image.uri).then((res) => res.arrayBuffer());
+  const fileExt = image.uri.split('.').pop()?.toLowerCase() ?? 'jpeg';
+  const { data, error } = await supabase.storage.from(bucket).upload(`${pathPrefix}-${Date.now()}.${fileExt}`, arraybuffer, { contentType: image.mimeType ?? 'image/jpeg' });
+  if (error) throw error;
+  return data.path;
+}
+
+// For images drawn in-app (signatures) rather than picked from the camera roll
+export async function uploadDataUrl(bucket: string, path: string, dataUrl: string): Promise<string> {
+  const [head, b64] = dataUrl.split(',');
+  const contentType = /data:([^;]+)/.exec(head)?.[1] ?? 'image/png';
+  const bytes = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+  const { data, error } = await supabase.storage.from(bucket).upload(path, bytes.buffer, { contentType });
+  if (error) throw error;
+  return data.path;
+}
+
+// Inline copy of a private object, for embedding in generated PDFs
+export async function downloadDataUrl(bucket: string, path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error) throw error;
+  return new Promise((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => resolve(fr.result as string);
+    fr.onerror = () => reject(fr.error);
+    fr.readAsDataURL(data);
+  });
+}
+
+// Short-lived links for viewing private objects
+export async function signedUrl(bucket: string, path: string, expiresIn = 3600) {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresIn);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function signedUrls(bucket: string, paths: string[], expiresIn = 3600): Promise<Record<string, string>> {
+  if (!paths.length) return {};
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, expiresIn);
+  if (error) throw error;
+  return Object.fromEntries(data.filter((d) => d.signedUrl && d.path).map((d) => [d.path!, d.signedUrl]));
+}
@@ -0,0 +1,92 @@
+import type { Client } from '@/lib/clients';
+import { Delivery, Draft, fetchPurgedSince, fetchRange, fetchUnpaid, loadCache, saveCache, sortByDateDesc, upsertById } from '@/lib/deliveries';
+import { isWithin } from '@/lib/format';
+import { assertUnlocked, withStartEntry } from '@/lib/lifecycle';
+import { applyPending, enqueueAll, loadOutbox, OutboxOp, pendingIds, rebaseOutbox } from '@/lib/outbox';
+import { priceJob } from '@/lib/rates';
+import { loadTrash, saveTrash, splitTrashed } from '@/lib/trash';
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+
+// -----------------------
+// Local store
+// -----------------------
+// The list and trash caches are written together from one combined list so a
+// job is never in both, or in neither.
+export async function storeAll(all: Delivery[]): Promise<[Delivery[], Delivery[]]> {
+  const [live, trashed] = splitTrashed(all);
+  const next = sortByDateDesc(live);
+  await saveCache(next);
+  await saveTrash(trashed);
+  return [next, trashed];
+}
+
+export async function loadAll() {
+  return [...(await loadCache()), ...(await loadTrash())];
+}
+
+// -----------------------
+// Saving jobs
+// -----------------------
+// Every screen that edits jobs saves through here. Prices each draft with its
+// client's rate card unless `reprice` is off (invoice linking must not move a
+// billed figure) or the earnings were typed in by hand, then stores it and,
+// when signed in, queues it; `ops` is the queue afterwards, for replaying.
+export async function saveJobs(inputs: Draft[], { userId, clients, reprice = true }: { userId: string | null; clients: Client[]; reprice?: boolean }) {
+  const saved = inputs.map((input): Delivery => {
+    const client = clients.find((c) => c.id === input.clientId);
+    const quote = reprice ? priceJob(input, client?.rateCard ?? null, client ?? null) : null;
+    const computed = !quote || input.earningsManual ? Number(input.earnings) || 0 : quote.total;
+    return { version: 0, updatedAt: '', ...(input.id ? input : withStartEntry(input)), id: input.id ?? uuidv4(), earnings: computed, rateLines: quote?.lines ?? input.rateLines ?? [] };
+  });
+  const ids = new Set(saved.map((d) => d.id));
+  // From the caches, which also hold jobs loaded since the caller last rendered
+  const known = await loadAll();
+  // Throws before anything is written if a save would change a billed job
+  saved.forEach((d) => assertUnlocked(known.find((k) => k.id === d.id), d));
+  const [live, trashed] = await storeAll([...saved, ...known.filter((d) => !ids.has(d.id))]);
+
+  // If logged in → queue for Supabase; the outbox holds it until the server accepts it
+  let ops: OutboxOp[] | null = null;
+  if (userId) {
+    const queuedAt = new Date().toISOString();
+    // Written together, sent together
+    const batch = saved.length > 1 ? uuidv4() : undefined;
+    ops = await enqueueAll(saved.map((local) => ({
+      kind: 'upsert' as const, id: local.id, userId, delivery: local, base: known.find((d) => d.id === local.id), queuedAt, batch,
+    })));
+  }
+  return { ids: saved.map((d) => d.id), live, trashed, ops };
+}
+
+// -----------------------
+// Reading from the server
+// -----------------------
+// Folds rows just read from the server into the caches, keeping queued writes
+// on top. Anything that reads history beyond the loaded pages goes through
+// here, so what it fetched is what the list shows from then on.
+export async function mergeRemoteRows(userId: string, rows: Delivery[], drop: string[] = []): Promise<{ live: Delivery[]; trashed: Delivery[]; queued: OutboxOp[] }> {
+  // Merge queued edits into anything that changed remotely since they were made
+  const queued = (await rebaseOutbox(userId, rows)).filter((o) => o.userId === userId);
+  // Writes the server hasn't accepted yet win over the remote copy
+  const [live, trashed] = await storeAll(applyPending(upsertById((await loadAll()).filter((d) => !drop.includes(d.id)), rows), queued));
+  return { live, trashed, queued };
+}
+
+// Every job dated within the range merged in; the live ones in it come back
+export async function loadRange(userId: string, startISO: string, endISO: string) {
+  const merged = await mergeRemoteRows(userId, await fetchRange(userId, startISO, endISO));
+  return { ...merged, inRange: merged.live.filter((d) => isWithin(d.dateISO, startISO, endISO)) };
+}
+
+// Every job that may still be owed on merged in, for the receivables
+export async function loadUnpaid(userId: string) {
+  return mergeRemoteRows(userId, await fetchUnpaid(userId));
+}
+
+// Ids of jobs deleted for good on the server since the `since` watermark.
+// Jobs with queued writes are kept: the write brings them back.
+export async function goneFromServer(userId: string, since: string) {
+  const queued = pendingIds(await loadOutbox());
+  return (await fetchPurgedSince(userId, since)).filter((id) => !queued.has(id));
+}
@@ -0,0 +1,65 @@
+import { Delivery } from '@/lib/deliveries';
+import { ColumnPref, EXPORT_COLUMNS, ExportColumn, ExportContext, mergeColumnPrefs } from '@/lib/export';
+import { fromDisplayDistance, fromDisplayRate, toDisplayDistance, toDisplayRate } from '@/lib/format';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// -----------------------
+// Desktop table
+// -----------------------
+// The web dashboard's columns are the export's, so a figure reads the same on
+// screen and in the spreadsheet; the table keeps its own choice and order.
+const TABLE_KEY = 'car_delivery_tracker__table_columns_v1';
+const SHOWN = ['dateISO', 'reg', 'client', 'pickup', 'dropoff', 'distanceKm', 'earnings', 'income', 'status'];
+
+export async function loadTableColumns(): Promise<ColumnPref[]> {
+  return mergeColumnPrefs(await AsyncStorage.getItem(TABLE_KEY), EXPORT_COLUMNS.map((c) => ({ key: c.key, enabled: SHOWN.includes(c.key) })));
+}
+export async function saveTableColumns(prefs: ColumnPref[]) { await AsyncStorage.setItem(TABLE_KEY, JSON.stringify(prefs)); }
+
+export function tableColumns(prefs: ColumnPref[]): ExportColumn[] {
+  return prefs.filter((p) => p.enabled).map((p) => EXPORT_COLUMNS.find((c) => c.key === p.key)!).filter(Boolean);
+}
+
+// -----------------------
+// Sorting
+// -----------------------
+export type Sort = { key: string; dir: 'asc' | 'desc' };
+
+// Sorts by the value the column shows; blanks go last either way
+export function sortRows(list: Delivery[], sort: Sort, ctx: ExportContext): Delivery[] {
+  const col = EXPORT_COLUMNS.find((c) => c.key === sort.key);
+  if (!col) return list;
+  const sign = sort.dir === 'asc' ? 1 : -1;
+  return [...list].sort((a, b) => {
+    const x = col.value(a, ctx), y = col.value(b, ctx);
+    if (x === '' || x === null || x === undefined) return 1;
+    if (y === '' || y === null || y === undefined) return -1;
+    return sign * (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y)));
+  });
+}
+
+// -----------------------
+// Inline editing
+// -----------------------
+// Cells that can be typed into: the text the editor starts from, and the
+// change it makes to the job (null when the input isn't valid). Figures are
+// typed in display units and stored in km, like the form.
+export type CellEdit = { text: (d: Delivery) => string; patch: (v: string) => Partial<Delivery> | null };
+
+const num = (v: string) => { const n = Number(v.trim().replace(',', '.')); return v.trim() !== '' && isFinite(n) && n >= 0 ? n : null; };
+const plain = (k: 'carMake' | 'carModel' | 'pickup' | 'dropoff' | 'notes'): CellEdit => ({ text: (d) => d[k] ?? '', patch: (v) => ({ [k]: v.trim() }) });
+
+export const EDITABLE: Record<string, CellEdit> = {
+  dateISO: { text: (d) => d.dateISO, patch: (v) => (/^\d{4}-\d{2}-\d{2}$/.test(v.trim()) ? { dateISO: v.trim() } : null) },
+  carMake: plain('carMake'),
+  carModel: plain('carModel'),
+  reg: { text: (d) => d.reg, patch: (v) => (v.trim() ? { reg: v.toUpperCase().replace(/\s+/g, '') } : null) },
+  pickup: plain('pickup'),
+  dropoff: plain('dropoff'),
+  notes: plain('notes'),
+  distanceKm: { text: (d) => String(toDisplayDistance(d.distanceKm)), patch: (v) => (num(v) === null ? null : { distanceKm: fromDisplayDistance(num(v)!), distanceEstimated: false }) },
+  ratePerKm: { text: (d) => String(toDisplayRate(d.ratePerKm)), patch: (v) => (num(v) === null ? null : { ratePerKm: fromDisplayRate(num(v)!) }) },
+  fixedFee: { text: (d) => String(Number(d.fixedFee) || 0), patch: (v) => (num(v) === null ? null : { fixedFee: num(v)! }) },
+  // Typing a figure in is a manual override, as in the form
+  earnings: { text: (d) => String(Number(d.earnings) || 0), patch: (v) => (num(v) === null ? null : { earnings: num(v)!, earningsManual: true }) },
+};
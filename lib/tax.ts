@@ -0,0 +1,152 @@
+import { Delivery } from '@/lib/deliveries';
+import { categoryLabel, EXPENSE_CATEGORIES, ExpenseCategory } from '@/lib/expenses';
+import { br, currency, distance, esc, isWithin } from '@/lib/format';
+import { BusinessDetails } from '@/lib/invoices';
+import { isOpen } from '@/lib/lifecycle';
+import { computeTotals, Totals } from '@/lib/totals';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+// -----------------------
+// UK tax years
+// -----------------------
+// A tax year runs 6 April to 5 April and is named by both calendar years, e.g. 2024/25.
+export type TaxYear = { start: number; label: string; startISO: string; endISO: string };
+
+export function taxYear(start: number): TaxYear {
+  return { start, label: `${start}/${String(start + 1).slice(-2)}`, startISO: `${start}-04-06`, endISO: `${start + 1}-04-05` };
+}
+
+export function taxYearOf(dateISO: string) {
+  const y = Number(dateISO.slice(0, 4));
+  return dateISO.slice(5) >= '04-06' ? y : y - 1;
+}
+
+// Years that have jobs, newest first, always including the current one
+export function taxYearsIn(list: Delivery[], today: string) {
+  const years = new Set([taxYearOf(today), ...list.filter((d) => d.dateISO).map((d) => taxYearOf(d.dateISO))]);
+  return [...years].sort((a, b) => b - a).map(taxYear);
+}
+
+// -----------------------
+// Report
+// -----------------------
+export type CategoryTotal = { category: ExpenseCategory; label: string; reimbursed: number; own: number };
+export type MonthTotal = { month: string; label: string; jobs: number; fees: number; expenses: number };
+
+export type TaxReport = {
+  year: TaxYear;
+  totals: Totals; // fee income, reimbursed expenses, own costs over the counted jobs
+  categories: CategoryTotal[];
+  months: MonthTotal[];
+  allowableExpenses: number; // every expense item, reimbursed or not
+  profit: number; // estimate: all income less allowable expenses
+  pendingExcluded: number; // jobs in the year still marked pending
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Pending jobs haven't earned anything yet so they're left out; cancelled and
+// aborted ones count because any fee recorded on them was still paid.
+export function buildTaxReport(list: Delivery[], year: TaxYear): TaxReport {
+  const inYear = list.filter((d) => isWithin(d.dateISO, year.startISO, year.endISO));
+  const counted = inYear.filter((d) => !isOpen(d.status));
+  const totals = computeTotals(counted);
+
+  const categories: CategoryTotal[] = EXPENSE_CATEGORIES.map((c) => ({ category: c.key, label: c.label, reimbursed: 0, own: 0 }));
+  for (const e of counted.flatMap((d) => d.expenses ?? [])) {
+    const row = categories.find((c) => c.category === e.category) ?? categories[categories.length - 1];
+    if (e.reimbursable) row.reimbursed += Number(e.amount) || 0; else row.own += Number(e.amount) || 0;
+  }
+
+  const months: MonthTotal[] = Array.from({ length: 12 }, (_, i) => {
+    const m = (3 + i) % 12, y = year.start + (3 + i >= 12 ? 1 : 0);
+    const month = `${y}-${String(m + 1).padStart(2, '0')}`;
+    const jobs = counted.filter((d) => d.dateISO.startsWith(month));
+    const t = computeTotals(jobs);
+    return { month, label: `${MONTHS[m]} ${y}`, jobs: jobs.length, fees: t.totalEarnings, expenses: t.totalExpenses + t.ownCosts };
+  });
+
+  const allowableExpenses = totals.totalExpenses + totals.ownCosts;
+  return {
+    year,
+    totals,
+    categories: categories.filter((c) => c.reimbursed || c.own),
+    months,
+    allowableExpenses,
+    profit: totals.net - allowableExpenses,
+    pendingExcluded: inYear.length - counted.length,
+  };
+}
+
+// -----------------------
+// PDF summary
+// -----------------------
+export function renderTaxHtml(r: TaxReport, business: BusinessDetails): string {
+  const cats = r.categories.map((c) => `
+    <tr><td>${esc(categoryLabel(c.category))}</td><td class="num">${currency(c.reimbursed)}</td><td class="num">${currency(c.own)}</td><td class="num">${currency(c.reimbursed + c.own)}</td></tr>`).join('');
+  const months = r.months.map((m) => `
+    <tr><td>${esc(m.label)}</td><td class="num">${m.jobs}</td><td class="num">${currency(m.fees)}</td><td class="num">${currency(m.expenses)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/><title>Tax year ${esc(r.year.label)}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; padding: 32px; font-size: 12px; }
+  h1 { margin: 0 0 4px; font-size: 22px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  .row { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 16px; }
+  .muted { color: #64748b; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 4px; border-bottom: 1px solid #e2e8f0; text-align: left; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .grand td { font-weight: 700; border-top: 2px solid #0f172a; }
+</style></head>
+<body>
+  <div class="row">
+    <div>
+      <h1>Self-Assessment Summary ${esc(r.year.label)}</h1>
+      <div class="muted">6 April ${r.year.start} to 5 April ${r.year.start + 1} · ${r.totals.totalJobs} jobs · ${distance(r.totals.totalKm)}</div>
+    </div>
+    <div style="text-align:right">
+      <strong>${esc(business.businessName)}</strong><br/>
+      ${br(business.businessAddress)}
+    </div>
+  </div>
+
+  <h2>Income</h2>
+  <table>
+    <tr><td>Delivery fees</td><td class="num">${currency(r.totals.totalEarnings)}</td></tr>
+    <tr><td>Reimbursed expenses</td><td class="num">${currency(r.totals.totalExpenses)}</td></tr>
+    <tr class="grand"><td>Total turnover</td><td class="num">${currency(r.totals.net)}</td></tr>
+  </table>
+
+  <h2>Allowable expenses</h2>
+  <table>
+    <thead><tr><th>Category</th><th class="num">Reimbursed</th><th class="num">Paid by me</th><th class="num">Total</th></tr></thead>
+    <tbody>${cats || '<tr><td colspan="4" class="muted">No expenses recorded</td></tr>'}</tbody>
+    <tbody><tr class="grand"><td colspan="3">Total allowable expenses</td><td class="num">${currency(r.allowableExpenses)}</td></tr></tbody>
+  </table>
+
+  <h2>Estimated profit</h2>
+  <table>
+    <tr class="grand"><td>Turnover less allowable expenses</td><td class="num">${currency(r.profit)}</td></tr>
+  </table>
+
+  <h2>By month</h2>
+  <table>
+    <thead><tr><th>Month</th><th class="num">Jobs</th><th class="num">Fees</th><th class="num">Expenses</th></tr></thead>
+    <tbody>${months}</tbody>
+  </table>
+
+  <p class="muted">Prepared from delivery records. ${r.pendingExcluded ? `${r.pendingExcluded} job(s) still pending are excluded. ` : ''}Costs not logged against jobs (insurance, phone, clothing) are not included and the profit figure is an estimate before tax.</p>
+</body></html>`;
+}
+
+export async function shareTaxReportPdf(r: TaxReport, business: BusinessDetails) {
+  const html = renderTaxHtml(r, business);
+  if (Platform.OS === 'web') { await Print.printAsync({ html }); return; }
+  const { uri } = await Print.printToFileAsync({ html });
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  await Sharing.shareAsync(uri, { mimeType: 'application/pdf', dialogTitle: `Tax year ${r.year.label.replace('/', '-')}.pdf`, UTI: 'com.adobe.pdf' });
+}
@@ -0,0 +1,64 @@
+// -----------------------
+// Types
+// -----------------------
+// The four moments of a job. Scheduled ones are 'HH:MM' on the job's date
+// (the scheduled start is the job's existing `startTime`); actual ones are
+// full ISO timestamps stamped with a tap as they happen.
+export type TimePoint = 'start' | 'collection' | 'delivery' | 'end';
+
+export type JobTimes = {
+  scheduled: Partial<Record<Exclude<TimePoint, 'start'>, string>>;
+  actual: Partial<Record<TimePoint, string>>;
+};
+
+export const TIME_POINTS: { key: TimePoint; label: string }[] = [
+  { key: 'start', label: 'Start' },
+  { key: 'collection', label: 'Collection' },
+  { key: 'delivery', label: 'Arrived at drop-off' },
+  { key: 'end', label: 'Handed over' },
+];
+
+type Timed = { dateISO: string; startTime?: string | null; times?: JobTimes | null };
+
+export function emptyTimes(): JobTimes { return { scheduled: {}, actual: {} }; }
+
+export function normaliseTimes(raw: Partial<JobTimes> | null | undefined): JobTimes {
+  return { scheduled: { ...raw?.scheduled }, actual: { ...raw?.actual } };
+}
+
+// -----------------------
+// Reading times
+// -----------------------
+const HHMM = /^(\d{1,2}):(\d{2})$/;
+
+export function scheduledAt(job: Timed, point: TimePoint): Date | null {
+  const hhmm = point === 'start' ? job.startTime : job.times?.scheduled[point];
+  const m = HHMM.exec((hhmm ?? '').trim());
+  if (!m || !job.dateISO) return null;
+  const d = new Date(`${job.dateISO}T${m[1].padStart(2, '0')}:${m[2]}:00`);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function actualAt(job: Timed, point: TimePoint): Date | null {
+  const v = job.times?.actual[point];
+  const d = v ? new Date(v) : null;
+  return d && !isNaN(d.getTime()) ? d : null;
+}
+
+const mins = (from: Date | null, to: Date | null) => (from && to ? Math.round((to.getTime() - from.getTime()) / 60000) : 0);
+
+// Waiting is time lost to other people: collecting later than booked, plus
+// the gap between arriving at the drop-off and being signed off there.
+export function waitingMinutes(job: Timed) {
+  const atCollection = Math.max(0, mins(scheduledAt(job, 'collection'), actualAt(job, 'collection')));
+  const atHandover = Math.max(0, mins(actualAt(job, 'delivery'), actualAt(job, 'end')));
+  return atCollection + atHandover;
+}
+
+// Start to finish as stamped, 0 until both ends are known
+export function durationMinutes(job: Timed) { return Math.max(0, mins(actualAt(job, 'start'), actualAt(job, 'end'))); }
+
+export function hoursLabel(minutes: number) {
+  const h = Math.floor(minutes / 60), m = minutes % 60;
+  return h ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m`;
+}
@@ -0,0 +1,23 @@
+import { Delivery } from '@/lib/deliveries';
+import { ownCostTotal, reimbursedTotal } from '@/lib/expenses';
+
+// -----------------------
+// Totals
+// -----------------------
+export function sumE(list: Delivery[]) { return list.reduce((acc, d) => acc + (Number(d.earnings) || 0), 0); }
+export function sumX(list: Delivery[]) { return list.reduce((acc, d) => acc + reimbursedTotal(d), 0); }
+export function sumOwn(list: Delivery[]) { return list.reduce((acc, d) => acc + ownCostTotal(d), 0); }
+
+export function computeTotals(list: Delivery[]) {
+  const totalEarnings = sumE(list);
+  const totalExpenses = sumX(list);
+  const ownCosts = sumOwn(list);
+  const totalJobs = list.length;
+  const totalKm = list.reduce((acc, d) => acc + (Number(d.distanceKm) || 0), 0);
+  const net = totalEarnings + totalExpenses; // expenses reimbursed as wages
+  const profit = net - totalExpenses - ownCosts; // what's left once every expense is paid
+  const avgPerKm = totalKm > 0 ? net / totalKm : 0;
+  return { totalEarnings, totalExpenses, ownCosts, net, profit, totalJobs, totalKm, avgPerKm };
+}
+
+export type Totals = ReturnType<typeof computeTotals>;
@@ -0,0 +1,59 @@
+import { Delivery, DeliveryRow, PAGE_SIZE, rowToDelivery } from '@/lib/deliveries';
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// -----------------------
+// Trash
+// -----------------------
+// Deleting a job only stamps `deletedAt`; the row stays on the server so it
+// can be restored, and is purged for good once it has sat in the trash past
+// the retention period. Trashed jobs are cached apart from the live list so
+// totals, reports and exports never see them.
+const TRASH_KEY = 'car_delivery_tracker__trash_v1';
+
+export const RETENTION_DAYS = [7, 30, 90, 365];
+
+export async function loadTrash(): Promise<Delivery[]> {
+  const raw = await AsyncStorage.getItem(TRASH_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch { return []; }
+}
+export async function saveTrash(list: Delivery[]) { await AsyncStorage.setItem(TRASH_KEY, JSON.stringify(list)); }
+
+export const isTrashed = (d: Delivery) => !!d.deletedAt;
+
+// [live, trashed], with the trash most recently deleted first
+export function splitTrashed(list: Delivery[]): [Delivery[], Delivery[]] {
+  const trashed = list.filter(isTrashed).sort((a, b) => (a.deletedAt! < b.deletedAt! ? 1 : -1));
+  return [list.filter((d) => !isTrashed(d)), trashed];
+}
+
+export function purgeAt(d: Delivery, days: number) {
+  return new Date(new Date(d.deletedAt!).getTime() + days * 86400000);
+}
+
+// Jobs whose retention period has run out
+export function purgeDue(trash: Delivery[], days: number, now = new Date()) {
+  return trash.filter((d) => purgeAt(d, days) <= now);
+}
+
+// Every trashed row on the server, for devices that weren't syncing when the
+// jobs were deleted
+export async function fetchTrash(userId: string): Promise<Delivery[]> {
+  const out: Delivery[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    out.push(...(data as DeliveryRow[]).map(rowToDelivery));
+    if (data.length < PAGE_SIZE) return out;
+  }
+}